@@ -0,0 +1,19 @@
+import { parseConfig } from '../config/index.js';
+import type { AppConfig } from '../types/index.js';
+
+// Minimal valid configuration for tests, with in-memory storage. Top-level
+// sections in `overrides` replace the defaults.
+export function createTestConfig(overrides: Record<string, unknown> = {}): AppConfig {
+  return parseConfig({
+    github: {
+      token: `ghp_${'a'.repeat(36)}`,
+      webhookSecret: 'test-webhook-secret',
+      repo: { owner: 'octo-org', name: 'octo-repo' }
+    },
+    openai: { apiKey: `sk-${'a'.repeat(40)}` },
+    triage: {},
+    server: { logLevel: 'error' },
+    storage: { backend: 'memory' },
+    ...overrides
+  });
+}
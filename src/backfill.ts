@@ -0,0 +1,91 @@
+import { parseArgs } from 'util';
+import { loadConfigFromEnv } from './config/index.js';
+import { log, generateCorrelationId, configureLogger } from './utils/logger.js';
+import { ConfigurationError, ValidationError } from './utils/errors.js';
+import TriageOrchestrator from './services/orchestrator.js';
+import RepositoryRegistry from './services/repositories.js';
+import { closeTriageStores } from './storage/index.js';
+import type { BackfillFilter } from './types/index.js';
+
+const USAGE = `Usage: node dist/backfill.js [options]
+
+Triage existing issues, oldest first, resuming from the last run's checkpoint.
+
+Options:
+  --repository <owner/name>  Repository to backfill (default: GITHUB_REPO_OWNER/GITHUB_REPO_NAME)
+  --state <state>            open (default), closed or all
+  --since <date>             Only issues created at or after this ISO 8601 date
+  --until <date>             Only issues created at or before this ISO 8601 date
+  --include-labeled          Also triage issues that already have a label
+  --limit <n>                Most issues to triage in this run
+  --dry-run                  List the issues that would be triaged without triaging them
+  --restart                  Ignore the checkpoint of a previous run
+  --help                     Show this help`;
+
+// Run with `node dist/backfill.js`; prints the report as JSON and exits non-zero
+// when an issue failed or the run stopped before finishing
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      repository: { type: 'string' },
+      state: { type: 'string', default: 'open' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      'include-labeled': { type: 'boolean', default: false },
+      limit: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      restart: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!['open', 'closed', 'all'].includes(values.state)) {
+    throw new ConfigurationError('--state must be open, closed or all');
+  }
+  const limit = values.limit !== undefined ? parseInt(values.limit, 10) : undefined;
+  if (limit !== undefined && !(limit > 0)) {
+    throw new ConfigurationError('--limit must be a positive number');
+  }
+
+  const config = loadConfigFromEnv();
+  configureLogger(config.server);
+
+  const repositories = new RepositoryRegistry(config);
+  const repo = values.repository ? repositories.get(values.repository) : repositories.getDefault();
+  const orchestrator = new TriageOrchestrator(config, { repositories });
+
+  try {
+    const report = await orchestrator.backfillTriage(repo.fullName, {
+      state: values.state as BackfillFilter['state'],
+      since: values.since,
+      until: values.until,
+      onlyUnlabeled: !values['include-labeled'],
+      dryRun: values['dry-run'],
+      limit,
+      resume: !values.restart
+    }, generateCorrelationId());
+
+    console.log(JSON.stringify(report, null, 2));
+    return report.failed === 0 && (report.completed || report.stoppedReason === 'limit') ? 0 : 1;
+  } finally {
+    await closeTriageStores();
+  }
+}
+
+main().then(
+  code => process.exit(code),
+  (error) => {
+    // Bad arguments or configuration don't need a stack trace
+    if (error instanceof ConfigurationError || error instanceof ValidationError ||
+      (error instanceof TypeError && 'code' in error)) {
+      console.error(error.message);
+    } else {
+      log.error('Backfill failed', { component: 'backfill' }, error as Error);
+    }
+    process.exit(1);
+  }
+);
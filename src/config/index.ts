@@ -1,19 +1,225 @@
 import { z } from 'zod';
+import cron from 'node-cron';
 import { config as dotenvConfig } from 'dotenv';
-import type { AppConfig } from '../types/index.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { compileTemplate } from '../utils/template.js';
+import type { AppConfig, LabelDefinition } from '../types/index.js';
 
-// Load environment variables
-dotenvConfig();
+// Built-in definitions for the default labels, used when a label is given by name only
+export const DEFAULT_LABELS: LabelDefinition[] = [
+  {
+    name: 'bug',
+    description: "Something isn't working",
+    color: 'd73a4a',
+    examples: [],
+    applyWhen: [
+      'The issue reports an error, crash or behavior that contradicts the documentation',
+      'Something that used to work has stopped working'
+    ],
+    requiredInfo: [
+      'Steps to reproduce',
+      'Expected and actual behavior',
+      'Version and environment (OS, runtime or browser)'
+    ]
+  },
+  {
+    name: 'feature-request',
+    description: 'Request for new functionality',
+    color: 'a2eeef',
+    examples: [],
+    applyWhen: ['The issue asks for a capability the project does not have yet'],
+    requiredInfo: []
+  },
+  {
+    name: 'documentation',
+    description: 'Improvements or additions to documentation',
+    color: '0075ca',
+    examples: [],
+    applyWhen: ['The problem or request concerns docs, READMEs, guides or code comments'],
+    requiredInfo: []
+  },
+  {
+    name: 'question',
+    description: 'Further information is requested',
+    color: 'd876e3',
+    examples: [],
+    applyWhen: ['The author asks how to do something rather than reporting a problem'],
+    requiredInfo: []
+  },
+  {
+    name: 'enhancement',
+    description: 'Improvement to an existing feature',
+    color: '84b6eb',
+    examples: [],
+    applyWhen: ['The issue asks to improve the behavior, performance or usability of an existing feature'],
+    requiredInfo: []
+  }
+];
+
+// Retry policy for one upstream service
+const retryPolicySchema = (defaults: { retries: number; maxRetryAfterMs: number }) => z.object({
+  retries: z.number()
+    .int()
+    .min(0)
+    .max(10)
+    .default(defaults.retries)
+    .describe('Retries after the first attempt'),
+  factor: z.number()
+    .min(1)
+    .default(2)
+    .describe('Backoff multiplier between attempts'),
+  minTimeout: z.number()
+    .int()
+    .min(0)
+    .default(1000)
+    .describe('Delay before the first retry in milliseconds'),
+  maxTimeout: z.number()
+    .int()
+    .min(0)
+    .default(30000)
+    .describe('Upper bound for the backoff delay in milliseconds'),
+  maxRetryAfterMs: z.number()
+    .int()
+    .min(0)
+    .default(defaults.maxRetryAfterMs)
+    .describe('Longest server-requested wait (Retry-After, rate limit reset) to honour before giving up')
+})
+  .default({});
+
+// Classification label, given as a bare name or as a full definition for the prompt
+const labelSchema = z.union([
+  z.string()
+    .min(1)
+    .transform((name): LabelDefinition =>
+      DEFAULT_LABELS.find(label => label.name === name) ?? { name, examples: [], applyWhen: [], requiredInfo: [] }
+    ),
+  z.object({
+    name: z.string().min(1),
+    description: z.string()
+      .max(100, 'GitHub label descriptions are limited to 100 characters')
+      .optional(),
+    examples: z.array(z.string().min(1))
+      .default([])
+      .describe('Example issue titles that belong under this label'),
+    color: z.string()
+      .regex(/^#?[0-9a-fA-F]{6}$/, 'Label colors must be six-digit hex values')
+      .transform(color => color.replace(/^#/, '').toLowerCase())
+      .optional(),
+    applyWhen: z.array(z.string().min(1))
+      .default([])
+      .describe('Conditions under which the label should be chosen'),
+    requiredInfo: z.array(z.string().min(1))
+      .default([])
+      .describe('Details an issue with this label must provide, e.g. "Steps to reproduce"')
+  })
+]);
+
+// Area taxonomy value, given as a bare label name or with a description for the prompt
+const areaSchema = z.union([
+  z.string().min(1).transform(name => ({ name })),
+  z.object({
+    name: z.string().min(1),
+    description: z.string().optional()
+  })
+]);
+
+// Assignee routing rule; assignees are GitHub logins or "@org/team" slugs
+const routingRuleSchema = z.object({
+  labels: z.array(z.string().min(1))
+    .default([])
+    .describe('Route issues carrying any of these labels'),
+  keywords: z.array(z.string().min(1))
+    .default([])
+    .describe('Route issues whose title or body mentions any of these components or terms'),
+  assignees: z.array(z.string().regex(
+    /^@?[A-Za-z0-9-]+(\/[A-Za-z0-9_.-]+)?$/,
+    'Assignees must be GitHub logins or @org/team slugs'
+  ))
+    .min(1)
+    .describe('Users or teams that matching issues are assigned to')
+})
+  .refine(rule => rule.labels.length > 0 || rule.keywords.length > 0, {
+    message: 'Routing rules need at least one label or keyword'
+  });
+
+// Comment template, checked for unbalanced sections when the configuration loads
+const templateSchema = z.string()
+  .min(1)
+  .superRefine((template, ctx) => {
+    try {
+      compileTemplate(template);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Invalid template: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+// Cron expression for a scheduled sweep, or "off" to disable it
+const scheduleSchema = z.string()
+  .refine(schedule => schedule === 'off' || cron.validate(schedule), {
+    message: 'Invalid cron expression (use "off" to disable the sweep)'
+  });
+
+const DEFAULT_STALE_REMINDER = '@{{author}}, this issue is still waiting for the information requested above. ' +
+  'Please reply or edit the issue to add it.' +
+  '{{#closeAfterDays}} Without a response, it will be closed in {{closeAfterDays}} days.{{/closeAfterDays}}';
+
+const DEFAULT_STALE_CLOSE_COMMENT = 'Closing this issue because the requested information was not provided. ' +
+  '@{{author}}, feel free to reopen it once you can add the details.';
+
+const commentLocaleSchema = z.enum(['en', 'es', 'fr', 'de', 'pt-BR']);
+
+const commentTemplatesSchema = z.object({
+  triage: templateSchema
+    .optional()
+    .describe('Template for comments on confidently labeled issues'),
+  suggestion: templateSchema
+    .optional()
+    .describe('Template for comments on issues sent to review'),
+  labels: z.record(templateSchema)
+    .default({})
+    .describe('Sections added to the comment when the issue is classified with the label')
+});
 
 // Configuration validation schema
-const configSchema = z.object({
+export const configSchema = z.object({
   github: z.object({
     token: z.string()
-      .regex(/^ghp_[a-zA-Z0-9]{36}$/, 'Invalid GitHub token format')
-      .describe('GitHub Personal Access Token with repo access'),
+      .regex(
+        /^(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})$/,
+        'Invalid GitHub token format'
+      )
+      .optional()
+      .describe('GitHub personal access token (classic or fine-grained) with repo access'),
+    app: z.object({
+      appId: z.union([z.string().min(1), z.number().int().positive()])
+        .describe('GitHub App ID'),
+      privateKey: z.string()
+        .includes('PRIVATE KEY', { message: 'GitHub App private key must be PEM encoded' })
+        .describe('GitHub App private key (PEM)'),
+      installationId: z.number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Default installation ID when it cannot be taken from a webhook')
+    })
+      .optional()
+      .describe('GitHub App credentials; used instead of a token when set'),
+    apiUrl: z.string()
+      .url()
+      .default('https://api.github.com')
+      .describe('GitHub REST API base URL'),
     webhookSecret: z.string()
       .min(10, 'Webhook secret must be at least 10 characters')
       .describe('GitHub webhook secret for verification'),
+    previousWebhookSecrets: z.array(z.string().min(10, 'Webhook secret must be at least 10 characters'))
+      .default([])
+      .describe('Previous webhook secrets still accepted during a rotation window'),
+    allowSha1Signatures: z.boolean()
+      .default(false)
+      .describe('Accept the legacy X-Hub-Signature (sha1) header'),
     repo: z.object({
       owner: z.string()
         .min(1, 'Repository owner is required')
@@ -22,19 +228,53 @@ const configSchema = z.object({
         .min(1, 'Repository name is required')
         .describe('GitHub repository name')
     })
-  }),
+  })
+    .refine(github => Boolean(github.token || github.app), {
+      message: 'Either a GitHub token or GitHub App credentials are required',
+      path: ['token']
+    }),
   openai: z.object({
+    provider: z.enum(['openai', 'openai-compatible', 'anthropic', 'azure-openai'])
+      .default('openai')
+      .describe('LLM provider used for classification'),
     apiKey: z.string()
-      .regex(/^sk-proj-[a-zA-Z0-9\-_]+$/, 'Invalid OpenAI API key format')
-      .describe('OpenAI API key for issue classification'),
+      .min(1)
+      .optional()
+      .describe('API key for the classification provider'),
     model: z.string()
       .default('gpt-4o')
-      .describe('OpenAI model to use for classification')
-  }),
+      .describe('Model to use for classification'),
+    baseUrl: z.string()
+      .url()
+      .optional()
+      .describe('API base URL (required for openai-compatible and azure-openai)'),
+    apiVersion: z.string()
+      .optional()
+      .describe('API version (Azure OpenAI api-version or anthropic-version header)'),
+    deployment: z.string()
+      .optional()
+      .describe('Azure OpenAI deployment name (defaults to the model)')
+  })
+    .superRefine((openai, ctx) => {
+      // Local OpenAI-compatible servers usually don't require a key
+      if (!openai.apiKey && openai.provider !== 'openai-compatible') {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKey'], message: 'API key is required' });
+      }
+      if (openai.provider === 'openai' && openai.apiKey && !/^sk-[a-zA-Z0-9\-_]+$/.test(openai.apiKey)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['apiKey'], message: 'Invalid OpenAI API key format' });
+      }
+      if ((openai.provider === 'openai-compatible' || openai.provider === 'azure-openai') && !openai.baseUrl) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['baseUrl'], message: `Base URL is required for ${openai.provider}` });
+      }
+    }),
   triage: z.object({
-    labels: z.array(z.string())
-      .default(['bug', 'feature-request', 'documentation', 'question', 'enhancement'])
+    labels: z.array(labelSchema)
+      .min(1)
+      .default(DEFAULT_LABELS.map(label => label.name))
       .describe('Available labels for issue classification'),
+    guidelines: z.string()
+      .optional()
+      .describe('Free-text triage guidelines included in the classification prompt'),
     confidenceThreshold: z.number()
       .min(0.1)
       .max(1.0)
@@ -42,8 +282,359 @@ const configSchema = z.object({
       .describe('Minimum confidence score for auto-labeling'),
     autoComment: z.boolean()
       .default(true)
-      .describe('Enable automatic first comments on issues')
+      .describe('Enable automatic first comments on issues'),
+    lowConfidence: z.object({
+      label: z.string()
+        .min(1)
+        .default('needs-triage')
+        .describe('Label applied when classification confidence is below threshold'),
+      suggestComment: z.boolean()
+        .default(true)
+        .describe('Post a "suggested label" comment for low-confidence classifications')
+    })
+      .default({})
+      .describe('Handling of classifications below the confidence threshold'),
+    rules: z.object({
+      mode: z.enum(['off', 'fallback', 'prefilter', 'only'])
+        .default('fallback')
+        .describe('How the rule-based classifier is used alongside the LLM'),
+      prefilterConfidence: z.number()
+        .min(0.1)
+        .max(1.0)
+        .default(0.9)
+        .describe('Rule confidence at which the LLM is skipped in prefilter mode'),
+      custom: z.array(z.object({
+        label: z.string().min(1),
+        pattern: z.string()
+          .min(1)
+          .refine(pattern => {
+            try {
+              new RegExp(pattern);
+              return true;
+            } catch {
+              return false;
+            }
+          }, 'Invalid regular expression'),
+        target: z.enum(['title', 'body', 'text']).default('text'),
+        weight: z.number().positive().default(1),
+        description: z.string().optional()
+      }))
+        .default([])
+        .describe('Additional keyword/regex rules')
+    })
+      .default({})
+      .describe('Rule-based classifier settings'),
+    areas: z.object({
+      values: z.array(areaSchema)
+        .default([])
+        .describe('Component/area labels (e.g. area/api) classified alongside the primary label'),
+      confidenceThreshold: z.number()
+        .min(0.1)
+        .max(1.0)
+        .default(0.7)
+        .describe('Minimum area confidence for applying the area label')
+    })
+      .default({})
+      .describe('Second classification dimension for the affected component or area')
   }),
+  repositories: z.array(z.object({
+    owner: z.string()
+      .min(1, 'Repository owner is required'),
+    name: z.string()
+      .min(1, 'Repository name is required'),
+    labels: z.array(labelSchema)
+      .min(1)
+      .optional()
+      .describe('Labels available for this repository (defaults to triage.labels)'),
+    confidenceThreshold: z.number()
+      .min(0.1)
+      .max(1.0)
+      .optional()
+      .describe('Confidence threshold for this repository'),
+    autoComment: z.boolean()
+      .optional()
+      .describe('Whether to post triage comments in this repository'),
+    guidelines: z.string()
+      .optional()
+      .describe('Triage guidelines for this repository (defaults to triage.guidelines)'),
+    promptHints: z.string()
+      .optional()
+      .describe('Deprecated alias for guidelines'),
+    installationId: z.number()
+      .int()
+      .positive()
+      .optional()
+      .describe('GitHub App installation ID for this repository'),
+    areas: z.array(areaSchema)
+      .optional()
+      .describe('Area taxonomy for this repository (defaults to triage.areas.values)'),
+    routingRules: z.array(routingRuleSchema)
+      .optional()
+      .describe('Assignee routing rules for this repository (defaults to routing.rules)'),
+    commentLocale: commentLocaleSchema
+      .optional()
+      .describe('Language of the built-in comment templates for this repository (defaults to comments.locale)'),
+    commentTemplates: commentTemplatesSchema
+      .partial()
+      .optional()
+      .describe('Comment templates for this repository, layered over comments.templates')
+  }))
+    .default([])
+    .describe('Additional repositories to triage, with optional per-repository overrides'),
+  dedup: z.object({
+    ttlSeconds: z.number()
+      .int()
+      .min(0)
+      .default(7 * 24 * 60 * 60)
+      .describe('How long delivery IDs and issue content hashes suppress re-triage (0 disables)')
+  })
+    .default({}),
+  retry: z.object({
+    github: retryPolicySchema({ retries: 3, maxRetryAfterMs: 60000 }),
+    llm: retryPolicySchema({ retries: 2, maxRetryAfterMs: 30000 })
+  })
+    .default({}),
+  feedback: z.object({
+    enabled: z.boolean()
+      .default(true)
+      .describe('Record maintainer label corrections as feedback'),
+    maxExamples: z.number()
+      .int()
+      .min(0)
+      .max(20)
+      .default(5)
+      .describe('Recent corrections included as few-shot examples in the classification prompt (0 disables)')
+  })
+    .default({}),
+  duplicates: z.object({
+    enabled: z.boolean()
+      .default(true)
+      .describe('Look for existing open issues that a new issue duplicates'),
+    threshold: z.number()
+      .min(0)
+      .max(1)
+      .default(0.5)
+      .describe('TF-IDF cosine similarity at or above which an open issue is a likely duplicate'),
+    maxCandidates: z.number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(3)
+      .describe('Most similar open issues linked in the triage comment'),
+    label: z.string()
+      .min(1)
+      .default('possible-duplicate')
+      .describe('Label added when likely duplicates are found'),
+    maxOpenIssues: z.number()
+      .int()
+      .min(1)
+      .max(1000)
+      .default(300)
+      .describe('Most recently created open issues indexed for comparison')
+  })
+    .default({}),
+  comments: z.object({
+    mode: z.enum(['create', 'update', 'none'])
+      .default('update')
+      .describe('Post a new triage comment each time, update the previous one in place, or post none'),
+    maxRevisions: z.number()
+      .int()
+      .min(0)
+      .max(20)
+      .default(5)
+      .describe('Earlier classifications listed in an updated comment'),
+    locale: commentLocaleSchema
+      .default('en')
+      .describe('Language of the built-in comment templates'),
+    templates: commentTemplatesSchema
+      .default({})
+      .describe('Mustache-style templates replacing the built-in comments')
+  })
+    .default({}),
+  needsInfo: z.object({
+    enabled: z.boolean()
+      .default(false)
+      .describe("Check issues against their label's required information and ask the author for what's missing"),
+    label: z.string()
+      .min(1)
+      .default('needs-info')
+      .describe('Label applied while required information is missing'),
+    retriageOnResponse: z.boolean()
+      .default(true)
+      .describe('Re-triage an issue waiting for information when its author comments on it')
+  })
+    .default({}),
+  backfill: z.object({
+    concurrency: z.number()
+      .int()
+      .min(1)
+      .default(2)
+      .describe('Issues triaged at once by a backfill'),
+    minRateLimitRemaining: z.number()
+      .int()
+      .min(0)
+      .default(1000)
+      .describe('GitHub requests that must remain before each page of issues is triaged'),
+    maxRateLimitWaitSeconds: z.number()
+      .int()
+      .min(0)
+      .default(900)
+      .describe('Longest wait for the rate limit to reset; a later reset stops the backfill at its checkpoint')
+  })
+    .default({}),
+  scheduler: z.object({
+    enabled: z.boolean()
+      .default(false)
+      .describe('Run periodic sweeps from the webhook server'),
+    timezone: z.string()
+      .min(1)
+      .optional()
+      .describe('IANA time zone the schedules are evaluated in; defaults to the server time zone'),
+    untriaged: z.object({
+      schedule: scheduleSchema
+        .default('*/30 * * * *')
+        .describe('When to look for issues that were never triaged or whose triage failed'),
+      lookbackDays: z.number()
+        .int()
+        .min(1)
+        .default(14)
+        .describe('Only issues updated within this many days are checked'),
+      maxIssues: z.number()
+        .int()
+        .min(1)
+        .default(50)
+        .describe('Most issues queued for triage by one run')
+    })
+      .default({}),
+    staleNeedsInfo: z.object({
+      schedule: scheduleSchema
+        .default('0 9 * * *')
+        .describe('When to remind authors of, and close, issues waiting for information'),
+      remindAfterDays: z.number()
+        .int()
+        .min(1)
+        .default(7)
+        .describe('Days without an author response before a reminder is posted'),
+      closeAfterDays: z.number()
+        .int()
+        .min(0)
+        .default(14)
+        .describe('Days after the reminder before the issue is closed; 0 never closes'),
+      reminder: templateSchema
+        .default(DEFAULT_STALE_REMINDER)
+        .describe('Template for the reminder comment'),
+      closeComment: templateSchema
+        .default(DEFAULT_STALE_CLOSE_COMMENT)
+        .describe('Template for the comment posted when the issue is closed')
+    })
+      .default({})
+  })
+    .default({}),
+  labelSync: z.object({
+    onStartup: z.boolean()
+      .default(false)
+      .describe('Create missing labels in every repository when the webhook server starts'),
+    updateExisting: z.boolean()
+      .default(false)
+      .describe('Also update the color and description of labels that differ from the configuration')
+  })
+    .default({}),
+  routing: z.object({
+    enabled: z.boolean()
+      .default(false)
+      .describe('Assign triaged issues using routing rules and CODEOWNERS'),
+    strategy: z.enum(['round-robin', 'least-loaded'])
+      .default('round-robin')
+      .describe('How an assignee is picked when a rule or team names several people'),
+    maxAssignees: z.number()
+      .int()
+      .min(1)
+      .max(10)
+      .default(1)
+      .describe('Users assigned to each issue'),
+    codeowners: z.boolean()
+      .default(true)
+      .describe('Fall back to CODEOWNERS entries for file paths mentioned in the issue'),
+    rules: z.array(routingRuleSchema)
+      .default([])
+      .describe('Label and keyword routing rules, checked in order')
+  })
+    .default({}),
+  fewShot: z.object({
+    maxExamples: z.number()
+      .int()
+      .min(0)
+      .max(20)
+      .default(3)
+      .describe('Most similar labeled issues included as prompt examples (0 disables)'),
+    tokenBudget: z.number()
+      .int()
+      .min(0)
+      .default(1000)
+      .describe('Approximate prompt tokens available for all few-shot examples, corrections included'),
+    refreshMinutes: z.number()
+      .int()
+      .min(1)
+      .default(360)
+      .describe('How long the cached labeled issues are used before refetching'),
+    issuesPerLabel: z.number()
+      .int()
+      .min(1)
+      .max(100)
+      .default(30)
+      .describe('Most recently updated issues fetched per triage label')
+  })
+    .default({}),
+  circuitBreaker: z.object({
+    failureThreshold: z.number()
+      .int()
+      .min(1)
+      .default(5)
+      .describe('Consecutive failed requests to an upstream before its circuit opens'),
+    cooldownMs: z.number()
+      .int()
+      .min(1000)
+      .default(60000)
+      .describe('How long an open circuit rejects requests before allowing a trial request')
+  })
+    .default({}),
+  queue: z.object({
+    concurrency: z.number()
+      .int()
+      .min(1)
+      .default(2)
+      .describe('Maximum number of triage jobs processed at once'),
+    maxAttempts: z.number()
+      .int()
+      .min(1)
+      .default(5)
+      .describe('Attempts before a failing job is moved to the dead-letter list'),
+    backoffBaseMs: z.number()
+      .int()
+      .min(0)
+      .default(5000)
+      .describe('Delay before the first retry; doubles on each further attempt'),
+    backoffMaxMs: z.number()
+      .int()
+      .min(0)
+      .default(300000)
+      .describe('Upper bound for the retry delay')
+  })
+    .default({}),
+  storage: z.object({
+    backend: z.enum(['sqlite', 'memory'])
+      .default('sqlite')
+      .describe('Triage history storage backend'),
+    dataDir: z.string()
+      .min(1)
+      .default('data')
+      .describe('Directory holding the SQLite database when sqlitePath is not set'),
+    sqlitePath: z.string()
+      .min(1)
+      .optional()
+      .describe('SQLite database path (defaults to <dataDir>/triage.db)')
+  })
+    .default({}),
   server: z.object({
     port: z.number()
       .int()
@@ -56,65 +647,306 @@ const configSchema = z.object({
       .describe('Application environment'),
     logLevel: z.enum(['error', 'warn', 'info', 'debug'])
       .default('info')
-      .describe('Logging level')
+      .describe('Logging level'),
+    shutdownTimeoutMs: z.number()
+      .int()
+      .min(0)
+      .default(30000)
+      .describe('Maximum time to wait for in-flight triages during shutdown')
   })
 });
 
-// Environment variable mapping
-const environmentConfig = {
-  github: {
-    token: process.env.GITHUB_TOKEN || '',
-    webhookSecret: process.env.GITHUB_WEBHOOK_SECRET || '',
-    repo: {
-      owner: process.env.GITHUB_REPO_OWNER || '',
-      name: process.env.GITHUB_REPO_NAME || ''
+// Parse a JSON-valued environment variable
+function parseJsonEnv(value: string | undefined, name: string): unknown {
+  if (!value) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ConfigurationError(`${name} must be valid JSON`);
+  }
+}
+
+// <PREFIX>_RETRIES, <PREFIX>_RETRY_MIN_TIMEOUT_MS, <PREFIX>_RETRY_MAX_TIMEOUT_MS
+// and <PREFIX>_RETRY_MAX_WAIT_MS for one service's retry policy
+function mapRetryEnvironment(env: NodeJS.ProcessEnv, prefix: string) {
+  const readInt = (name: string) => env[name] ? parseInt(env[name]!, 10) : undefined;
+
+  return {
+    retries: readInt(`${prefix}_RETRIES`),
+    minTimeout: readInt(`${prefix}_RETRY_MIN_TIMEOUT_MS`),
+    maxTimeout: readInt(`${prefix}_RETRY_MAX_TIMEOUT_MS`),
+    maxRetryAfterMs: readInt(`${prefix}_RETRY_MAX_WAIT_MS`)
+  };
+}
+
+// Map environment variables onto the configuration shape
+function mapEnvironment(env: NodeJS.ProcessEnv) {
+  return {
+    github: {
+      token: env.GITHUB_TOKEN || undefined,
+      app: env.GITHUB_APP_ID ? {
+        appId: env.GITHUB_APP_ID,
+        // Allow single-line keys with escaped newlines in .env files
+        privateKey: (env.GITHUB_APP_PRIVATE_KEY || '').replace(/\\n/g, '\n'),
+        installationId: env.GITHUB_APP_INSTALLATION_ID ? 
+          parseInt(env.GITHUB_APP_INSTALLATION_ID, 10) : 
+          undefined
+      } : undefined,
+      apiUrl: env.GITHUB_API_URL || undefined,
+      webhookSecret: env.GITHUB_WEBHOOK_SECRET || '',
+      previousWebhookSecrets: env.GITHUB_WEBHOOK_PREVIOUS_SECRETS ? 
+        env.GITHUB_WEBHOOK_PREVIOUS_SECRETS.split(',').map(secret => secret.trim()).filter(Boolean) : 
+        undefined,
+      allowSha1Signatures: env.GITHUB_WEBHOOK_ALLOW_SHA1 ? 
+        env.GITHUB_WEBHOOK_ALLOW_SHA1.toLowerCase() === 'true' : 
+        undefined,
+      repo: {
+        owner: env.GITHUB_REPO_OWNER || '',
+        name: env.GITHUB_REPO_NAME || ''
+      }
+    },
+    openai: {
+      provider: env.LLM_PROVIDER || undefined,
+      apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY || undefined,
+      model: env.LLM_MODEL || env.OPENAI_MODEL || undefined,
+      baseUrl: env.LLM_BASE_URL || undefined,
+      apiVersion: env.LLM_API_VERSION || undefined,
+      deployment: env.LLM_DEPLOYMENT || undefined
+    },
+    triage: {
+      // Either a comma-separated list of names or a JSON array of label definitions
+      labels: env.TRIAGE_LABELS?.trim().startsWith('[') ?
+        parseJsonEnv(env.TRIAGE_LABELS, 'TRIAGE_LABELS') :
+        env.TRIAGE_LABELS ? 
+          env.TRIAGE_LABELS.split(',').map(label => label.trim()) : 
+          undefined,
+      guidelines: env.TRIAGE_GUIDELINES || undefined,
+      confidenceThreshold: env.CONFIDENCE_THRESHOLD ? 
+        parseFloat(env.CONFIDENCE_THRESHOLD) : 
+        undefined,
+      autoComment: env.AUTO_COMMENT ? 
+        env.AUTO_COMMENT.toLowerCase() === 'true' : 
+        undefined,
+      lowConfidence: {
+        label: env.LOW_CONFIDENCE_LABEL || undefined,
+        suggestComment: env.LOW_CONFIDENCE_SUGGEST_COMMENT ? 
+          env.LOW_CONFIDENCE_SUGGEST_COMMENT.toLowerCase() === 'true' : 
+          undefined
+      },
+      rules: {
+        mode: env.RULES_MODE || undefined,
+        prefilterConfidence: env.RULES_PREFILTER_CONFIDENCE ? 
+          parseFloat(env.RULES_PREFILTER_CONFIDENCE) : 
+          undefined,
+        custom: parseJsonEnv(env.RULES_CUSTOM, 'RULES_CUSTOM')
+      },
+      areas: {
+        values: parseJsonEnv(env.TRIAGE_AREAS, 'TRIAGE_AREAS'),
+        confidenceThreshold: env.AREA_CONFIDENCE_THRESHOLD ? 
+          parseFloat(env.AREA_CONFIDENCE_THRESHOLD) : 
+          undefined
+      }
+    },
+    repositories: parseJsonEnv(env.TRIAGE_REPOSITORIES, 'TRIAGE_REPOSITORIES'),
+    dedup: {
+      ttlSeconds: env.DEDUP_TTL_SECONDS ? 
+        parseInt(env.DEDUP_TTL_SECONDS, 10) : 
+        undefined
+    },
+    retry: {
+      github: mapRetryEnvironment(env, 'GITHUB'),
+      llm: mapRetryEnvironment(env, 'LLM')
+    },
+    feedback: {
+      enabled: env.FEEDBACK_ENABLED ? 
+        env.FEEDBACK_ENABLED.toLowerCase() === 'true' : 
+        undefined,
+      maxExamples: env.FEEDBACK_MAX_EXAMPLES ? 
+        parseInt(env.FEEDBACK_MAX_EXAMPLES, 10) : 
+        undefined
+    },
+    duplicates: {
+      enabled: env.DUPLICATES_ENABLED ? 
+        env.DUPLICATES_ENABLED.toLowerCase() === 'true' : 
+        undefined,
+      threshold: env.DUPLICATE_THRESHOLD ? 
+        parseFloat(env.DUPLICATE_THRESHOLD) : 
+        undefined,
+      maxCandidates: env.DUPLICATE_MAX_CANDIDATES ? 
+        parseInt(env.DUPLICATE_MAX_CANDIDATES, 10) : 
+        undefined,
+      label: env.DUPLICATE_LABEL || undefined,
+      maxOpenIssues: env.DUPLICATE_MAX_OPEN_ISSUES ? 
+        parseInt(env.DUPLICATE_MAX_OPEN_ISSUES, 10) : 
+        undefined
+    },
+    comments: {
+      mode: env.COMMENT_MODE || undefined,
+      maxRevisions: env.COMMENT_MAX_REVISIONS ? 
+        parseInt(env.COMMENT_MAX_REVISIONS, 10) : 
+        undefined,
+      locale: env.COMMENT_LOCALE || undefined,
+      templates: {
+        triage: env.COMMENT_TEMPLATE_TRIAGE || undefined,
+        suggestion: env.COMMENT_TEMPLATE_SUGGESTION || undefined,
+        labels: parseJsonEnv(env.COMMENT_LABEL_TEMPLATES, 'COMMENT_LABEL_TEMPLATES')
+      }
+    },
+    needsInfo: {
+      enabled: env.NEEDS_INFO_ENABLED ? 
+        env.NEEDS_INFO_ENABLED.toLowerCase() === 'true' : 
+        undefined,
+      label: env.NEEDS_INFO_LABEL || undefined,
+      retriageOnResponse: env.NEEDS_INFO_RETRIAGE_ON_RESPONSE ? 
+        env.NEEDS_INFO_RETRIAGE_ON_RESPONSE.toLowerCase() === 'true' : 
+        undefined
+    },
+    backfill: {
+      concurrency: env.BACKFILL_CONCURRENCY ? 
+        parseInt(env.BACKFILL_CONCURRENCY, 10) : 
+        undefined,
+      minRateLimitRemaining: env.BACKFILL_MIN_RATE_LIMIT_REMAINING ? 
+        parseInt(env.BACKFILL_MIN_RATE_LIMIT_REMAINING, 10) : 
+        undefined,
+      maxRateLimitWaitSeconds: env.BACKFILL_MAX_RATE_LIMIT_WAIT_SECONDS ? 
+        parseInt(env.BACKFILL_MAX_RATE_LIMIT_WAIT_SECONDS, 10) : 
+        undefined
+    },
+    scheduler: {
+      enabled: env.SCHEDULER_ENABLED ? 
+        env.SCHEDULER_ENABLED.toLowerCase() === 'true' : 
+        undefined,
+      timezone: env.SCHEDULER_TIMEZONE || undefined,
+      untriaged: {
+        schedule: env.SWEEP_UNTRIAGED_SCHEDULE || undefined,
+        lookbackDays: env.SWEEP_UNTRIAGED_LOOKBACK_DAYS ? 
+          parseInt(env.SWEEP_UNTRIAGED_LOOKBACK_DAYS, 10) : 
+          undefined,
+        maxIssues: env.SWEEP_UNTRIAGED_MAX_ISSUES ? 
+          parseInt(env.SWEEP_UNTRIAGED_MAX_ISSUES, 10) : 
+          undefined
+      },
+      staleNeedsInfo: {
+        schedule: env.SWEEP_STALE_SCHEDULE || undefined,
+        remindAfterDays: env.STALE_REMIND_AFTER_DAYS ? 
+          parseInt(env.STALE_REMIND_AFTER_DAYS, 10) : 
+          undefined,
+        closeAfterDays: env.STALE_CLOSE_AFTER_DAYS ? 
+          parseInt(env.STALE_CLOSE_AFTER_DAYS, 10) : 
+          undefined,
+        reminder: env.STALE_REMINDER || undefined,
+        closeComment: env.STALE_CLOSE_COMMENT || undefined
+      }
+    },
+    labelSync: {
+      onStartup: env.LABEL_SYNC_ON_STARTUP ? 
+        env.LABEL_SYNC_ON_STARTUP.toLowerCase() === 'true' : 
+        undefined,
+      updateExisting: env.LABEL_SYNC_UPDATE_EXISTING ? 
+        env.LABEL_SYNC_UPDATE_EXISTING.toLowerCase() === 'true' : 
+        undefined
+    },
+    routing: {
+      enabled: env.ROUTING_ENABLED ? 
+        env.ROUTING_ENABLED.toLowerCase() === 'true' : 
+        undefined,
+      strategy: env.ROUTING_STRATEGY || undefined,
+      maxAssignees: env.ROUTING_MAX_ASSIGNEES ? 
+        parseInt(env.ROUTING_MAX_ASSIGNEES, 10) : 
+        undefined,
+      codeowners: env.ROUTING_CODEOWNERS ? 
+        env.ROUTING_CODEOWNERS.toLowerCase() === 'true' : 
+        undefined,
+      rules: parseJsonEnv(env.ROUTING_RULES, 'ROUTING_RULES')
+    },
+    fewShot: {
+      maxExamples: env.FEW_SHOT_MAX_EXAMPLES ? 
+        parseInt(env.FEW_SHOT_MAX_EXAMPLES, 10) : 
+        undefined,
+      tokenBudget: env.FEW_SHOT_TOKEN_BUDGET ? 
+        parseInt(env.FEW_SHOT_TOKEN_BUDGET, 10) : 
+        undefined,
+      refreshMinutes: env.FEW_SHOT_REFRESH_MINUTES ? 
+        parseInt(env.FEW_SHOT_REFRESH_MINUTES, 10) : 
+        undefined,
+      issuesPerLabel: env.FEW_SHOT_ISSUES_PER_LABEL ? 
+        parseInt(env.FEW_SHOT_ISSUES_PER_LABEL, 10) : 
+        undefined
+    },
+    circuitBreaker: {
+      failureThreshold: env.CIRCUIT_BREAKER_FAILURE_THRESHOLD ? 
+        parseInt(env.CIRCUIT_BREAKER_FAILURE_THRESHOLD, 10) : 
+        undefined,
+      cooldownMs: env.CIRCUIT_BREAKER_COOLDOWN_MS ? 
+        parseInt(env.CIRCUIT_BREAKER_COOLDOWN_MS, 10) : 
+        undefined
+    },
+    queue: {
+      concurrency: env.QUEUE_CONCURRENCY ? 
+        parseInt(env.QUEUE_CONCURRENCY, 10) : 
+        undefined,
+      maxAttempts: env.QUEUE_MAX_ATTEMPTS ? 
+        parseInt(env.QUEUE_MAX_ATTEMPTS, 10) : 
+        undefined,
+      backoffBaseMs: env.QUEUE_BACKOFF_BASE_MS ? 
+        parseInt(env.QUEUE_BACKOFF_BASE_MS, 10) : 
+        undefined,
+      backoffMaxMs: env.QUEUE_BACKOFF_MAX_MS ? 
+        parseInt(env.QUEUE_BACKOFF_MAX_MS, 10) : 
+        undefined
+    },
+    storage: {
+      backend: env.STORAGE_BACKEND || undefined,
+      dataDir: env.DATA_DIR || undefined,
+      sqlitePath: env.SQLITE_PATH || undefined
+    },
+    server: {
+      port: env.PORT ? parseInt(env.PORT, 10) : undefined,
+      environment: env.NODE_ENV as 'development' | 'production' | 'test' | undefined,
+      logLevel: env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug' | undefined,
+      shutdownTimeoutMs: env.SHUTDOWN_TIMEOUT_MS ? 
+        parseInt(env.SHUTDOWN_TIMEOUT_MS, 10) : 
+        undefined
     }
-  },
-  openai: {
-    apiKey: process.env.OPENAI_API_KEY || '',
-    model: process.env.OPENAI_MODEL || 'gpt-4o'
-  },
-  triage: {
-    labels: process.env.TRIAGE_LABELS ? 
-      process.env.TRIAGE_LABELS.split(',').map(label => label.trim()) : 
-      undefined,
-    confidenceThreshold: process.env.CONFIDENCE_THRESHOLD ? 
-      parseFloat(process.env.CONFIDENCE_THRESHOLD) : 
-      undefined,
-    autoComment: process.env.AUTO_COMMENT ? 
-      process.env.AUTO_COMMENT.toLowerCase() === 'true' : 
-      undefined
-  },
-  server: {
-    port: process.env.PORT ? parseInt(process.env.PORT, 10) : undefined,
-    environment: process.env.NODE_ENV as 'development' | 'production' | 'test' | undefined,
-    logLevel: process.env.LOG_LEVEL as 'error' | 'warn' | 'info' | 'debug' | undefined
+  };
+}
+
+// Validate raw configuration from any source, throwing a ConfigurationError on failure
+export function parseConfig(input: unknown): AppConfig {
+  const result = configSchema.safeParse(input);
+
+  if (!result.success) {
+    const issues = result.error.errors
+      .map(err => `${err.path.join('.')}: ${err.message}`)
+      .join(', ');
+    throw new ConfigurationError(issues);
   }
-};
-
-// Validate and export configuration
-let config: AppConfig;
-
-try {
-  config = configSchema.parse(environmentConfig);
-} catch (error) {
-  if (error instanceof z.ZodError) {
-    console.error('Configuration validation failed:');
-    error.errors.forEach(err => {
-      console.error(`  ${err.path.join('.')}: ${err.message}`);
-    });
-    process.exit(1);
+
+  return result.data;
+}
+
+// Load configuration from environment variables (and .env, if present)
+export function loadConfigFromEnv(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  if (env === process.env) {
+    dotenvConfig({ quiet: true });
   }
-  throw error;
+  return parseConfig(mapEnvironment(env));
 }
 
 // Helper function to get sanitized config for logging
-export function getSanitizedConfig(): Record<string, any> {
+export function getSanitizedConfig(config: AppConfig): Record<string, any> {
   const sanitized = JSON.parse(JSON.stringify(config));
   
   // Redact sensitive values
   if (sanitized.github?.token) sanitized.github.token = '[REDACTED]';
+  if (sanitized.github?.app?.privateKey) sanitized.github.app.privateKey = '[REDACTED]';
   if (sanitized.github?.webhookSecret) sanitized.github.webhookSecret = '[REDACTED]';
+  if (sanitized.github?.previousWebhookSecrets) {
+    sanitized.github.previousWebhookSecrets = sanitized.github.previousWebhookSecrets.map(() => '[REDACTED]');
+  }
   if (sanitized.openai?.apiKey) sanitized.openai.apiKey = '[REDACTED]';
   
   return sanitized;
@@ -125,6 +957,3 @@ export function validatePartialConfig(updates: Partial<AppConfig>): z.SafeParseR
   const partialSchema = configSchema.partial();
   return partialSchema.safeParse(updates);
 }
-
-export { config };
-export default config;
\ No newline at end of file
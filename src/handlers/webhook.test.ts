@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import request from 'supertest';
+import WebhookHandler from './webhook.js';
+import { createWebhookApp } from '../server.js';
+import { computeSignature } from '../utils/signature.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), '../__fixtures__');
+const issuesOpened = fs.readFileSync(path.join(fixtures, 'issues-opened.json'));
+const issueCommentCreated = JSON.parse(fs.readFileSync(path.join(fixtures, 'issue-comment-created.json'), 'utf8'));
+
+describe('WebhookHandler delivery deduplication', () => {
+  const config = createTestConfig();
+
+  const deliver = (handler: WebhookHandler, deliveryId: string) =>
+    request(createWebhookApp(handler))
+      .post('/webhooks/github')
+      .set('Content-Type', 'application/json')
+      .set('X-GitHub-Event', 'issues')
+      .set('X-GitHub-Delivery', deliveryId)
+      .set('X-Hub-Signature-256', computeSignature(issuesOpened, config.github.webhookSecret))
+      .send(issuesOpened.toString('utf8'));
+
+  it('ignores a redelivery of a queued webhook', async () => {
+    const handler = new WebhookHandler(config);
+
+    const first = await deliver(handler, 'delivery-queued');
+    const second = await deliver(handler, 'delivery-queued');
+
+    expect(first.body).toMatchObject({ processed: true, jobId: expect.any(Number) });
+    expect(second.body).toMatchObject({ processed: false, duplicate: true });
+  });
+
+  it('accepts the redelivery of a webhook that failed before its job was queued', async () => {
+    const handler = new WebhookHandler(config);
+    jest.spyOn(handler.getQueue(), 'enqueue').mockRejectedValueOnce(new Error('database is locked'));
+
+    const failed = await deliver(handler, 'delivery-failed');
+    const redelivered = await deliver(handler, 'delivery-failed');
+
+    expect(failed.status).toBe(500);
+    expect(redelivered.status).toBe(200);
+    expect(redelivered.body).toMatchObject({ processed: true, jobId: expect.any(Number) });
+  });
+});
+
+describe('WebhookHandler author responses', () => {
+  const config = createTestConfig({ needsInfo: { enabled: true } });
+  let deliveries = 0;
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // The agent authenticates with a personal access token owned by `tokenOwner`
+  const reply = (tokenOwner: string, body: string) => {
+    jest.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify({ login: tokenOwner })));
+    const payload = JSON.stringify({ ...issueCommentCreated, comment: { ...issueCommentCreated.comment, body } });
+
+    return request(createWebhookApp(new WebhookHandler(config)))
+      .post('/webhooks/github')
+      .set('Content-Type', 'application/json')
+      .set('X-GitHub-Event', 'issue_comment')
+      .set('X-GitHub-Delivery', `author-response-${++deliveries}`)
+      .set('X-Hub-Signature-256', computeSignature(payload, config.github.webhookSecret))
+      .send(payload);
+  };
+
+  it("re-triages the author's answer", async () => {
+    const response = await reply('triage-bot', issueCommentCreated.comment.body);
+
+    expect(response.body).toMatchObject({ processed: true });
+  });
+
+  it("ignores the agent's own comment when it posts as the issue author", async () => {
+    const response = await reply('octocat', '<!-- github-triage-agent:needs-info-reminder -->\nAny update?');
+
+    expect(response.body).toMatchObject({ processed: false });
+  });
+
+  it('treats a copied marker in the author\'s comment as an answer', async () => {
+    const response = await reply('triage-bot', '<!-- github-triage-agent:needs-info-reminder -->\nHere are the logs');
+
+    expect(response.body).toMatchObject({ processed: true });
+  });
+
+  it("re-triages the author's answer when the agent posts as the author", async () => {
+    const response = await reply('octocat', issueCommentCreated.comment.body);
+
+    expect(response.body).toMatchObject({ processed: true });
+  });
+});
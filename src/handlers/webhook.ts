@@ -1,18 +1,28 @@
-import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { config } from '../config/index.js';
 import { log, triageLog, generateCorrelationId } from '../utils/logger.js';
+import { verifyWebhookSignature } from '../utils/signature.js';
+import RepositoryRegistry from '../services/repositories.js';
+import WebhookDeduplicator from '../services/deduplicator.js';
+import TriageJobQueue from '../services/job-queue.js';
+import TriageScheduler from '../services/scheduler.js';
+import GitHubClient, { isAgentComment } from '../services/github.js';
+import { getCircuitBreakerSnapshots } from '../utils/circuit-breaker.js';
 import { 
   WebhookVerificationError, 
   WebhookPayloadError, 
   ValidationError 
 } from '../utils/errors.js';
-import type { GitHubWebhookPayload, GitHubIssue, TriageResult } from '../types/index.js';
+import type { AppConfig, GitHubWebhookPayload, GitHubIssue, TriageResult } from '../types/index.js';
+import type TriageOrchestrator from '../services/orchestrator.js';
 
 // GitHub webhook payload validation schema
 const webhookPayloadSchema = z.object({
-  action: z.enum(['opened', 'edited', 'closed', 'reopened', 'assigned', 'unassigned', 'labeled', 'unlabeled']),
+  action: z.enum([
+    'opened', 'edited', 'closed', 'reopened', 'assigned', 'unassigned', 'labeled', 'unlabeled',
+    // issue_comment actions
+    'created', 'deleted'
+  ]),
   issue: z.object({
     id: z.number(),
     number: z.number(),
@@ -27,6 +37,10 @@ const webhookPayloadSchema = z.object({
       login: z.string(),
       id: z.number()
     }).nullable().optional(),
+    assignees: z.array(z.object({
+      login: z.string(),
+      id: z.number()
+    })).optional(),
     labels: z.array(z.object({
       id: z.number(),
       name: z.string(),
@@ -35,8 +49,26 @@ const webhookPayloadSchema = z.object({
     created_at: z.string(),
     updated_at: z.string(),
     html_url: z.string(),
-    repository_url: z.string()
+    repository_url: z.string(),
+    comments: z.number().optional(),
+    pull_request: z.object({
+      url: z.string()
+    }).optional()
   }),
+  comment: z.object({
+    id: z.number(),
+    body: z.string(),
+    user: z.object({
+      login: z.string(),
+      id: z.number(),
+      type: z.string().optional()
+    }),
+    performed_via_github_app: z.object({
+      id: z.number(),
+      slug: z.string().optional()
+    }).nullable().optional(),
+    created_at: z.string()
+  }).optional(),
   repository: z.object({
     id: z.number(),
     name: z.string(),
@@ -49,39 +81,36 @@ const webhookPayloadSchema = z.object({
   }),
   sender: z.object({
     login: z.string(),
+    id: z.number(),
+    type: z.string().optional()
+  }),
+  label: z.object({
+    name: z.string(),
+    color: z.string().optional()
+  }).optional(),
+  installation: z.object({
     id: z.number()
-  })
+  }).optional()
 });
 
 export class WebhookHandler {
-  private readonly secret: string;
+  private readonly config: AppConfig;
+  private readonly repositories: RepositoryRegistry;
+  private readonly secrets: string[];
+  private readonly allowSha1: boolean;
+  private orchestrator: TriageOrchestrator | null = null;
+  private deduplicator: WebhookDeduplicator | null = null;
+  private queue: TriageJobQueue | null = null;
+  private scheduler: TriageScheduler | null = null;
+  private githubClient: GitHubClient | null = null;
+  private accepting = true;
 
-  constructor() {
-    this.secret = config.github.webhookSecret;
-  }
-
-  // Verify GitHub webhook signature
-  private verifySignature(payload: string, signature: string): boolean {
-    if (!signature) {
-      return false;
-    }
-
-    // GitHub sends signature in format: sha256=<signature>
-    if (!signature.startsWith('sha256=')) {
-      return false;
-    }
-
-    const receivedSignature = signature.slice(7); // Remove 'sha256=' prefix
-    const expectedSignature = crypto
-      .createHmac('sha256', this.secret)
-      .update(payload, 'utf8')
-      .digest('hex');
-
-    // Use timingSafeEqual to prevent timing attacks
-    return crypto.timingSafeEqual(
-      Buffer.from(receivedSignature, 'hex'),
-      Buffer.from(expectedSignature, 'hex')
-    );
+  constructor(config: AppConfig, repositories: RepositoryRegistry = new RepositoryRegistry(config)) {
+    this.config = config;
+    this.repositories = repositories;
+    // Current secret first, then any still accepted during a rotation window
+    this.secrets = [config.github.webhookSecret, ...config.github.previousWebhookSecrets];
+    this.allowSha1 = config.github.allowSha1Signatures;
   }
 
   // Validate webhook payload structure
@@ -99,44 +128,100 @@ export class WebhookHandler {
     }
   }
 
-  // Check if the webhook is for our target repository
+  // Check if the webhook is for one of the registered repositories
   private isTargetRepository(payload: GitHubWebhookPayload): boolean {
-    const { owner, name } = config.github.repo;
-    return (
-      payload.repository.owner.login === owner &&
-      payload.repository.name === name
-    );
+    return this.repositories.has(payload.repository.full_name);
   }
 
   // Check if the webhook action should trigger triage
-  private shouldTriggerTriage(payload: GitHubWebhookPayload): boolean {
+  private async shouldTriggerTriage(payload: GitHubWebhookPayload, correlationId: string): Promise<boolean> {
+    if (payload.issue.state !== 'open') {
+      return false;
+    }
+
+    // Comments only re-triage as the author's answer to a request for information
+    if (payload.comment) {
+      return this.isAuthorResponse(payload, correlationId);
+    }
+
     // Only triage when issues are opened or edited
     const triggerActions = ['opened', 'edited'];
-    return triggerActions.includes(payload.action) && payload.issue.state === 'open';
+    return triggerActions.includes(payload.action);
+  }
+
+  // A new comment by the issue's author while the issue waits for information. The
+  // agent's own comments are left out; it may be posting as the issue's author.
+  private async isAuthorResponse(payload: GitHubWebhookPayload, correlationId: string): Promise<boolean> {
+    const { enabled, label, retriageOnResponse } = this.config.needsInfo;
+
+    if (
+      !enabled ||
+      !retriageOnResponse ||
+      payload.action !== 'created' ||
+      payload.issue.pull_request ||
+      payload.comment?.user.login !== payload.issue.user.login ||
+      payload.comment.user.type === 'Bot' ||
+      !payload.issue.labels.some(issueLabel => issueLabel.name === label)
+    ) {
+      return false;
+    }
+
+    const identity = await this.getGitHubClient().getAgentIdentity(correlationId);
+    return !isAgentComment(payload.comment, identity);
   }
 
   // Express middleware for webhook signature verification
   public verifyWebhookMiddleware = (req: Request, res: Response, next: NextFunction): void => {
-    const correlationId = generateCorrelationId();
+    const correlationId = req.correlationId || generateCorrelationId();
     req.correlationId = correlationId;
 
     try {
-      const signature = req.get('X-Hub-Signature-256');
-      const payload = JSON.stringify(req.body);
+      const sha256 = req.get('X-Hub-Signature-256');
+      const sha1 = req.get('X-Hub-Signature');
 
-      if (!signature) {
+      if (!sha256 && !(sha1 && this.allowSha1)) {
         throw new WebhookVerificationError('Missing signature header');
       }
 
-      if (!this.verifySignature(payload, signature)) {
+      // Signatures are computed over the exact bytes GitHub sent
+      if (!req.rawBody) {
+        log.error('Raw request body unavailable for signature verification', {
+          correlationId,
+          component: 'webhook-handler'
+        });
+        throw new WebhookVerificationError('Unable to verify signature without raw request body');
+      }
+
+      const result = verifyWebhookSignature(req.rawBody, { sha256, sha1 }, this.secrets, {
+        allowSha1: this.allowSha1
+      });
+
+      if (!result.valid) {
+        const signature = (result.algorithm === 'sha1' ? sha1 : sha256) || '';
         log.warn('Webhook signature verification failed', {
           correlationId,
+          algorithm: result.algorithm,
           signature: signature.slice(0, 16) + '...',
           component: 'webhook-handler'
         });
         throw new WebhookVerificationError();
       }
 
+      if (result.secretIndex && result.secretIndex > 0) {
+        log.warn('Webhook verified with a previous secret, complete the secret rotation', {
+          correlationId,
+          secretIndex: result.secretIndex,
+          component: 'webhook-handler'
+        });
+      }
+
+      if (result.algorithm === 'sha1') {
+        log.debug('Webhook verified with legacy sha1 signature', {
+          correlationId,
+          component: 'webhook-handler'
+        });
+      }
+
       log.debug('Webhook signature verified successfully', {
         correlationId,
         component: 'webhook-handler'
@@ -162,8 +247,20 @@ export class WebhookHandler {
   // Main webhook handler
   public handleWebhook = async (req: Request, res: Response): Promise<void> => {
     const correlationId = req.correlationId || generateCorrelationId();
+    // Set from claiming the delivery until its job is persisted
+    let claimedDelivery: string | undefined;
     
     try {
+      // Refuse new work once shutdown has started so GitHub redelivers it later
+      if (!this.accepting) {
+        res.status(503).json({
+          error: 'Service Unavailable',
+          message: 'Server is shutting down',
+          correlationId
+        });
+        return;
+      }
+
       // Validate payload structure
       const payload = this.validatePayload(req.body);
       
@@ -173,12 +270,11 @@ export class WebhookHandler {
         correlationId
       );
 
-      // Check if this is for our target repository
+      // Check if this is for one of our registered repositories
       if (!this.isTargetRepository(payload)) {
-        log.debug('Webhook received for different repository, ignoring', {
+        log.debug('Webhook received for unregistered repository, ignoring', {
           correlationId,
           repository: payload.repository.full_name,
-          targetRepository: `${config.github.repo.owner}/${config.github.repo.name}`,
           component: 'webhook-handler'
         });
         
@@ -189,8 +285,21 @@ export class WebhookHandler {
         return;
       }
 
+      // Label changes are potential maintainer corrections, never a triage trigger
+      if (payload.action === 'labeled' || payload.action === 'unlabeled') {
+        const orchestrator = await this.getOrchestrator();
+        const feedback = await orchestrator.recordCorrection(payload, correlationId);
+
+        res.status(200).json({
+          message: feedback ? 'Label correction recorded' : 'Webhook received but label change needs no action',
+          processed: false,
+          feedbackRecorded: Boolean(feedback)
+        });
+        return;
+      }
+
       // Check if we should trigger triage for this action
-      if (!this.shouldTriggerTriage(payload)) {
+      if (!(await this.shouldTriggerTriage(payload, correlationId))) {
         log.debug('Webhook action does not trigger triage', {
           correlationId,
           action: payload.action,
@@ -206,36 +315,72 @@ export class WebhookHandler {
         return;
       }
 
-      // Process the issue triage asynchronously
-      // We respond immediately to GitHub and process in background
+      // Skip redelivered webhooks and edits that leave the issue content unchanged. An
+      // author's reply leaves the issue itself unchanged, so it is always re-triaged.
+      const deduplicator = this.getDeduplicator();
+      const deliveryId = req.get('x-github-delivery');
+      const claimed = await deduplicator.claimDelivery(deliveryId, correlationId);
+      if (claimed) {
+        claimedDelivery = deliveryId;
+      }
+
+      if (
+        !claimed ||
+        (!payload.comment && await deduplicator.isUnchanged(payload.repository.full_name, payload.issue, correlationId))
+      ) {
+        res.status(200).json({
+          message: 'Webhook received but issue was already triaged',
+          processed: false,
+          duplicate: true
+        });
+        return;
+      }
+
+      // Once a maintainer has corrected the labels, edits and replies must not re-apply
+      // the agent's choice; an author's response still clears needs-info
+      if (
+        (payload.action === 'edited' || payload.comment) &&
+        await deduplicator.hasMaintainerCorrection(payload.repository.full_name, payload.issue.number, correlationId)
+      ) {
+        const orchestrator = await this.getOrchestrator();
+        const needsInfoCleared = await orchestrator.clearNeedsInfo(payload, correlationId);
+
+        res.status(200).json({
+          message: 'Webhook received but issue labels were corrected by a maintainer',
+          processed: false,
+          needsInfoCleared
+        });
+        return;
+      }
+
+      // Persist the job before acknowledging so a crash can't lose it; the queue
+      // worker picks it up in the background
+      const job = await this.getQueue().enqueue(payload, correlationId, deliveryId);
+      claimedDelivery = undefined;
+
       res.status(200).json({ 
         message: 'Webhook received and processing started',
         processed: true,
+        jobId: job.id,
         correlationId 
       });
 
-      // Process the issue triage in background (import will be added dynamically)
-      setImmediate(async () => {
-        try {
-          // Dynamic import to avoid circular dependency
-          const { default: TriageOrchestrator } = await import('../services/orchestrator.js');
-          const orchestrator = new TriageOrchestrator();
-          await orchestrator.triageIssue(payload, correlationId);
-        } catch (error) {
-          log.error('Background triage processing failed', { correlationId }, error as Error);
-        }
-      });
-
       log.info('Webhook processing initiated', {
         correlationId,
         issueNumber: payload.issue.number,
         action: payload.action,
+        jobId: job.id,
         component: 'webhook-handler'
       });
 
     } catch (error) {
       log.error('Webhook processing failed', { correlationId }, error as Error);
 
+      // The delivery wasn't handled, so GitHub's redelivery of it must not be dropped
+      if (claimedDelivery) {
+        await this.getDeduplicator().releaseDelivery(claimedDelivery, correlationId);
+      }
+
       if (error instanceof WebhookPayloadError || error instanceof ValidationError) {
         res.status(error.statusCode).json({
           error: error.name,
@@ -254,13 +399,100 @@ export class WebhookHandler {
 
   // Health check endpoint for webhook
   public healthCheck = (_req: Request, res: Response): void => {
-    res.status(200).json({
-      status: 'healthy',
+    res.status(this.accepting ? 200 : 503).json({
+      status: this.accepting ? 'healthy' : 'draining',
       timestamp: new Date().toISOString(),
-      service: 'github-webhook-handler'
+      service: 'github-webhook-handler',
+      queue: this.getQueue().stats(),
+      scheduler: this.scheduler?.status(),
+      circuitBreakers: getCircuitBreakerSnapshots()
     });
   };
 
+  // Share one orchestrator across deliveries so cached credentials are reused
+  private async getOrchestrator(): Promise<TriageOrchestrator> {
+    if (!this.orchestrator) {
+      // Dynamic import to avoid circular dependency
+      const { default: TriageOrchestrator } = await import('../services/orchestrator.js');
+      this.orchestrator = new TriageOrchestrator(this.config, { repositories: this.repositories });
+    }
+    return this.orchestrator;
+  }
+
+  private getGitHubClient(): GitHubClient {
+    if (!this.githubClient) {
+      this.githubClient = new GitHubClient(this.config, this.repositories);
+    }
+    return this.githubClient;
+  }
+
+  private getDeduplicator(): WebhookDeduplicator {
+    if (!this.deduplicator) {
+      this.deduplicator = new WebhookDeduplicator(this.config);
+    }
+    return this.deduplicator;
+  }
+
+  public getQueue(): TriageJobQueue {
+    if (!this.queue) {
+      this.queue = new TriageJobQueue(this.config, { orchestrator: () => this.getOrchestrator() });
+    }
+    return this.queue;
+  }
+
+  // Start the job worker, resuming jobs persisted by a previous run, then sync
+  // repository labels and start the scheduled sweeps if configured
+  public async start(): Promise<void> {
+    await this.getQueue().start();
+
+    if (this.config.labelSync.onStartup) {
+      await this.syncLabels();
+    }
+
+    if (this.config.scheduler.enabled) {
+      this.scheduler = new TriageScheduler(this.config, {
+        githubClient: this.getGitHubClient(),
+        repositories: this.repositories,
+        queue: this.getQueue()
+      });
+      this.scheduler.start();
+    }
+  }
+
+  // A failed sync is logged and triage continues; GitHub creates missing labels on use
+  private async syncLabels(): Promise<void> {
+    const correlationId = generateCorrelationId();
+    const orchestrator = await this.getOrchestrator();
+
+    for (const repo of this.repositories.list()) {
+      try {
+        const report = await orchestrator.syncLabels(repo.fullName, {}, correlationId);
+        if (report.failed.length > 0) {
+          log.warn('Some repository labels could not be synchronized', {
+            correlationId,
+            repository: repo.fullName,
+            failed: report.failed,
+            component: 'webhook-handler'
+          });
+        }
+      } catch (error) {
+        log.warn('Failed to synchronize repository labels', {
+          correlationId,
+          repository: repo.fullName,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          component: 'webhook-handler'
+        });
+      }
+    }
+  }
+
+  // Stop accepting webhooks and wait for running triage jobs to settle
+  public async drain(timeoutMs: number): Promise<{ completed: boolean; pending: number }> {
+    this.accepting = false;
+    await this.scheduler?.stop();
+    return this.getQueue().drain(timeoutMs);
+  }
+
   // Utility method to extract issue context for triage
   public extractTriageContext(payload: GitHubWebhookPayload) {
     return {
@@ -293,6 +525,7 @@ declare global {
   namespace Express {
     interface Request {
       correlationId?: string;
+      rawBody?: Buffer;
     }
   }
 }
@@ -1,24 +1,85 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { config } from './config/index.js';
+import { parseConfig } from './config/index.js';
 import { log, generateCorrelationId } from './utils/logger.js';
+import { ConfigurationError } from './utils/errors.js';
 import TriageOrchestrator from './services/orchestrator.js';
-import type { GitHubWebhookPayload } from './types/index.js';
+import TriageJobQueue from './services/job-queue.js';
+import RepositoryRegistry from './services/repositories.js';
+import CommentRenderer from './services/comment-templates.js';
+import type { AppConfig, GitHubWebhookPayload } from './types/index.js';
 
 // MCP Server configuration schema (matches smithery.yaml)
 export const configSchema = z.object({
   debug: z.boolean().default(false).describe("Enable debug logging"),
-  githubToken: z.string().describe("GitHub Personal Access Token with repo scope"),
+  githubToken: z.string().optional().describe("GitHub personal access token with repo scope (not needed with GitHub App credentials)"),
+  githubAppId: z.string().optional().describe("GitHub App ID, to authenticate as an app installation instead of a token"),
+  githubAppPrivateKey: z.string().optional().describe("GitHub App private key (PEM)"),
+  githubAppInstallationId: z.number().optional().describe("Default GitHub App installation ID"),
   githubWebhookSecret: z.string().describe("GitHub webhook secret for verification"),
-  openaiApiKey: z.string().describe("OpenAI API key for issue classification"),
+  openaiApiKey: z.string().optional().describe("API key for the classification provider (optional for local OpenAI-compatible servers)"),
   githubRepoOwner: z.string().describe("GitHub repository owner username"),
   githubRepoName: z.string().describe("GitHub repository name"),
-  openaiModel: z.string().default("gpt-4o").describe("OpenAI model to use for classification"),
+  openaiModel: z.string().default("gpt-4o").describe("Model to use for classification"),
+  llmProvider: z.enum(["openai", "openai-compatible", "anthropic", "azure-openai"]).default("openai").describe("LLM provider used for classification"),
+  llmBaseUrl: z.string().optional().describe("API base URL (required for openai-compatible and azure-openai)"),
+  llmApiVersion: z.string().optional().describe("API version (Azure api-version or anthropic-version)"),
+  llmDeployment: z.string().optional().describe("Azure OpenAI deployment name"),
   confidenceThreshold: z.number().default(0.75).describe("Minimum confidence score for auto-labeling (0.0-1.0)"),
   autoComment: z.boolean().default(true).describe("Enable automatic triage comments on issues"),
   triageLabels: z.string().default("bug,feature-request,documentation,question,enhancement").describe("Comma-separated list of available classification labels"),
+  rulesMode: z.enum(["off", "fallback", "prefilter", "only"]).default("fallback").describe("How the offline rule-based classifier is used alongside the LLM"),
+  repositories: z.string().optional().describe("JSON array of additional repositories to triage, with optional per-repository overrides"),
 });
 
+// Parse the JSON-encoded repositories option
+function parseRepositoriesOption(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new ConfigurationError('repositories must be a valid JSON array');
+  }
+}
+
+// Translate the Smithery session config into the application config shape
+export function toAppConfig(mcpConfig: z.infer<typeof configSchema>): AppConfig {
+  return parseConfig({
+    github: {
+      token: mcpConfig.githubToken || undefined,
+      app: mcpConfig.githubAppId ? {
+        appId: mcpConfig.githubAppId,
+        privateKey: mcpConfig.githubAppPrivateKey ?? '',
+        installationId: mcpConfig.githubAppInstallationId
+      } : undefined,
+      webhookSecret: mcpConfig.githubWebhookSecret,
+      repo: {
+        owner: mcpConfig.githubRepoOwner,
+        name: mcpConfig.githubRepoName
+      }
+    },
+    openai: {
+      provider: mcpConfig.llmProvider,
+      apiKey: mcpConfig.openaiApiKey || undefined,
+      model: mcpConfig.openaiModel,
+      baseUrl: mcpConfig.llmBaseUrl || undefined,
+      apiVersion: mcpConfig.llmApiVersion || undefined,
+      deployment: mcpConfig.llmDeployment || undefined
+    },
+    triage: {
+      labels: mcpConfig.triageLabels.split(',').map(label => label.trim()).filter(Boolean),
+      confidenceThreshold: mcpConfig.confidenceThreshold,
+      autoComment: mcpConfig.autoComment,
+      rules: {
+        mode: mcpConfig.rulesMode
+      }
+    },
+    repositories: mcpConfig.repositories ? parseRepositoriesOption(mcpConfig.repositories) : undefined,
+    server: {
+      logLevel: mcpConfig.debug ? 'debug' : undefined
+    }
+  });
+}
+
 export default function createStatelessServer({
   config: mcpConfig,
 }: {
@@ -30,15 +91,46 @@ export default function createStatelessServer({
   });
 
   // Lazy initialization of services - only when configuration is available
+  let appConfig: AppConfig | null = null;
+  let repositories: RepositoryRegistry | null = null;
+  let jobQueue: TriageJobQueue | null = null;
   let orchestrator: TriageOrchestrator | null = null;
+
+  const getConfig = () => {
+    if (!appConfig) {
+      appConfig = toAppConfig(mcpConfig);
+    }
+    return appConfig;
+  };
+
+  const getRepositories = () => {
+    if (!repositories) {
+      repositories = new RepositoryRegistry(getConfig());
+    }
+    return repositories;
+  };
+
+  // Resolve an optional "owner/name" tool argument against the registry
+  const resolveRepository = (repository?: string) => {
+    return repository ? getRepositories().get(repository) : getRepositories().getDefault();
+  };
   
   const getOrchestrator = () => {
     if (!orchestrator) {
-      orchestrator = new TriageOrchestrator();
+      orchestrator = new TriageOrchestrator(getConfig(), { repositories: getRepositories() });
     }
     return orchestrator;
   };
 
+  // Not started here: the webhook server runs the worker, this process only inspects
+  // and replays jobs
+  const getJobQueue = () => {
+    if (!jobQueue) {
+      jobQueue = new TriageJobQueue(getConfig(), { orchestrator: async () => getOrchestrator() });
+    }
+    return jobQueue;
+  };
+
   // MCP Tools for manual operations
   server.tool(
     "triage_issue",
@@ -48,11 +140,14 @@ export default function createStatelessServer({
       title: z.string().describe("Issue title"),
       body: z.string().describe("Issue body"),
       author: z.string().describe("Issue author"),
+      repository: z.string().optional().describe("Repository as owner/name (defaults to the configured repository)"),
     },
-    async ({ issueNumber, title, body, author }) => {
+    async ({ issueNumber, title, body, author, repository }) => {
       const correlationId = generateCorrelationId();
       
       try {
+        const repo = resolveRepository(repository);
+
         // Create mock payload for manual triage
         const mockPayload: GitHubWebhookPayload = {
           action: 'opened',
@@ -66,15 +161,15 @@ export default function createStatelessServer({
             labels: [],
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
-            html_url: `https://github.com/${config.github.repo.owner}/${config.github.repo.name}/issues/${issueNumber}`,
-            repository_url: `https://api.github.com/repos/${config.github.repo.owner}/${config.github.repo.name}`
+            html_url: `https://github.com/${repo.fullName}/issues/${issueNumber}`,
+            repository_url: `https://api.github.com/repos/${repo.fullName}`
           },
           repository: {
             id: 1,
-            name: config.github.repo.name,
-            full_name: `${config.github.repo.owner}/${config.github.repo.name}`,
-            owner: { login: config.github.repo.owner, id: 1 },
-            html_url: `https://github.com/${config.github.repo.owner}/${config.github.repo.name}`
+            name: repo.name,
+            full_name: repo.fullName,
+            owner: { login: repo.owner, id: 1 },
+            html_url: `https://github.com/${repo.fullName}`
           },
           sender: { login: author, id: 1 }
         };
@@ -87,9 +182,12 @@ export default function createStatelessServer({
               type: "text",
               text: JSON.stringify({
                 success: result.success,
+                outcome: result.outcome,
                 classification: result.classification,
                 labelsApplied: result.labelsApplied,
                 commentPosted: result.commentPosted,
+                reviewId: result.reviewId,
+                error: result.error,
                 correlationId
               }, null, 2)
             }
@@ -126,6 +224,7 @@ export default function createStatelessServer({
                 timestamp: new Date().toISOString(),
                 overall: health.overall,
                 services: health.services,
+                circuitBreakers: health.circuitBreakers,
                 correlationId
               }, null, 2)
             }
@@ -144,11 +243,402 @@ export default function createStatelessServer({
     }
   );
 
+  server.tool(
+    "get_triage_history",
+    "Query recorded triage attempts (classification, labels, model, duration, errors)",
+    {
+      repository: z.string().optional().describe("Only show attempts for this repository (owner/name)"),
+      issueNumber: z.number().optional().describe("Only show attempts for this issue"),
+      outcome: z.enum(["labeled", "needs-review", "failed"]).optional().describe("Only show attempts with this outcome"),
+      since: z.string().optional().describe("Only show attempts at or after this ISO timestamp"),
+      limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of records"),
+    },
+    async ({ repository, issueNumber, outcome, since, limit }) => {
+      try {
+        const records = await getOrchestrator().getTriageHistory({ repository, issueNumber, outcome, since, limit });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ count: records.length, records }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_review_queue",
+    "List low-confidence classifications waiting for a maintainer to review",
+    {
+      repository: z.string().optional().describe("Only show suggestions for this repository (owner/name)"),
+      status: z.enum(["pending", "approved", "rejected", "superseded"]).default("pending").describe("Suggestion status to list"),
+    },
+    async ({ repository, status }) => {
+      try {
+        const items = await getOrchestrator().listReviewItems({ repository, status });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ count: items.length, items }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "approve_suggestion",
+    "Approve a queued suggestion, applying its labels (or the given override) and removing the review label",
+    {
+      id: z.string().describe("Review item ID"),
+      labels: z.array(z.string()).optional().describe("Labels to apply instead of the suggested ones"),
+      reviewer: z.string().optional().describe("Who approved the suggestion"),
+    },
+    async ({ id, labels, reviewer }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const item = await getOrchestrator().approveSuggestion(id, correlationId, { labels, reviewer });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, item, correlationId }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "reject_suggestion",
+    "Reject a queued suggestion without applying its labels",
+    {
+      id: z.string().describe("Review item ID"),
+      reviewer: z.string().optional().describe("Who rejected the suggestion"),
+      note: z.string().optional().describe("Why the suggestion was rejected"),
+      clearReviewLabel: z.boolean().default(false).describe("Also remove the review label from the issue"),
+    },
+    async ({ id, reviewer, note, clearReviewLabel }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const item = await getOrchestrator().rejectSuggestion(id, correlationId, { reviewer, note, clearReviewLabel });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: true, item, correlationId }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_triage_jobs",
+    "List background triage jobs, by default the dead-letter list of jobs that exhausted their retries",
+    {
+      status: z.enum(["pending", "running", "completed", "dead"]).default("dead").describe("Job status to list"),
+      repository: z.string().optional().describe("Only show jobs for this repository (owner/name)"),
+      limit: z.number().int().min(1).max(500).default(50).describe("Maximum number of jobs to return"),
+    },
+    async ({ status, repository, limit }) => {
+      try {
+        const jobs = await getJobQueue().listJobs({ status, repository, limit });
+
+        // Payloads are large; summarise the issue instead
+        const summaries = jobs.map(({ payload, ...job }) => ({ ...job, issueTitle: payload.issue.title }));
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ count: summaries.length, jobs: summaries }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "replay_triage_job",
+    "Re-run a dead-lettered triage job with a fresh retry budget",
+    {
+      id: z.number().int().describe("Triage job ID"),
+    },
+    async ({ id }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const { payload, ...job } = await getJobQueue().replay(id, correlationId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: job.status === 'completed',
+                job: { ...job, issueTitle: payload.issue.title },
+                correlationId
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "list_scheduler_runs",
+    "List recent runs of the scheduled sweeps for untriaged and stale needs-info issues",
+    {
+      task: z.enum(["untriaged", "stale-needs-info"]).optional().describe("Only show runs of this sweep"),
+      limit: z.number().int().min(1).max(500).default(20).describe("Maximum number of runs to return"),
+    },
+    async ({ task, limit }) => {
+      try {
+        const runs = await getOrchestrator().getSchedulerRuns({ task, limit });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ count: runs.length, runs }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "sync_labels",
+    "Create configured labels missing from a repository and report (or update) labels whose color or description differ",
+    {
+      repository: z.string().optional().describe("Repository as owner/name (defaults to the configured repository)"),
+      dryRun: z.boolean().default(false).describe("Report the changes without making them"),
+      updateExisting: z.boolean().optional().describe("Update drifted labels (defaults to the labelSync.updateExisting setting)"),
+    },
+    async ({ repository, dryRun, updateExisting }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const repo = resolveRepository(repository);
+        const report = await getOrchestrator().syncLabels(repo.fullName, { dryRun, updateExisting }, correlationId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                success: report.failed.length === 0,
+                ...report,
+                correlationId
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "backfill_triage",
+    "Triage existing issues, oldest first, e.g. those opened before the agent was installed; resumes from the last run's checkpoint",
+    {
+      repository: z.string().optional().describe("Repository as owner/name (defaults to the configured repository)"),
+      state: z.enum(["open", "closed", "all"]).default("open").describe("Issue state to include"),
+      since: z.string().optional().describe("Only issues created at or after this ISO 8601 date"),
+      until: z.string().optional().describe("Only issues created at or before this ISO 8601 date"),
+      onlyUnlabeled: z.boolean().default(true).describe("Skip issues that already have a label"),
+      dryRun: z.boolean().default(false).describe("List the issues that would be triaged without triaging them"),
+      limit: z.number().int().min(1).optional().describe("Most issues to triage in this run"),
+      resume: z.boolean().default(true).describe("Continue from the checkpoint of a previous run with the same filters"),
+    },
+    async ({ repository, ...options }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const repo = resolveRepository(repository);
+        const report = await getOrchestrator().backfillTriage(repo.fullName, options, correlationId);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({ success: report.failed === 0, ...report, correlationId }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
+  server.tool(
+    "preview_comment",
+    "Render the triage comment a classification would produce in a repository, without posting it",
+    {
+      repository: z.string().optional().describe("Repository as owner/name (defaults to the configured repository)"),
+      kind: z.enum(["triage", "suggestion"]).default("triage").describe("Comment for a confidently labeled issue, or a suggestion sent to review"),
+      primaryLabel: z.string().describe("Classified label"),
+      confidence: z.number().min(0).max(1).describe("Classification confidence (0.0-1.0)"),
+      reasoning: z.string().default("").describe("Classification reasoning"),
+      severity: z.enum(["critical", "high", "medium", "low"]).optional().describe("Bug severity"),
+      area: z.object({
+        name: z.string(),
+        confidence: z.number().min(0).max(1)
+      }).optional().describe("Classified area"),
+      additionalLabels: z.array(z.string()).optional().describe("Additional suggested labels"),
+      missingInfo: z.array(z.string()).optional().describe("Required information the issue doesn't provide"),
+      issueNumber: z.number().int().optional().describe("Issue number available to templates"),
+    },
+    async ({ repository, kind, issueNumber, ...classification }) => {
+      const correlationId = generateCorrelationId();
+
+      try {
+        const repo = resolveRepository(repository);
+        const comment = new CommentRenderer(getConfig()).render(repo, classification, { kind, issueNumber });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify({
+                repository: repo.fullName,
+                kind,
+                locale: repo.commentLocale,
+                comment,
+                correlationId
+              }, null, 2)
+            }
+          ]
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+    }
+  );
+
   server.tool(
     "get_config",
     "Get current triage configuration",
     {},
     async () => {
+      let config: AppConfig;
+
+      try {
+        config = getConfig();
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`
+            }
+          ]
+        };
+      }
+
       return {
         content: [
           {
@@ -162,7 +652,8 @@ export default function createStatelessServer({
               },
               github: {
                 repo: config.github.repo
-              }
+              },
+              repositories: getRepositories().list()
             }, null, 2)
           }
         ]
@@ -176,18 +667,21 @@ export default function createStatelessServer({
     {
       title: z.string().describe("Issue title"),
       body: z.string().describe("Issue description/body"),
-      issueType: z.enum(["bug", "feature", "documentation", "question"]).optional().describe("Expected issue type for validation")
+      issueType: z.enum(["bug", "feature", "documentation", "question"]).optional().describe("Expected issue type for validation"),
+      repository: z.string().optional().describe("Repository as owner/name (defaults to the configured repository)")
     },
-    async ({ title, body, issueType }) => {
+    async ({ title, body, issueType, repository }) => {
       const correlationId = generateCorrelationId();
       
       try {
+        const repo = resolveRepository(repository);
+
         // Import GitHub client dynamically
         const { default: GitHubClient } = await import('./services/github.js');
-        const githubClient = new GitHubClient();
+        const githubClient = new GitHubClient(getConfig(), getRepositories());
         
         // Create the GitHub issue
-        const createdIssue = await githubClient.createIssue(title, body, correlationId);
+        const createdIssue = await githubClient.createIssue(repo.fullName, title, body, correlationId);
         
         // Create mock payload for triage
         const mockPayload: GitHubWebhookPayload = {
@@ -203,14 +697,14 @@ export default function createStatelessServer({
             created_at: new Date().toISOString(),
             updated_at: new Date().toISOString(),
             html_url: createdIssue.html_url,
-            repository_url: `https://api.github.com/repos/${config.github.repo.owner}/${config.github.repo.name}`
+            repository_url: `https://api.github.com/repos/${repo.fullName}`
           },
           repository: {
             id: 1,
-            name: config.github.repo.name,
-            full_name: `${config.github.repo.owner}/${config.github.repo.name}`,
-            owner: { login: config.github.repo.owner, id: 1 },
-            html_url: `https://github.com/${config.github.repo.owner}/${config.github.repo.name}`
+            name: repo.name,
+            full_name: repo.fullName,
+            owner: { login: repo.owner, id: 1 },
+            html_url: `https://github.com/${repo.fullName}`
           },
           sender: { login: 'api-user', id: 1 }
         };
@@ -220,6 +714,7 @@ export default function createStatelessServer({
 
         const result = {
           success: true,
+          repository: repo.fullName,
           issueCreated: {
             number: createdIssue.number,
             url: createdIssue.html_url,
@@ -258,7 +753,7 @@ export default function createStatelessServer({
 
   // Log server startup
   log.info('GitHub Auto-Triage MCP Server initialized', {
-    repository: `${config.github.repo.owner}/${config.github.repo.name}`,
+    repository: `${mcpConfig.githubRepoOwner}/${mcpConfig.githubRepoName}`,
     component: 'mcp-server'
   });
 
@@ -0,0 +1,161 @@
+import http from 'http';
+import { pathToFileURL } from 'url';
+import express, { Request, Response, NextFunction } from 'express';
+import helmet from 'helmet';
+import cors from 'cors';
+import { loadConfigFromEnv } from './config/index.js';
+import { log, requestLogger, generateCorrelationId, configureLogger } from './utils/logger.js';
+import { createErrorResponse, ConfigurationError } from './utils/errors.js';
+import WebhookHandler from './handlers/webhook.js';
+import { closeTriageStores } from './storage/index.js';
+import type { AppConfig } from './types/index.js';
+
+// Maximum webhook payload size accepted (GitHub caps deliveries at 25MB)
+const MAX_PAYLOAD_SIZE = '25mb';
+
+// Attach a correlation ID and log request/response timing
+function requestLoggingMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const correlationId = req.correlationId || generateCorrelationId();
+  req.correlationId = correlationId;
+
+  const startTime = Date.now();
+  requestLogger.logRequest(req.method, req.originalUrl, correlationId);
+
+  res.on('finish', () => {
+    requestLogger.logResponse(
+      req.method,
+      req.originalUrl,
+      res.statusCode,
+      Date.now() - startTime,
+      correlationId
+    );
+  });
+
+  next();
+}
+
+// Build the Express application that serves GitHub webhooks
+export function createWebhookApp(handler: WebhookHandler): express.Express {
+  const app = express();
+
+  app.disable('x-powered-by');
+  app.use(helmet());
+  app.use(cors());
+  app.use(requestLoggingMiddleware);
+
+  // Keep the exact bytes GitHub sent so signatures can be verified against them
+  app.use(express.json({
+    limit: MAX_PAYLOAD_SIZE,
+    verify: (req, _res, buf) => {
+      (req as Request).rawBody = buf;
+    }
+  }));
+
+  app.get('/healthz', handler.healthCheck);
+  app.post('/webhooks/github', handler.verifyWebhookMiddleware, handler.handleWebhook);
+
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `No route for ${req.method} ${req.path}`
+    });
+  });
+
+  // Final error handler (e.g. malformed JSON rejected by the body parser)
+  app.use((error: Error & { status?: number }, req: Request, res: Response, _next: NextFunction) => {
+    const correlationId = req.correlationId || generateCorrelationId();
+
+    if (error.status && error.status >= 400 && error.status < 500) {
+      res.status(error.status).json({
+        error: 'Bad Request',
+        message: error.message,
+        correlationId
+      });
+      return;
+    }
+
+    log.error('Unhandled HTTP server error', { correlationId, component: 'http-server' }, error);
+    const { statusCode, body } = createErrorResponse(error);
+    res.status(statusCode).json({ ...body, correlationId });
+  });
+
+  return app;
+}
+
+// Start the webhook server and wire up graceful shutdown
+export function startWebhookServer(config: AppConfig, port: number = config.server.port): Promise<http.Server> {
+  const handler = new WebhookHandler(config);
+  const app = createWebhookApp(handler);
+  const server = http.createServer(app);
+  let shuttingDown = false;
+
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) {
+      return;
+    }
+    shuttingDown = true;
+
+    log.info('Shutting down webhook server', { signal, component: 'http-server' });
+
+    // Stop accepting connections, then wait for background triages to finish
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    const { completed, pending } = await handler.drain(config.server.shutdownTimeoutMs);
+
+    if (!completed) {
+      log.warn('Shutdown timeout reached with triage jobs still running', {
+        pending,
+        timeoutMs: config.server.shutdownTimeoutMs,
+        component: 'http-server'
+      });
+    }
+
+    server.closeIdleConnections();
+    await closed;
+    await closeTriageStores();
+
+    log.info('Webhook server stopped', { component: 'http-server' });
+    process.exit(completed ? 0 : 1);
+  };
+
+  process.once('SIGTERM', () => void shutdown('SIGTERM'));
+  process.once('SIGINT', () => void shutdown('SIGINT'));
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.once('listening', () => {
+      handler.start().catch((error) => {
+        log.error('Failed to start triage job queue', { component: 'http-server' }, error);
+      });
+    });
+    server.listen(port, () => {
+      log.info('Webhook server listening', {
+        port,
+        repositories: [config.github.repo, ...config.repositories].map(repo => `${repo.owner}/${repo.name}`),
+        component: 'http-server'
+      });
+      resolve(server);
+    });
+  });
+}
+
+// Allow running directly: `node dist/server.js`
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  let config: AppConfig;
+
+  try {
+    config = loadConfigFromEnv();
+  } catch (error) {
+    if (error instanceof ConfigurationError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  configureLogger(config.server);
+
+  startWebhookServer(config).catch((error) => {
+    log.error('Failed to start webhook server', { component: 'http-server' }, error as Error);
+    process.exit(1);
+  });
+}
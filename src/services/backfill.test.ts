@@ -0,0 +1,153 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import TriageBackfill, { type BackfillOptions } from './backfill.js';
+import RepositoryRegistry from './repositories.js';
+import { InMemoryTriageStore } from '../storage/index.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type GitHubClient from './github.js';
+import type { GitHubIssue, GitHubWebhookPayload, TriageResult } from '../types/index.js';
+
+const REPOSITORY = 'octo-org/octo-repo';
+const FILTER_KEY = 'open|||unlabeled';
+const PAGE_SIZE = 100;
+
+const options: BackfillOptions = { state: 'open', onlyUnlabeled: true, dryRun: false, resume: true };
+
+const createIssue = (number: number) => ({
+  number,
+  title: `Issue ${number}`,
+  body: '',
+  user: { login: 'octocat' },
+  labels: [],
+  state: 'open',
+  created_at: new Date(Date.UTC(2025, 0, 1) + number * 60_000).toISOString()
+}) as unknown as GitHubIssue;
+
+const createPullRequest = (number: number) => ({ ...createIssue(number), pull_request: {} }) as GitHubIssue;
+
+const range = (from: number, to: number, create = createIssue) =>
+  Array.from({ length: to - from + 1 }, (_, i) => create(from + i));
+
+// Backfill over the given open issues and pull requests, oldest first; `result`
+// decides each triage
+function createBackfill(
+  issues: GitHubIssue[],
+  result: (issueNumber: number) => TriageResult = () => ({ success: true, outcome: 'labeled' })
+) {
+  const config = createTestConfig();
+  const store = new InMemoryTriageStore();
+  const githubClient = {
+    listIssuePage: jest.fn(async (_repository: string, listOptions: { page?: number }) => {
+      const start = ((listOptions.page ?? 1) - 1) * PAGE_SIZE;
+      const page = issues.slice(start, start + PAGE_SIZE);
+      return { issues: page.filter(issue => !('pull_request' in issue)), hasMore: page.length === PAGE_SIZE };
+    }),
+    getRateLimitStatus: jest.fn(async () => ({ remaining: 5000, reset: 0 }))
+  };
+  const triage = jest.fn(async (payload: GitHubWebhookPayload, _correlationId: string) => result(payload.issue!.number));
+  const backfill = new TriageBackfill(config, {
+    githubClient: githubClient as unknown as GitHubClient,
+    repositories: new RepositoryRegistry(config),
+    store,
+    triage
+  });
+
+  const listedPages = () => githubClient.listIssuePage.mock.calls.map(([, listOptions]) => listOptions.page);
+  const triaged = () => triage.mock.calls.map(([payload]) => payload.issue!.number);
+  return { backfill, store, listedPages, triaged };
+}
+
+const saveCheckpoint = (store: InMemoryTriageStore, lastIssueNumber: number, page: number) =>
+  store.saveBackfillCheckpoint({
+    repository: REPOSITORY,
+    filterKey: FILTER_KEY,
+    lastIssueNumber,
+    page,
+    triaged: lastIssueNumber,
+    updatedAt: new Date().toISOString()
+  });
+
+describe('TriageBackfill', () => {
+  it('triages every page and clears the checkpoint once finished', async () => {
+    const { backfill, store, listedPages, triaged } = createBackfill(range(1, 250));
+    await saveCheckpoint(store, 0, 1);
+
+    const report = await backfill.run(REPOSITORY, options, 'test');
+
+    expect(report).toMatchObject({ completed: true, triaged: 250, failed: 0 });
+    expect(triaged()).toHaveLength(250);
+    expect(listedPages()).toEqual([1, 2, 3]);
+    expect(await store.getBackfillCheckpoint(REPOSITORY, FILTER_KEY)).toBeUndefined();
+  });
+
+  it('reads past a page of only pull requests', async () => {
+    const { backfill, listedPages, triaged } = createBackfill([
+      ...range(1, 100),
+      ...range(101, 200, createPullRequest),
+      ...range(201, 250)
+    ]);
+
+    const report = await backfill.run(REPOSITORY, options, 'test');
+
+    expect(report).toMatchObject({ completed: true, triaged: 150 });
+    expect(triaged()).toContain(250);
+    expect(listedPages()).toEqual([1, 2, 3]);
+  });
+
+  it('resumes at the page of the checkpoint without listing earlier pages', async () => {
+    const { backfill, store, listedPages, triaged } = createBackfill(range(1, 250));
+    await saveCheckpoint(store, 150, 2);
+
+    const report = await backfill.run(REPOSITORY, options, 'test');
+
+    expect(report).toMatchObject({ resumedFrom: 150, completed: true, triaged: 100 });
+    expect(triaged()).toEqual(range(151, 250).map(issue => issue.number));
+    expect(listedPages()).not.toContain(1);
+  });
+
+  it('steps back a page when closed issues moved the checkpoint onto it', async () => {
+    // Issues 1-10 were closed after the checkpoint, so page 2 now starts at #111
+    const { backfill, store, listedPages, triaged } = createBackfill(range(11, 250));
+    await saveCheckpoint(store, 105, 2);
+
+    await backfill.run(REPOSITORY, options, 'test');
+
+    expect(triaged()).toEqual(range(106, 250).map(issue => issue.number));
+    expect(listedPages()).toEqual([2, 1, 2, 3]);
+  });
+
+  it('ignores the checkpoint when not resuming', async () => {
+    const { backfill, store, triaged } = createBackfill(range(1, 50));
+    await saveCheckpoint(store, 40, 1);
+
+    await backfill.run(REPOSITORY, { ...options, resume: false }, 'test');
+
+    expect(triaged()).toHaveLength(50);
+  });
+
+  it('stops at the limit and continues from there on the next run', async () => {
+    const { backfill, store, triaged } = createBackfill(range(1, 250));
+
+    const first = await backfill.run(REPOSITORY, { ...options, limit: 120 }, 'test');
+    expect(first).toMatchObject({ stoppedReason: 'limit', triaged: 120, checkpoint: 120 });
+    expect(await store.getBackfillCheckpoint(REPOSITORY, FILTER_KEY)).toMatchObject({ lastIssueNumber: 120, page: 2 });
+
+    const second = await backfill.run(REPOSITORY, options, 'test');
+    expect(second).toMatchObject({ resumedFrom: 120, completed: true, triaged: 130 });
+    expect(new Set(triaged()).size).toBe(250);
+  });
+
+  it('checkpoints just before the first issue deferred by an open circuit breaker', async () => {
+    const retryAfter = new Date(Date.now() + 60_000).toISOString();
+    const { backfill, store, listedPages } = createBackfill(range(1, 250), issueNumber =>
+      issueNumber >= 130 ?
+        { success: false, retryable: true, retryAfter, error: 'Circuit open' } :
+        { success: true, outcome: 'labeled' }
+    );
+
+    const report = await backfill.run(REPOSITORY, options, 'test');
+
+    expect(report).toMatchObject({ stoppedReason: 'circuit-open', resumeAfter: retryAfter, checkpoint: 129 });
+    expect(listedPages()).toEqual([1, 2]);
+    expect(await store.getBackfillCheckpoint(REPOSITORY, FILTER_KEY)).toMatchObject({ lastIssueNumber: 129, page: 2, triaged: 129 });
+  });
+});
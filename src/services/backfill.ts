@@ -0,0 +1,325 @@
+import pLimit from 'p-limit';
+import { log } from '../utils/logger.js';
+import { ValidationError } from '../utils/errors.js';
+import type GitHubClient from './github.js';
+import type { IssuePage } from './github.js';
+import type RepositoryRegistry from './repositories.js';
+import type { TriageStore } from '../storage/index.js';
+import type {
+  AppConfig,
+  BackfillCheckpoint,
+  BackfillFilter,
+  BackfillReport,
+  GitHubIssue,
+  GitHubWebhookPayload,
+  RepositoryConfig,
+  TriageResult
+} from '../types/index.js';
+
+export interface BackfillOptions extends BackfillFilter {
+  dryRun: boolean;
+  // Most issues triaged (or listed, in a dry run) by this run
+  limit?: number;
+  // Continue from the checkpoint of a previous run with the same filter
+  resume: boolean;
+}
+
+// Sender of the synthetic payloads built for existing issues
+const BACKFILL_SENDER = { login: 'github-triage-agent', id: 0, type: 'Bot' };
+
+const PAGE_SIZE = 100;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Triages issues that predate the agent. Issues are read oldest first, one page at
+// a time, and each page is triaged with bounded concurrency. After every page the
+// checkpoint records the last issue number handled and the page it was on, so a
+// stopped or failed run resumes where it left off. Before each page the GitHub
+// rate limit is checked; when it's low the run waits for the reset, or stops if
+// that is too far away.
+export class TriageBackfill {
+  private readonly config: AppConfig;
+  private readonly githubClient: GitHubClient;
+  private readonly repositories: RepositoryRegistry;
+  private readonly store: TriageStore;
+  private readonly triage: (payload: GitHubWebhookPayload, correlationId: string) => Promise<TriageResult>;
+
+  constructor(
+    config: AppConfig,
+    services: {
+      githubClient: GitHubClient;
+      repositories: RepositoryRegistry;
+      store: TriageStore;
+      triage: (payload: GitHubWebhookPayload, correlationId: string) => Promise<TriageResult>;
+    }
+  ) {
+    this.config = config;
+    this.githubClient = services.githubClient;
+    this.repositories = services.repositories;
+    this.store = services.store;
+    this.triage = services.triage;
+  }
+
+  public async run(repository: string, options: BackfillOptions, correlationId: string): Promise<BackfillReport> {
+    const repo = this.repositories.get(repository);
+    const since = parseDate(options.since, 'since', correlationId);
+    const until = parseDate(options.until, 'until', correlationId);
+    const filterKey = getFilterKey(options);
+
+    const checkpoint = options.resume ?
+      await this.store.getBackfillCheckpoint(repo.fullName, filterKey) :
+      undefined;
+    let lastIssueNumber = checkpoint?.lastIssueNumber ?? 0;
+    let triagedTotal = checkpoint?.triaged ?? 0;
+
+    const report: BackfillReport = {
+      repository: repo.fullName,
+      dryRun: options.dryRun,
+      resumedFrom: checkpoint?.lastIssueNumber,
+      scanned: 0,
+      skipped: 0,
+      triaged: 0,
+      failed: 0,
+      issues: [],
+      completed: false
+    };
+    const limit = pLimit(this.config.backfill.concurrency);
+
+    log.info('Starting triage backfill', {
+      correlationId,
+      repository: repo.fullName,
+      filterKey,
+      dryRun: options.dryRun,
+      resumedFrom: report.resumedFrom,
+      component: 'backfill'
+    });
+
+    let page = checkpoint ? await this.findResumePage(repo, options, checkpoint, correlationId) : 1;
+    let hasMore = true;
+
+    for (; hasMore && !report.stoppedReason && !report.completed; page++) {
+      if (!options.dryRun) {
+        const resetAt = await this.waitForRateLimit(repo, correlationId);
+        if (resetAt) {
+          report.stoppedReason = 'rate-limit';
+          report.resumeAfter = resetAt;
+          break;
+        }
+      }
+
+      const listing = await this.listPage(repo, options, page, correlationId);
+      hasMore = listing.hasMore;
+
+      const selected: GitHubIssue[] = [];
+      let pageEnd: number | undefined;
+
+      for (const issue of listing.issues) {
+        // Issue numbers grow with creation time, so everything up to the checkpoint is done
+        if (issue.number <= lastIssueNumber) {
+          continue;
+        }
+        if (until !== undefined && Date.parse(issue.created_at) > until) {
+          report.completed = true;
+          break;
+        }
+        if (options.limit !== undefined && report.issues.length + selected.length >= options.limit) {
+          report.stoppedReason = 'limit';
+          break;
+        }
+
+        report.scanned++;
+        pageEnd = issue.number;
+
+        if ((since !== undefined && Date.parse(issue.created_at) < since) ||
+          (options.onlyUnlabeled && issue.labels.length > 0)) {
+          report.skipped++;
+          continue;
+        }
+        selected.push(issue);
+      }
+
+      if (options.dryRun) {
+        report.issues.push(...selected.map(issue => ({
+          issueNumber: issue.number,
+          title: issue.title,
+          outcome: 'pending' as const
+        })));
+        lastIssueNumber = pageEnd ?? lastIssueNumber;
+        continue;
+      }
+
+      const results = await Promise.all(selected.map(issue =>
+        limit(async () => ({ issue, result: await this.triageIssue(repo, issue, correlationId) }))
+      ));
+
+      // Issues deferred by an open circuit breaker weren't triaged; the checkpoint
+      // stops just before the first of them
+      const deferred = results.find(({ result }) => result.retryAfter);
+      if (deferred) {
+        report.stoppedReason = 'circuit-open';
+        report.resumeAfter = deferred.result.retryAfter;
+        pageEnd = deferred.issue.number - 1;
+      }
+
+      for (const { issue, result } of results) {
+        report.issues.push({
+          issueNumber: issue.number,
+          title: issue.title,
+          outcome: result.outcome ?? (result.success ? 'labeled' : 'failed'),
+          error: result.error
+        });
+        if (result.success) {
+          report.triaged++;
+          triagedTotal++;
+        } else {
+          report.failed++;
+        }
+      }
+
+      if (pageEnd !== undefined && pageEnd > lastIssueNumber) {
+        lastIssueNumber = pageEnd;
+        await this.store.saveBackfillCheckpoint({
+          repository: repo.fullName,
+          filterKey,
+          lastIssueNumber,
+          page,
+          triaged: triagedTotal,
+          updatedAt: new Date().toISOString()
+        });
+      }
+    }
+
+    if (!hasMore && !report.stoppedReason) {
+      report.completed = true;
+    }
+
+    // A finished backfill starts over next time, e.g. to retry issues that failed
+    if (report.completed && !options.dryRun) {
+      await this.store.deleteBackfillCheckpoint(repo.fullName, filterKey);
+    } else if (!options.dryRun) {
+      report.checkpoint = lastIssueNumber || undefined;
+    }
+
+    log.info('Triage backfill finished', {
+      correlationId,
+      repository: repo.fullName,
+      dryRun: options.dryRun,
+      scanned: report.scanned,
+      skipped: report.skipped,
+      triaged: report.triaged,
+      failed: report.failed,
+      completed: report.completed,
+      stoppedReason: report.stoppedReason,
+      checkpoint: report.checkpoint,
+      component: 'backfill'
+    });
+
+    return report;
+  }
+
+  private listPage(repo: RepositoryConfig, options: BackfillOptions, page: number, correlationId: string): Promise<IssuePage> {
+    // The issues API filters on update time; an issue created after `since` was
+    // also updated after it, so this only narrows the listing
+    return this.githubClient.listIssuePage(repo.fullName, {
+      state: options.state,
+      since: options.since,
+      sort: 'created',
+      direction: 'asc',
+      perPage: PAGE_SIZE,
+      page
+    }, correlationId);
+  }
+
+  // Issues closed (or deleted) since the checkpoint was saved move later ones onto
+  // earlier pages, so the saved page may now start past the checkpoint; step back
+  // until it starts at or before it again. A page of only pull requests, or one past
+  // the end of the listing, doesn't show where it starts, so it's stepped over too
+  private async findResumePage(
+    repo: RepositoryConfig,
+    options: BackfillOptions,
+    checkpoint: BackfillCheckpoint,
+    correlationId: string
+  ): Promise<number> {
+    for (let page = checkpoint.page; page > 1; page--) {
+      const { issues } = await this.listPage(repo, options, page, correlationId);
+      if (issues.length > 0 && issues[0].number <= checkpoint.lastIssueNumber) {
+        return page;
+      }
+    }
+    return 1;
+  }
+
+  // Undefined once enough requests remain, waiting for the reset if it comes soon
+  // enough; otherwise the time of the reset, at which the backfill can resume
+  private async waitForRateLimit(repo: RepositoryConfig, correlationId: string): Promise<string | undefined> {
+    const { minRateLimitRemaining, maxRateLimitWaitSeconds } = this.config.backfill;
+    const { remaining, reset } = await this.githubClient.getRateLimitStatus(correlationId, repo.fullName);
+    if (remaining >= minRateLimitRemaining) {
+      return undefined;
+    }
+
+    const waitMs = Math.max(0, reset * 1000 - Date.now());
+    const resetAt = new Date(reset * 1000).toISOString();
+    if (waitMs > maxRateLimitWaitSeconds * 1000) {
+      log.warn('GitHub rate limit is low, stopping backfill until it resets', {
+        correlationId,
+        repository: repo.fullName,
+        remaining,
+        resetAt,
+        component: 'backfill'
+      });
+      return resetAt;
+    }
+
+    log.info('GitHub rate limit is low, waiting for it to reset', {
+      correlationId,
+      repository: repo.fullName,
+      remaining,
+      resetAt,
+      component: 'backfill'
+    });
+    await sleep(waitMs);
+    return undefined;
+  }
+
+  // Failures are reported per issue rather than ending the backfill
+  private async triageIssue(repo: RepositoryConfig, issue: GitHubIssue, correlationId: string): Promise<TriageResult> {
+    const payload: GitHubWebhookPayload = {
+      action: 'opened',
+      issue,
+      repository: {
+        id: 0,
+        name: repo.name,
+        full_name: repo.fullName,
+        owner: { login: repo.owner, id: 0 },
+        html_url: `https://github.com/${repo.fullName}`
+      },
+      sender: BACKFILL_SENDER
+    };
+
+    try {
+      return await this.triage(payload, correlationId);
+    } catch (error) {
+      return { success: false, outcome: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+}
+
+// Checkpoints only apply to runs over the same set of issues
+function getFilterKey(filter: BackfillFilter): string {
+  return [filter.state, filter.since ?? '', filter.until ?? '', filter.onlyUnlabeled ? 'unlabeled' : 'any'].join('|');
+}
+
+function parseDate(value: string | undefined, field: string, correlationId: string): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new ValidationError(`${field} must be an ISO 8601 date`, field, { correlationId });
+  }
+  return time;
+}
+
+export default TriageBackfill;
@@ -0,0 +1,51 @@
+import { describe, expect, it } from '@jest/globals';
+import OpenAIClassifier from './classifier.js';
+import RepositoryRegistry from './repositories.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type { ClassifierProvider } from './providers/index.js';
+import type { TriageContext } from '../types/index.js';
+
+const context: TriageContext = {
+  title: 'Crash when saving a file',
+  body: 'The editor crashes every time I save. The docs say this should work.',
+  author: 'octocat',
+  repository: 'octo-org/octo-repo',
+  existingLabels: [],
+  createdAt: '2026-01-01T00:00:00Z'
+};
+
+function classify(response: object) {
+  const config = createTestConfig({
+    triage: { labels: ['bug', 'enhancement', 'documentation', 'Good First Issue'] }
+  });
+  const provider: ClassifierProvider = {
+    name: 'test-provider',
+    complete: async () => ({ content: JSON.stringify(response), model: 'test', finishReason: 'stop', tokensUsed: 1 })
+  };
+
+  return new OpenAIClassifier(config, new RepositoryRegistry(config), provider).classifyIssue(context, 'test');
+}
+
+describe('OpenAIClassifier', () => {
+  it('keeps additional labels that are configured, spelled as configured', async () => {
+    const result = await classify({
+      primaryLabel: 'bug',
+      confidence: 0.9,
+      reasoning: 'A crash',
+      additionalLabels: ['Documentation', 'good first issue', 'documentation']
+    });
+
+    expect(result.additionalLabels).toEqual(['documentation', 'Good First Issue']);
+  });
+
+  it('drops additional labels that are not configured for the repository', async () => {
+    const result = await classify({
+      primaryLabel: 'bug',
+      confidence: 0.9,
+      reasoning: 'A crash',
+      additionalLabels: ['critical', 'bug', 42, 'wontfix']
+    });
+
+    expect(result.additionalLabels).toEqual([]);
+  });
+});
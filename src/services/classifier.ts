@@ -1,4 +1,3 @@
-import { config } from '../config/index.js';
 import { log, triageLog, performanceLog } from '../utils/logger.js';
 import { 
   OpenAIApiError, 
@@ -6,46 +5,58 @@ import {
   OpenAIAuthError,
   ClassificationError,
   LowConfidenceError,
-  TimeoutError 
+  TimeoutError,
+  CircuitBreakerError
 } from '../utils/errors.js';
+import RepositoryRegistry from './repositories.js';
+import { createClassifierProvider, type ClassifierProvider } from './providers/index.js';
+import { withRetry } from '../utils/retry.js';
+import { getCircuitBreaker, type CircuitBreaker } from '../utils/circuit-breaker.js';
 import type { 
+  AppConfig,
+  ClassificationExample,
   ClassificationResult, 
-  TriageContext, 
-  LogContext 
+  LabelDefinition,
+  RepositoryConfig,
+  TriageContext
 } from '../types/index.js';
 
-// OpenAI API request/response types
-interface OpenAIMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
-}
+// Bump whenever the prompt changes so triage history can be compared across versions
+export const PROMPT_VERSION = '6';
+
+// Example issue bodies are cut to this many characters to keep the prompt small
+const EXAMPLE_BODY_LIMIT = 300;
+
+// Author follow-up comments are cut to this many characters each
+const FOLLOW_UP_LIMIT = 1000;
 
-interface OpenAIRequest {
-  model: string;
-  messages: OpenAIMessage[];
-  temperature: number;
-  max_tokens: number;
-  response_format: { type: 'json_object' };
+// Render one few-shot example, noting a label a maintainer corrected. Exported so
+// example selection can budget with the exact text that ends up in the prompt.
+export function formatExample(example: ClassificationExample, index: number): string {
+  const body = example.body.length > EXAMPLE_BODY_LIMIT ?
+    `${example.body.slice(0, EXAMPLE_BODY_LIMIT)}...` :
+    example.body;
+  const correction = example.rejectedLabel ?
+    ` (a maintainer corrected this from "${example.rejectedLabel}")` :
+    '';
+
+  return `${index + 1}. Title: "${example.title}"
+   Body: """${body.replace(/\s+/g, ' ').trim()}"""
+   Label: ${example.label}${correction}`;
 }
 
-interface OpenAIResponse {
-  id: string;
-  object: string;
-  created: number;
-  model: string;
-  choices: Array<{
-    index: number;
-    message: {
-      role: 'assistant';
-      content: string;
-    };
-    finish_reason: string;
-  }>;
-  usage: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+// Render a label with its description, when-to-apply rules and example titles, and
+// its required information when completeness is being assessed
+function formatLabel(label: LabelDefinition, withRequiredInfo: boolean): string {
+  const lines = [label.description ? `- ${label.name}: ${label.description}` : `- ${label.name}`];
+  label.applyWhen.forEach(condition => lines.push(`  Apply when: ${condition}`));
+  if (label.examples.length > 0) {
+    lines.push(`  Examples: ${label.examples.map(example => `"${example}"`).join('; ')}`);
+  }
+  if (withRequiredInfo && label.requiredInfo.length > 0) {
+    lines.push(`  Required information: ${label.requiredInfo.join('; ')}`);
+  }
+  return lines.join('\n');
 }
 
 interface ClassificationResponse {
@@ -54,41 +65,89 @@ interface ClassificationResponse {
   reasoning: string;
   additionalLabels?: string[];
   severity?: 'critical' | 'high' | 'medium' | 'low';
+  area?: {
+    name: string;
+    confidence: number;
+  } | null;
+  missingInfo?: string[];
 }
 
 export class OpenAIClassifier {
-  private readonly apiKey: string;
+  private readonly config: AppConfig;
+  private readonly repositories: RepositoryRegistry;
+  private readonly provider: ClassifierProvider;
   private readonly model: string;
-  private readonly baseUrl = 'https://api.openai.com/v1';
+  public readonly breaker: CircuitBreaker;
   private readonly timeout = 30000; // 30 second timeout
 
-  constructor() {
-    this.apiKey = config.openai.apiKey;
+  constructor(
+    config: AppConfig,
+    repositories: RepositoryRegistry = new RepositoryRegistry(config),
+    provider?: ClassifierProvider
+  ) {
+    this.config = config;
+    this.repositories = repositories;
+    this.provider = provider ?? createClassifierProvider(config, this.timeout);
     this.model = config.openai.model;
+    this.breaker = getCircuitBreaker(this.provider.name, config.circuitBreaker);
   }
 
   // Generate the classification prompt
-  private generatePrompt(context: TriageContext): string {
-    const availableLabels = config.triage.labels.join(', ');
+  private generatePrompt(context: TriageContext, repo: RepositoryConfig): string {
+    const assessCompleteness = this.assessesCompleteness(repo);
+    const availableLabels = repo.labelDefinitions
+      .map(label => formatLabel(label, assessCompleteness))
+      .join('\n');
+    const followUps = context.followUps?.length ?
+      `\nAuthor follow-up comments:\n${context.followUps.map((comment, index) => {
+        const text = comment.length > FOLLOW_UP_LIMIT ? `${comment.slice(0, FOLLOW_UP_LIMIT)}...` : comment;
+        return `${index + 1}. """${text.trim()}"""`;
+      }).join('\n')}` :
+      '';
+    const guidelines = repo.guidelines ? 
+      `\nTRIAGE GUIDELINES:\n${repo.guidelines}\n` : 
+      '';
+    const labeledExamples = context.examples?.length ?
+      `\nLABELED EXAMPLES FROM THIS REPOSITORY:\n${context.examples.map(formatExample).join('\n')}\n` :
+      '';
+    // The area dimension is only asked for when the repository defines areas
+    const availableAreas = repo.areas.length ?
+      `\nAVAILABLE AREAS:\n${repo.areas.map(area => 
+        area.description ? `- ${area.name}: ${area.description}` : `- ${area.name}`
+      ).join('\n')}\n` :
+      '';
+    const areaRule = repo.areas.length ?
+      `\n6. Choose the single area the issue affects from the available areas, with its own confidence score; use null if none fits` :
+      '';
+    const areaFormat = repo.areas.length ?
+      `,\n  "area": {"name": "string (must be one of the available areas)", "confidence": number (0.0 to 1.0)} or null` :
+      '';
+    const completenessRule = assessCompleteness ?
+      `\n${repo.areas.length ? 7 : 6}. If the chosen label lists required information, list each item the issue (including the author's follow-up comments) does not provide, using the item text exactly as listed; use an empty list if nothing is missing` :
+      '';
+    const completenessFormat = assessCompleteness ?
+      `,\n  "missingInfo": ["string"] (required information items the issue does not provide, or an empty array)` :
+      '';
     
     return `You are an expert GitHub issue triager. Analyze the following issue and classify it accurately.
 
 ISSUE CONTEXT:
 Title: "${context.title}"
-Body: """${context.body}"""
+Body: """${context.body}"""${followUps}
 Author: ${context.author}
 Repository: ${context.repository}
 Existing Labels: ${context.existingLabels.join(', ') || 'None'}
 Created: ${context.createdAt}
 
-AVAILABLE LABELS: ${availableLabels}
-
+AVAILABLE LABELS:
+${availableLabels}
+${availableAreas}${guidelines}${labeledExamples}
 CLASSIFICATION RULES:
 1. Choose the MOST APPROPRIATE single label from the available labels
 2. Provide a confidence score between 0.0 and 1.0
 3. Give clear reasoning for your classification
 4. Optionally suggest additional labels if relevant
-5. Assess severity if it's a bug (critical/high/medium/low)
+5. Assess severity if it's a bug (critical/high/medium/low)${areaRule}${completenessRule}
 
 RESPONSE FORMAT:
 Respond with valid JSON matching this exact structure:
@@ -97,112 +156,19 @@ Respond with valid JSON matching this exact structure:
   "confidence": number (0.0 to 1.0),
   "reasoning": "string (2-3 sentences explaining the classification)",
   "additionalLabels": ["string"] (optional array of additional relevant labels),
-  "severity": "string" (optional: critical/high/medium/low for bugs)
+  "severity": "string" (optional: critical/high/medium/low for bugs)${areaFormat}${completenessFormat}
 }
 
-EXAMPLES:
-- Bug reports should be labeled "bug" with severity assessment
-- Feature requests should be labeled "feature-request"
-- Documentation issues should be labeled "documentation"
-- General questions should be labeled "question"
-- Improvements to existing features should be labeled "enhancement"
-
 Analyze the issue and provide your classification:`;
   }
 
-  // Make HTTP request to OpenAI API
-  private async makeRequest(payload: OpenAIRequest, correlationId: string): Promise<OpenAIResponse> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-
-    try {
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-          'User-Agent': 'github-triage-agent/1.0.0'
-        },
-        body: JSON.stringify(payload),
-        signal: controller.signal
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        await this.handleApiError(response, correlationId);
-      }
-
-      const result = await response.json() as OpenAIResponse;
-      
-      log.debug('OpenAI API request successful', {
-        correlationId,
-        model: result.model,
-        tokensUsed: result.usage.total_tokens,
-        component: 'openai-classifier'
-      });
-
-      return result;
-
-    } catch (error) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new TimeoutError('OpenAI API request', this.timeout, { correlationId });
-      }
-
-      if (error instanceof Error) {
-        throw new OpenAIApiError(`Request failed: ${error.message}`, undefined, { correlationId });
-      }
-
-      throw new OpenAIApiError('Unknown request error', undefined, { correlationId });
-    }
-  }
-
-  // Handle OpenAI API errors
-  private async handleApiError(response: Response, correlationId: string): Promise<never> {
-    let errorData: any;
-    
-    try {
-      errorData = await response.json();
-    } catch {
-      errorData = { error: { message: 'Unknown error' } };
-    }
-
-    const context: LogContext = { correlationId };
-    const errorMessage = errorData.error?.message || 'Unknown API error';
-
-    switch (response.status) {
-      case 401:
-        throw new OpenAIAuthError(`Authentication failed: ${errorMessage}`, context);
-      
-      case 429:
-        const retryAfter = response.headers.get('retry-after');
-        const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
-        throw new OpenAIRateLimitError(
-          `Rate limit exceeded: ${errorMessage}`,
-          retryAfterSeconds,
-          context
-        );
-      
-      case 400:
-        throw new OpenAIApiError(`Bad request: ${errorMessage}`, response.status, context);
-      
-      case 500:
-      case 502:
-      case 503:
-      case 504:
-        throw new OpenAIApiError(`Server error: ${errorMessage}`, response.status, context);
-      
-      default:
-        throw new OpenAIApiError(`API error: ${errorMessage}`, response.status, context);
-    }
-  }
-
-  // Parse and validate OpenAI response
-  private parseClassificationResponse(content: string, correlationId: string): ClassificationResponse {
+  // Parse and validate the model response
+  private parseClassificationResponse(content: string, repo: RepositoryConfig, correlationId: string): ClassificationResponse {
+    const { labels } = repo;
     try {
-      const parsed = JSON.parse(content) as ClassificationResponse;
+      // Providers without a JSON mode sometimes wrap the object in a markdown fence
+      const json = content.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+      const parsed = JSON.parse(json) as ClassificationResponse;
       
       // Validate required fields
       if (!parsed.primaryLabel || typeof parsed.confidence !== 'number') {
@@ -215,29 +181,129 @@ Analyze the issue and provide your classification:`;
       }
 
       // Validate primary label is in available labels
-      if (!config.triage.labels.includes(parsed.primaryLabel)) {
-        log.warn('OpenAI returned invalid label, using fallback', {
+      if (!labels.includes(parsed.primaryLabel)) {
+        log.warn('Model returned invalid label, using fallback', {
           correlationId,
           invalidLabel: parsed.primaryLabel,
-          availableLabels: config.triage.labels,
+          availableLabels: labels,
           component: 'openai-classifier'
         });
         
         // Use first available label as fallback
-        parsed.primaryLabel = config.triage.labels[0];
+        parsed.primaryLabel = labels[0];
         parsed.confidence = Math.min(parsed.confidence, 0.5); // Reduce confidence for fallback
       }
 
+      parsed.area = this.validateArea(parsed.area, repo, correlationId);
+
+      parsed.additionalLabels = this.validateAdditionalLabels(parsed.additionalLabels, parsed.primaryLabel, repo, correlationId);
+
+      parsed.missingInfo = this.validateMissingInfo(parsed.missingInfo, parsed.primaryLabel, repo);
+
       return parsed;
 
     } catch (error) {
       throw new ClassificationError(
-        `Failed to parse OpenAI response: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        `Failed to parse ${this.provider.name} response: ${error instanceof Error ? error.message : 'Unknown error'}`,
         { correlationId }
       );
     }
   }
 
+  // Keep only configured labels, spelled as configured. Areas are applied against
+  // their own threshold, never as free-form additional labels.
+  private validateAdditionalLabels(
+    additionalLabels: unknown,
+    primaryLabel: string,
+    repo: RepositoryConfig,
+    correlationId: string
+  ): string[] {
+    if (!Array.isArray(additionalLabels)) {
+      return [];
+    }
+
+    const areaNames = new Set(repo.areas.map(area => area.name.toLowerCase()));
+    const labelsByKey = new Map(repo.labels
+      .filter(label => !areaNames.has(label.toLowerCase()))
+      .map(label => [label.toLowerCase(), label]));
+
+    const valid = new Set<string>();
+    const dropped: unknown[] = [];
+    for (const label of additionalLabels) {
+      const configured = typeof label === 'string' ? labelsByKey.get(label.trim().toLowerCase()) : undefined;
+      if (!configured) {
+        dropped.push(label);
+      } else if (configured !== primaryLabel) {
+        valid.add(configured);
+      }
+    }
+
+    if (dropped.length > 0) {
+      log.warn('Model returned unknown additional labels, dropping them', {
+        correlationId,
+        invalidLabels: dropped,
+        availableLabels: repo.labels,
+        component: 'openai-classifier'
+      });
+    }
+
+    return Array.from(valid);
+  }
+
+  // Keep the area only if it names a configured area with a usable confidence
+  private validateArea(
+    area: ClassificationResponse['area'],
+    repo: RepositoryConfig,
+    correlationId: string
+  ): ClassificationResponse['area'] {
+    if (!area || repo.areas.length === 0) {
+      return undefined;
+    }
+
+    const known = repo.areas.some(candidate => candidate.name === area.name);
+    const validConfidence = typeof area.confidence === 'number' && area.confidence >= 0 && area.confidence <= 1;
+    if (!known || !validConfidence) {
+      log.warn('Model returned invalid area, ignoring it', {
+        correlationId,
+        invalidArea: area.name,
+        availableAreas: repo.areas.map(candidate => candidate.name),
+        component: 'openai-classifier'
+      });
+      return undefined;
+    }
+
+    return { name: area.name, confidence: area.confidence };
+  }
+
+  // Completeness is only assessed when the needs-info workflow is on and a label has a checklist
+  private assessesCompleteness(repo: RepositoryConfig): boolean {
+    return this.config.needsInfo.enabled && repo.labelDefinitions.some(label => label.requiredInfo.length > 0);
+  }
+
+  // Keep only items from the primary label's checklist, in its wording. An answer
+  // without a list leaves completeness unassessed rather than complete.
+  private validateMissingInfo(
+    missingInfo: unknown,
+    primaryLabel: string,
+    repo: RepositoryConfig
+  ): string[] | undefined {
+    if (!this.assessesCompleteness(repo)) {
+      return undefined;
+    }
+
+    const required = repo.labelDefinitions.find(label => label.name === primaryLabel)?.requiredInfo ?? [];
+    if (required.length === 0) {
+      return [];
+    }
+    if (!Array.isArray(missingInfo)) {
+      return undefined;
+    }
+
+    const normalize = (item: string) => item.trim().toLowerCase();
+    const reported = new Set(missingInfo.filter(item => typeof item === 'string').map(normalize));
+    return required.filter(item => reported.has(normalize(item)));
+  }
+
   // Main classification method
   public async classifyIssue(context: TriageContext, correlationId: string): Promise<ClassificationResult> {
     const timer = performanceLog.startTimer('issue-classification', correlationId);
@@ -248,72 +314,82 @@ Analyze the issue and provide your classification:`;
         correlationId
       );
 
-      const prompt = this.generatePrompt(context);
+      const repo = this.repositories.get(context.repository);
+      const prompt = this.generatePrompt(context, repo);
       
-      const payload: OpenAIRequest = {
-        model: this.model,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert GitHub issue triager. Always respond with valid JSON.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.3, // Lower temperature for more consistent classifications
-        max_tokens: 500,
-        response_format: { type: 'json_object' }
-      };
-
-      log.debug('Making OpenAI classification request', {
+      log.debug('Making classification request', {
         correlationId,
+        provider: this.provider.name,
         model: this.model,
         titleLength: context.title.length,
         bodyLength: context.body.length,
         component: 'openai-classifier'
       });
 
-      const response = await this.makeRequest(payload, correlationId);
+      const response = await this.breaker.execute(() => withRetry(
+        () => this.provider.complete({
+          system: 'You are an expert GitHub issue triager. Always respond with valid JSON.',
+          prompt,
+          temperature: 0.3, // Lower temperature for more consistent classifications
+          maxTokens: 500,
+          jsonMode: true
+        }, correlationId),
+        this.config.retry.llm,
+        {
+          operation: `${this.provider.name} completion`,
+          correlationId,
+          component: 'openai-classifier'
+        }
+      ), correlationId);
       
-      if (!response.choices || response.choices.length === 0) {
-        throw new ClassificationError('No classification choices returned', { correlationId });
+      if (!response.content) {
+        throw new ClassificationError('No classification content returned', { correlationId });
       }
 
-      const choice = response.choices[0];
-      if (choice.finish_reason !== 'stop') {
-        log.warn('OpenAI response may be incomplete', {
+      if (response.finishReason !== 'stop') {
+        log.warn('Model response may be incomplete', {
           correlationId,
-          finishReason: choice.finish_reason,
+          provider: this.provider.name,
+          finishReason: response.rawFinishReason,
           component: 'openai-classifier'
         });
       }
 
-      const classification = this.parseClassificationResponse(choice.message.content, correlationId);
+      const classification = this.parseClassificationResponse(response.content, repo, correlationId);
       
       const result: ClassificationResult = {
         primaryLabel: classification.primaryLabel,
         confidence: classification.confidence,
         reasoning: classification.reasoning,
         additionalLabels: classification.additionalLabels,
-        severity: classification.severity
+        severity: classification.severity,
+        area: classification.area ?? undefined,
+        missingInfo: classification.missingInfo,
+        source: 'llm',
+        metadata: {
+          provider: this.provider.name,
+          model: response.model,
+          promptVersion: PROMPT_VERSION,
+          tokensUsed: response.tokensUsed
+        }
       };
 
       // Check confidence threshold
-      if (result.confidence < config.triage.confidenceThreshold) {
+      if (result.confidence < repo.confidenceThreshold) {
         log.warn('Classification confidence below threshold', {
           correlationId,
           confidence: result.confidence,
-          threshold: config.triage.confidenceThreshold,
+          threshold: repo.confidenceThreshold,
+          repository: repo.fullName,
           primaryLabel: result.primaryLabel,
           component: 'openai-classifier'
         });
         
         throw new LowConfidenceError(
           result.confidence,
-          config.triage.confidenceThreshold,
-          { correlationId }
+          repo.confidenceThreshold,
+          { correlationId },
+          result
         );
       }
 
@@ -330,8 +406,11 @@ Analyze the issue and provide your classification:`;
         correlationId,
         primaryLabel: result.primaryLabel,
         confidence: result.confidence,
+        area: result.area?.name,
         duration,
-        tokensUsed: response.usage.total_tokens,
+        provider: this.provider.name,
+        model: response.model,
+        tokensUsed: response.tokensUsed,
         component: 'openai-classifier'
       });
 
@@ -346,7 +425,8 @@ Analyze the issue and provide your classification:`;
           error instanceof OpenAIAuthError ||
           error instanceof ClassificationError ||
           error instanceof LowConfidenceError ||
-          error instanceof TimeoutError) {
+          error instanceof TimeoutError ||
+          error instanceof CircuitBreakerError) {
         throw error;
       }
 
@@ -365,7 +445,7 @@ Analyze the issue and provide your classification:`;
         title: 'Health check test',
         body: 'This is a test issue for health checking',
         author: 'system',
-        repository: 'test/test',
+        repository: this.repositories.getDefault().fullName,
         existingLabels: [],
         createdAt: new Date().toISOString()
       };
@@ -374,7 +454,7 @@ Analyze the issue and provide your classification:`;
       return result.confidence > 0;
 
     } catch (error) {
-      log.error('OpenAI classifier health check failed', { correlationId }, error as Error);
+      log.error('Classifier health check failed', { correlationId }, error as Error);
       return false;
     }
   }
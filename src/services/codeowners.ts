@@ -0,0 +1,84 @@
+// CODEOWNERS parsing and matching, following GitHub's gitignore-style rules
+
+export interface CodeownersEntry {
+  pattern: string;
+  owners: string[];
+  matcher: RegExp;
+}
+
+// Where GitHub looks for the file, in priority order
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export function parseCodeowners(content: string): CodeownersEntry[] {
+  const entries: CodeownersEntry[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line) {
+      continue;
+    }
+
+    const [pattern, ...owners] = line.split(/\s+/);
+    entries.push({
+      pattern,
+      // Email owners can't be assigned through the API
+      owners: owners.filter(owner => owner.startsWith('@')),
+      matcher: toMatcher(pattern)
+    });
+  }
+
+  return entries;
+}
+
+// Owners of a path; the last matching entry wins, as on GitHub
+export function findOwners(entries: CodeownersEntry[], path: string): string[] {
+  const normalized = path.replace(/^\.?\//, '');
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    if (entries[i].matcher.test(normalized)) {
+      return entries[i].owners;
+    }
+  }
+
+  return [];
+}
+
+// File paths mentioned in issue text, e.g. "src/services/github.ts" or "README.md"
+export function extractPaths(text: string): string[] {
+  const paths = new Set<string>();
+  const pattern = /(?:^|[\s`'"(\[])(\.?\/?(?:[\w.-]+\/)+[\w.-]+|[\w-]+\.[a-z][a-z0-9]{0,5})(?=$|[\s`'")\]:,.;])/gim;
+
+  for (const match of text.matchAll(pattern)) {
+    // Sentence punctuation isn't part of the path
+    paths.add(match[1].replace(/^\.?\//, '').replace(/\.+$/, ''));
+  }
+
+  return Array.from(paths);
+}
+
+function toMatcher(pattern: string): RegExp {
+  // A leading or inner slash anchors the pattern to the repository root
+  const anchored = pattern.startsWith('/') || pattern.replace(/\/$/, '').includes('/');
+  const body = pattern
+    .replace(/^\//, '')
+    .replace(/\/$/, '')
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      }
+    })
+    .join('');
+
+  // Matching a directory matches everything below it
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}(?:/.*)?$`);
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from '@jest/globals';
+import CommentRenderer, { getDefaultTemplates } from './comment-templates.js';
+import RepositoryRegistry from './repositories.js';
+import { compileTemplate } from '../utils/template.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type { ClassificationResult, CommentLocale } from '../types/index.js';
+
+const classification: ClassificationResult = {
+  primaryLabel: 'bug',
+  confidence: 0.87,
+  reasoning: 'The editor crashes on save',
+  severity: 'high',
+  area: { name: 'area/editor', confidence: 0.9 }
+};
+
+function render(overrides: Record<string, unknown> = {}, result: ClassificationResult = classification, repository?: string) {
+  const config = createTestConfig(overrides);
+  const repositories = new RepositoryRegistry(config);
+  const repo = repository ? repositories.get(repository) : repositories.getDefault();
+
+  return new CommentRenderer(config).render(repo, result, { issueNumber: 7 });
+}
+
+describe('CommentRenderer', () => {
+  it('renders the built-in English comment', () => {
+    const body = render();
+
+    expect(body).toMatch(/^🤖 \*\*Auto-Triage Results\*\*/);
+    expect(body).toContain('classified as: **bug**');
+    expect(body).toContain('Confidence: 87%');
+    expect(body).toContain('**Severity:** ⚠️ high');
+    expect(body).toContain('**Area:** area/editor (confidence: 90%)');
+    expect(body).not.toMatch(/\n{3,}/);
+  });
+
+  it('leaves out an area below the confidence threshold', () => {
+    const body = render({}, { ...classification, area: { name: 'area/editor', confidence: 0.5 } });
+
+    expect(body).not.toContain('area/editor');
+  });
+
+  it('uses the configured locale and a repository override of it', () => {
+    expect(render({ comments: { locale: 'es' } })).toContain('Resultado del triaje automático');
+
+    const body = render({
+      comments: { locale: 'es' },
+      repositories: [{ owner: 'octo-org', name: 'docs', commentLocale: 'de' }]
+    }, classification, 'octo-org/docs');
+    expect(body).toContain('Ergebnis der automatischen Triage');
+  });
+
+  it('renders custom templates with the section of the primary label', () => {
+    const body = render({
+      comments: {
+        templates: {
+          triage: 'Labeled #{{issueNumber}} as {{primaryLabel}}\n{{#labelSection}}\n{{labelSection}}\n{{/labelSection}}',
+          labels: { bug: 'Please attach logs, {{primaryLabel}} reporters.' }
+        }
+      }
+    });
+
+    expect(body).toBe('Labeled #7 as bug\nPlease attach logs, bug reporters.');
+  });
+
+  it('renders earlier classifications as a collapsed list', () => {
+    const config = createTestConfig();
+    const repo = new RepositoryRegistry(config).getDefault();
+
+    const history = new CommentRenderer(config).renderHistory(repo, [
+      { at: '2026-03-01T10:20:30Z', kind: 'suggestion', label: 'question', confidence: 0.55 }
+    ]);
+
+    expect(history).toBe(
+      '<details>\n<summary>Previous classifications</summary>\n\n' +
+      '- 2026-03-01 10:20 UTC: **question** (suggested), 55% confidence\n\n</details>'
+    );
+  });
+});
+
+describe('getDefaultTemplates', () => {
+  it.each<CommentLocale>(['en', 'es', 'fr', 'de', 'pt-BR'])('has valid %s templates', (locale) => {
+    for (const template of Object.values(getDefaultTemplates(locale))) {
+      expect(() => compileTemplate(template)).not.toThrow();
+    }
+  });
+});
+
+describe('template configuration', () => {
+  it('rejects a malformed template', () => {
+    expect(() => createTestConfig({ comments: { templates: { triage: '{{#area}}unclosed' } } }))
+      .toThrow(ConfigurationError);
+    expect(() => createTestConfig({ comments: { templates: { labels: { bug: '{{/bug}}' } } } }))
+      .toThrow(/Invalid template: Unexpected closing tag \{\{\/bug\}\}/);
+  });
+});
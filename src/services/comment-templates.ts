@@ -0,0 +1,321 @@
+import { compileTemplate, renderTemplate, type TemplateNode, type TemplateView } from '../utils/template.js';
+import type {
+  AppConfig,
+  ClassificationResult,
+  CommentLocale,
+  DuplicateCandidate,
+  RepositoryConfig
+} from '../types/index.js';
+
+// One earlier classification listed under an updated triage comment
+export interface CommentRevision {
+  at: string;
+  kind: 'triage' | 'suggestion';
+  label: string;
+  confidence: number;
+}
+
+export type CommentKind = 'triage' | 'suggestion';
+
+// Translatable pieces of the built-in templates; each is itself a template
+interface LocaleStrings {
+  triageHeading: string;
+  classified: string;
+  confidence: string;
+  reasoning: string;
+  severity: string;
+  area: string;
+  additionalLabels: string;
+  missingInfoHeading: string;
+  missingInfoHint: string;
+  duplicatesHeading: string;
+  duplicate: string;
+  duplicatesHint: string;
+  triageFooter: string;
+  suggestionHeading: string;
+  suggestionNotice: string;
+  suggestedLabel: string;
+  suggestionFooter: string;
+  historySummary: string;
+  revision: string;
+}
+
+const LOCALES: Record<CommentLocale, LocaleStrings> = {
+  en: {
+    triageHeading: '🤖 **Auto-Triage Results**',
+    classified: 'This issue has been automatically classified as: **{{primaryLabel}}**',
+    confidence: 'Confidence: {{confidence}}%',
+    reasoning: '**Reasoning:** {{reasoning}}',
+    severity: '**Severity:** {{severity.emoji}} {{severity.level}}',
+    area: '**Area:** {{area.name}} (confidence: {{area.confidence}}%)',
+    additionalLabels: '**Additional labels suggested:** {{additionalLabelsText}}',
+    missingInfoHeading: '**To help us move this forward, please add:**',
+    missingInfoHint: 'The `{{needsInfoLabel}}` label will be removed once you edit the issue or reply with these details.',
+    duplicatesHeading: '**Possible duplicates:**',
+    duplicate: '[#{{number}}]({{url}}) {{title}} ({{similarity}}% similar)',
+    duplicatesHint: 'If this issue is covered by one of these, please consider closing it in favour of the original.',
+    triageFooter: '*This classification was generated automatically. If you believe this is incorrect, please feel free to update the labels manually.*',
+    suggestionHeading: '🤖 **Auto-Triage Suggestion**',
+    suggestionNotice: "I wasn't confident enough to label this issue automatically, so it has been marked `{{reviewLabel}}` for a maintainer to review.",
+    suggestedLabel: 'Suggested label: **{{primaryLabel}}** (confidence: {{confidence}}%)',
+    suggestionFooter: '*A maintainer will confirm or correct this suggestion.*',
+    historySummary: 'Previous classifications',
+    revision: '{{at}}: **{{label}}**{{#suggested}} (suggested){{/suggested}}, {{confidence}}% confidence'
+  },
+  es: {
+    triageHeading: '🤖 **Resultado del triaje automático**',
+    classified: 'Esta incidencia se ha clasificado automáticamente como: **{{primaryLabel}}**',
+    confidence: 'Confianza: {{confidence}}%',
+    reasoning: '**Razonamiento:** {{reasoning}}',
+    severity: '**Gravedad:** {{severity.emoji}} {{severity.level}}',
+    area: '**Área:** {{area.name}} (confianza: {{area.confidence}}%)',
+    additionalLabels: '**Etiquetas adicionales sugeridas:** {{additionalLabelsText}}',
+    missingInfoHeading: '**Para poder avanzar, añade por favor:**',
+    missingInfoHint: 'La etiqueta `{{needsInfoLabel}}` se quitará cuando edites la incidencia o respondas con estos datos.',
+    duplicatesHeading: '**Posibles duplicados:**',
+    duplicate: '[#{{number}}]({{url}}) {{title}} ({{similarity}}% de similitud)',
+    duplicatesHint: 'Si alguno de ellos ya cubre esta incidencia, considera cerrarla en favor de la original.',
+    triageFooter: '*Esta clasificación se generó automáticamente. Si crees que es incorrecta, puedes cambiar las etiquetas manualmente.*',
+    suggestionHeading: '🤖 **Sugerencia del triaje automático**',
+    suggestionNotice: 'No tenía suficiente confianza para etiquetar esta incidencia automáticamente, así que se ha marcado como `{{reviewLabel}}` para que la revise una persona mantenedora.',
+    suggestedLabel: 'Etiqueta sugerida: **{{primaryLabel}}** (confianza: {{confidence}}%)',
+    suggestionFooter: '*Una persona mantenedora confirmará o corregirá esta sugerencia.*',
+    historySummary: 'Clasificaciones anteriores',
+    revision: '{{at}}: **{{label}}**{{#suggested}} (sugerida){{/suggested}}, confianza del {{confidence}}%'
+  },
+  fr: {
+    triageHeading: '🤖 **Résultat du tri automatique**',
+    classified: 'Ce ticket a été classé automatiquement comme : **{{primaryLabel}}**',
+    confidence: 'Confiance : {{confidence}} %',
+    reasoning: '**Raisonnement :** {{reasoning}}',
+    severity: '**Gravité :** {{severity.emoji}} {{severity.level}}',
+    area: '**Domaine :** {{area.name}} (confiance : {{area.confidence}} %)',
+    additionalLabels: '**Libellés supplémentaires suggérés :** {{additionalLabelsText}}',
+    missingInfoHeading: "**Pour que nous puissions avancer, merci d'ajouter :**",
+    missingInfoHint: 'Le libellé `{{needsInfoLabel}}` sera retiré dès que vous modifierez le ticket ou répondrez avec ces informations.',
+    duplicatesHeading: '**Doublons possibles :**',
+    duplicate: '[#{{number}}]({{url}}) {{title}} ({{similarity}} % de similarité)',
+    duplicatesHint: "Si l'un d'eux couvre déjà ce ticket, pensez à fermer celui-ci au profit de l'original.",
+    triageFooter: "*Cette classification a été générée automatiquement. Si vous pensez qu'elle est incorrecte, n'hésitez pas à modifier les libellés manuellement.*",
+    suggestionHeading: '🤖 **Suggestion du tri automatique**',
+    suggestionNotice: "Je n'étais pas assez sûr de moi pour étiqueter ce ticket automatiquement ; il a donc été marqué `{{reviewLabel}}` pour qu'un mainteneur le vérifie.",
+    suggestedLabel: 'Libellé suggéré : **{{primaryLabel}}** (confiance : {{confidence}} %)',
+    suggestionFooter: '*Un mainteneur confirmera ou corrigera cette suggestion.*',
+    historySummary: 'Classifications précédentes',
+    revision: '{{at}} : **{{label}}**{{#suggested}} (suggéré){{/suggested}}, confiance de {{confidence}} %'
+  },
+  de: {
+    triageHeading: '🤖 **Ergebnis der automatischen Triage**',
+    classified: 'Dieses Issue wurde automatisch klassifiziert als: **{{primaryLabel}}**',
+    confidence: 'Konfidenz: {{confidence}} %',
+    reasoning: '**Begründung:** {{reasoning}}',
+    severity: '**Schweregrad:** {{severity.emoji}} {{severity.level}}',
+    area: '**Bereich:** {{area.name}} (Konfidenz: {{area.confidence}} %)',
+    additionalLabels: '**Zusätzlich vorgeschlagene Labels:** {{additionalLabelsText}}',
+    missingInfoHeading: '**Damit es weitergehen kann, ergänze bitte:**',
+    missingInfoHint: 'Das Label `{{needsInfoLabel}}` wird entfernt, sobald du das Issue bearbeitest oder mit diesen Angaben antwortest.',
+    duplicatesHeading: '**Mögliche Duplikate:**',
+    duplicate: '[#{{number}}]({{url}}) {{title}} ({{similarity}} % ähnlich)',
+    duplicatesHint: 'Falls eines davon dieses Issue bereits abdeckt, schließe es bitte zugunsten des ursprünglichen Issues.',
+    triageFooter: '*Diese Klassifizierung wurde automatisch erstellt. Falls sie nicht stimmt, passe die Labels gerne manuell an.*',
+    suggestionHeading: '🤖 **Vorschlag der automatischen Triage**',
+    suggestionNotice: 'Ich war mir nicht sicher genug, um dieses Issue automatisch zu labeln. Es wurde daher mit `{{reviewLabel}}` markiert und wird vom Maintainer-Team geprüft.',
+    suggestedLabel: 'Vorgeschlagenes Label: **{{primaryLabel}}** (Konfidenz: {{confidence}} %)',
+    suggestionFooter: '*Das Maintainer-Team bestätigt oder korrigiert diesen Vorschlag.*',
+    historySummary: 'Frühere Klassifizierungen',
+    revision: '{{at}}: **{{label}}**{{#suggested}} (vorgeschlagen){{/suggested}}, {{confidence}} % Konfidenz'
+  },
+  'pt-BR': {
+    triageHeading: '🤖 **Resultado da triagem automática**',
+    classified: 'Esta issue foi classificada automaticamente como: **{{primaryLabel}}**',
+    confidence: 'Confiança: {{confidence}}%',
+    reasoning: '**Justificativa:** {{reasoning}}',
+    severity: '**Severidade:** {{severity.emoji}} {{severity.level}}',
+    area: '**Área:** {{area.name}} (confiança: {{area.confidence}}%)',
+    additionalLabels: '**Rótulos adicionais sugeridos:** {{additionalLabelsText}}',
+    missingInfoHeading: '**Para podermos avançar, adicione por favor:**',
+    missingInfoHint: 'O rótulo `{{needsInfoLabel}}` será removido quando você editar a issue ou responder com essas informações.',
+    duplicatesHeading: '**Possíveis duplicatas:**',
+    duplicate: '[#{{number}}]({{url}}) {{title}} ({{similarity}}% de similaridade)',
+    duplicatesHint: 'Se uma delas já cobre esta issue, considere fechá-la em favor da original.',
+    triageFooter: '*Esta classificação foi gerada automaticamente. Se você acha que ela está incorreta, fique à vontade para ajustar os rótulos manualmente.*',
+    suggestionHeading: '🤖 **Sugestão da triagem automática**',
+    suggestionNotice: 'Não tive confiança suficiente para rotular esta issue automaticamente, então ela foi marcada com `{{reviewLabel}}` para revisão por um mantenedor.',
+    suggestedLabel: 'Rótulo sugerido: **{{primaryLabel}}** (confiança: {{confidence}}%)',
+    suggestionFooter: '*Um mantenedor vai confirmar ou corrigir esta sugestão.*',
+    historySummary: 'Classificações anteriores',
+    revision: '{{at}}: **{{label}}**{{#suggested}} (sugerido){{/suggested}}, {{confidence}}% de confiança'
+  }
+};
+
+const SEVERITY_EMOJI = {
+  critical: '🚨',
+  high: '⚠️',
+  medium: '⚡',
+  low: '📝'
+};
+
+// Sections shared by both built-in comments
+function detailSections(strings: LocaleStrings): string {
+  return `{{#reasoning}}
+${strings.reasoning}
+
+{{/reasoning}}
+{{#severity}}
+${strings.severity}
+
+{{/severity}}
+{{#area}}
+${strings.area}
+
+{{/area}}
+{{#additionalLabelsText}}
+${strings.additionalLabels}
+
+{{/additionalLabelsText}}
+{{#hasMissingInfo}}
+${strings.missingInfoHeading}
+{{#missingInfo}}
+- {{.}}
+{{/missingInfo}}
+
+${strings.missingInfoHint}
+
+{{/hasMissingInfo}}
+{{#labelSection}}
+{{labelSection}}
+
+{{/labelSection}}
+{{#hasDuplicates}}
+${strings.duplicatesHeading}
+{{#duplicates}}
+- ${strings.duplicate}
+{{/duplicates}}
+
+${strings.duplicatesHint}
+
+{{/hasDuplicates}}
+`;
+}
+
+// The built-in templates in a locale, also a starting point for custom ones
+export function getDefaultTemplates(locale: CommentLocale): Record<CommentKind | 'history', string> {
+  const strings = LOCALES[locale];
+
+  return {
+    triage: `${strings.triageHeading}
+
+${strings.classified}
+${strings.confidence}
+
+${detailSections(strings)}---
+${strings.triageFooter}
+`,
+    suggestion: `${strings.suggestionHeading}
+
+${strings.suggestionNotice}
+
+${strings.suggestedLabel}
+
+${detailSections(strings)}---
+${strings.suggestionFooter}
+`,
+    history: `<details>
+<summary>${strings.historySummary}</summary>
+
+{{#revisions}}
+- ${strings.revision}
+{{/revisions}}
+
+</details>
+`
+  };
+}
+
+// Renders triage comments from the repository's templates, falling back to the
+// built-in templates in the repository's locale
+export class CommentRenderer {
+  private readonly config: AppConfig;
+  private readonly compiled = new Map<string, TemplateNode[]>();
+
+  constructor(config: AppConfig) {
+    this.config = config;
+  }
+
+  public render(
+    repo: RepositoryConfig,
+    classification: ClassificationResult,
+    options: { kind?: CommentKind; duplicates?: DuplicateCandidate[]; issueNumber?: number } = {}
+  ): string {
+    const kind = options.kind ?? 'triage';
+    const view = this.buildView(repo, classification, options.duplicates ?? [], options.issueNumber);
+
+    // The label's own section is rendered first so it can use the same variables
+    const labelTemplate = repo.commentTemplates.labels[classification.primaryLabel];
+    if (labelTemplate) {
+      view.labelSection = this.renderCached(labelTemplate, view).trim();
+    }
+
+    const template = repo.commentTemplates[kind] ?? getDefaultTemplates(repo.commentLocale)[kind];
+    return this.renderCached(template, view).trim();
+  }
+
+  // Earlier classifications, newest first, as a collapsed list
+  public renderHistory(repo: RepositoryConfig, revisions: CommentRevision[]): string {
+    return this.renderCached(getDefaultTemplates(repo.commentLocale).history, {
+      revisions: revisions.map(revision => ({
+        at: `${revision.at.slice(0, 16).replace('T', ' ')} UTC`,
+        label: revision.label,
+        suggested: revision.kind === 'suggestion',
+        confidence: Math.round(revision.confidence * 100)
+      }))
+    }).trim();
+  }
+
+  private buildView(
+    repo: RepositoryConfig,
+    classification: ClassificationResult,
+    duplicates: DuplicateCandidate[],
+    issueNumber?: number
+  ): TemplateView {
+    const { primaryLabel, confidence, reasoning, severity, area, additionalLabels = [] } = classification;
+
+    return {
+      repository: repo.fullName,
+      issueNumber,
+      primaryLabel,
+      confidence: Math.round(confidence * 100),
+      reasoning,
+      severity: severity ? { level: severity, emoji: SEVERITY_EMOJI[severity] } : undefined,
+      // Only areas confident enough to have been applied are mentioned
+      area: area && area.confidence >= this.config.triage.areas.confidenceThreshold ?
+        { name: area.name, confidence: Math.round(area.confidence * 100) } :
+        undefined,
+      additionalLabels,
+      additionalLabelsText: additionalLabels.join(', '),
+      reviewLabel: this.config.triage.lowConfidence.label,
+      hasMissingInfo: Boolean(classification.missingInfo?.length),
+      missingInfo: classification.missingInfo ?? [],
+      needsInfoLabel: this.config.needsInfo.label,
+      hasDuplicates: duplicates.length > 0,
+      duplicates: duplicates.map(duplicate => ({
+        number: duplicate.issueNumber,
+        title: duplicate.title,
+        url: duplicate.url,
+        similarity: Math.round(duplicate.similarity * 100)
+      })),
+      labelSection: ''
+    };
+  }
+
+  private renderCached(template: string, view: TemplateView): string {
+    let nodes = this.compiled.get(template);
+    if (!nodes) {
+      nodes = compileTemplate(template);
+      this.compiled.set(template, nodes);
+    }
+    return renderTemplate(nodes, view);
+  }
+}
+
+export default CommentRenderer;
@@ -0,0 +1,113 @@
+import crypto from 'crypto';
+import { log } from '../utils/logger.js';
+import { getTriageStore, type TriageStore } from '../storage/index.js';
+import type { AppConfig, GitHubIssue } from '../types/index.js';
+
+// Hash of the parts of an issue that affect classification. Cosmetic edits
+// (whitespace, line endings, letter case, template HTML comments) hash the same.
+export function computeIssueContentHash(issue: Pick<GitHubIssue, 'title' | 'body'>): string {
+  const normalize = (text: string) => text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+
+  return crypto
+    .createHash('sha256')
+    .update(`${normalize(issue.title)}\n${normalize(issue.body ?? '')}`)
+    .digest('hex');
+}
+
+// Suppresses redelivered webhooks and re-triage of unchanged issue content
+export class WebhookDeduplicator {
+  private readonly ttlMs: number;
+  private readonly store: TriageStore;
+
+  constructor(config: AppConfig, store: TriageStore = getTriageStore(config)) {
+    this.ttlMs = config.dedup.ttlSeconds * 1000;
+    this.store = store;
+  }
+
+  // Returns false if this X-GitHub-Delivery ID was already accepted within the TTL
+  public async claimDelivery(deliveryId: string | undefined, correlationId: string): Promise<boolean> {
+    if (!deliveryId || this.ttlMs === 0) {
+      return true;
+    }
+
+    const claimed = await this.store.claimDelivery(deliveryId, this.ttlMs);
+
+    if (!claimed) {
+      log.info('Duplicate webhook delivery ignored', {
+        correlationId,
+        deliveryId,
+        component: 'webhook-deduplicator'
+      });
+    }
+
+    return claimed;
+  }
+
+  // Undo a claim when the delivery couldn't be processed, so GitHub's redelivery isn't dropped
+  public async releaseDelivery(deliveryId: string | undefined, correlationId: string): Promise<void> {
+    if (!deliveryId || this.ttlMs === 0) {
+      return;
+    }
+
+    try {
+      await this.store.releaseDelivery(deliveryId);
+    } catch (error) {
+      log.warn('Failed to release webhook delivery claim', {
+        correlationId,
+        deliveryId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'webhook-deduplicator'
+      });
+    }
+  }
+
+  // True if the issue was already triaged with identical content within the TTL
+  public async isUnchanged(repository: string, issue: GitHubIssue, correlationId: string): Promise<boolean> {
+    if (this.ttlMs === 0) {
+      return false;
+    }
+
+    const contentHash = computeIssueContentHash(issue);
+    const since = new Date(Date.now() - this.ttlMs).toISOString();
+    const previous = await this.store.findRecentTriageByContent(repository, issue.number, contentHash, since);
+
+    if (previous) {
+      log.info('Issue content unchanged since last triage, skipping', {
+        correlationId,
+        repository,
+        issueNumber: issue.number,
+        previousCorrelationId: previous.correlationId,
+        component: 'webhook-deduplicator'
+      });
+    }
+
+    return Boolean(previous);
+  }
+
+  // True if a maintainer has replaced the agent's label on this issue
+  public async hasMaintainerCorrection(
+    repository: string,
+    issueNumber: number,
+    correlationId: string
+  ): Promise<boolean> {
+    const [correction] = await this.store.listFeedback({ repository, issueNumber, limit: 1 });
+
+    if (correction) {
+      log.info('Issue labels were corrected by a maintainer, skipping re-triage', {
+        correlationId,
+        repository,
+        issueNumber,
+        correctedLabel: correction.correctedLabel,
+        component: 'webhook-deduplicator'
+      });
+    }
+
+    return Boolean(correction);
+  }
+}
+
+export default WebhookDeduplicator;
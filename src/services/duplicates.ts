@@ -0,0 +1,73 @@
+import { log } from '../utils/logger.js';
+import { TfIdfIndex } from './similarity.js';
+import type IssueIndex from './issue-index.js';
+import type { AppConfig, DuplicateCandidate, RepositoryConfig } from '../types/index.js';
+
+// Finds open issues that look like the one being triaged, using TF-IDF
+// cosine similarity over the locally indexed issues
+export class DuplicateDetector {
+  private readonly config: AppConfig;
+  private readonly issueIndex: IssueIndex;
+
+  constructor(config: AppConfig, services: { issueIndex: IssueIndex }) {
+    this.config = config;
+    this.issueIndex = services.issueIndex;
+  }
+
+  public async findDuplicates(
+    repo: RepositoryConfig,
+    issue: { number: number; title: string; body: string },
+    correlationId: string
+  ): Promise<DuplicateCandidate[]> {
+    const { enabled, threshold, maxCandidates } = this.config.duplicates;
+    if (!enabled || maxCandidates === 0) {
+      return [];
+    }
+
+    try {
+      // Only earlier issues can be the original; a later one would be the duplicate
+      const candidates = (await this.issueIndex.getIssues(repo, correlationId)).filter(candidate =>
+        candidate.state === 'open' && candidate.issueNumber < issue.number
+      );
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const index = new TfIdfIndex(candidates.map(candidate => ({
+        item: candidate,
+        text: `${candidate.title} ${candidate.title} ${candidate.body}`
+      })));
+
+      const duplicates = index
+        .search(`${issue.title} ${issue.title} ${issue.body}`, maxCandidates, threshold)
+        .map(({ item, score }) => ({
+          issueNumber: item.issueNumber,
+          title: item.title,
+          url: item.url,
+          similarity: Math.round(score * 100) / 100
+        }));
+
+      if (duplicates.length > 0) {
+        log.info('Possible duplicate issues found', {
+          correlationId,
+          repository: repo.fullName,
+          issueNumber: issue.number,
+          duplicates: duplicates.map(duplicate => duplicate.issueNumber),
+          component: 'duplicate-detector'
+        });
+      }
+
+      return duplicates;
+    } catch (error) {
+      log.warn('Duplicate detection failed, continuing without it', {
+        correlationId,
+        repository: repo.fullName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'duplicate-detector'
+      });
+      return [];
+    }
+  }
+}
+
+export default DuplicateDetector;
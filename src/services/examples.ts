@@ -0,0 +1,130 @@
+import { log } from '../utils/logger.js';
+import { getTriageStore, type TriageStore } from '../storage/index.js';
+import { Bm25Index, estimateTokens } from './similarity.js';
+import { formatExample } from './classifier.js';
+import type IssueIndex from './issue-index.js';
+import type {
+  AppConfig,
+  ClassificationExample,
+  RepositoryConfig
+} from '../types/index.js';
+
+// Picks few-shot examples for the classification prompt: maintainer corrections
+// first, then the most similar already-labeled issues, within a token budget
+export class ExampleSelector {
+  private readonly config: AppConfig;
+  private readonly issueIndex: IssueIndex;
+  private readonly store: TriageStore;
+
+  constructor(config: AppConfig, services: { issueIndex: IssueIndex; store?: TriageStore }) {
+    this.config = config;
+    this.issueIndex = services.issueIndex;
+    this.store = services.store ?? getTriageStore(config);
+  }
+
+  public async selectExamples(
+    repo: RepositoryConfig,
+    issue: { number: number; title: string; body: string },
+    correlationId: string
+  ): Promise<ClassificationExample[]> {
+    const [corrections, similar] = await Promise.all([
+      this.loadCorrections(repo, correlationId),
+      this.findSimilar(repo, issue, correlationId)
+    ]);
+
+    const seen = new Set<number>([issue.number]);
+    const candidates = [...corrections, ...similar].filter(example => {
+      if (example.issueNumber === undefined) {
+        return true;
+      }
+      if (seen.has(example.issueNumber)) {
+        return false;
+      }
+      seen.add(example.issueNumber);
+      return true;
+    });
+
+    return this.fitBudget(candidates);
+  }
+
+  // Recent maintainer corrections for the repository
+  private async loadCorrections(repo: RepositoryConfig, correlationId: string): Promise<ClassificationExample[]> {
+    const { enabled, maxExamples } = this.config.feedback;
+    if (!enabled || maxExamples === 0) {
+      return [];
+    }
+
+    try {
+      const feedback = await this.store.listFeedback({ repository: repo.fullName, limit: maxExamples });
+      return feedback
+        .filter(entry => repo.labels.includes(entry.correctedLabel))
+        .map(entry => ({
+          issueNumber: entry.issueNumber,
+          title: entry.issueTitle,
+          body: entry.issueBody,
+          label: entry.correctedLabel,
+          rejectedLabel: entry.predictedLabel
+        }));
+    } catch (error) {
+      log.warn('Failed to load feedback examples, classifying without them', {
+        correlationId,
+        repository: repo.fullName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'example-selector'
+      });
+      return [];
+    }
+  }
+
+  // Labeled issues ranked by BM25 similarity to the issue being triaged
+  private async findSimilar(
+    repo: RepositoryConfig,
+    issue: { number: number; title: string; body: string },
+    correlationId: string
+  ): Promise<ClassificationExample[]> {
+    const { maxExamples } = this.config.fewShot;
+    if (maxExamples === 0) {
+      return [];
+    }
+
+    const corpus = (await this.issueIndex.getIssues(repo, correlationId)).filter(candidate =>
+      candidate.issueNumber !== issue.number &&
+      candidate.labels.some(label => repo.labels.includes(label))
+    );
+    if (corpus.length === 0) {
+      return [];
+    }
+
+    const index = new Bm25Index(corpus.map(candidate => ({
+      item: candidate,
+      // Titles are the densest signal, so count them twice
+      text: `${candidate.title} ${candidate.title} ${candidate.body}`
+    })));
+
+    return index.search(`${issue.title} ${issue.title} ${issue.body}`, maxExamples).map(({ item }) => ({
+      issueNumber: item.issueNumber,
+      title: item.title,
+      body: item.body,
+      label: repo.labels.find(label => item.labels.includes(label))!
+    }));
+  }
+
+  // Keep examples in priority order, skipping any that would overrun the token budget
+  private fitBudget(candidates: ClassificationExample[]): ClassificationExample[] {
+    const selected: ClassificationExample[] = [];
+    let used = 0;
+
+    for (const example of candidates) {
+      const cost = estimateTokens(formatExample(example, selected.length)) + 1;
+      if (used + cost > this.config.fewShot.tokenBudget) {
+        continue;
+      }
+      selected.push(example);
+      used += cost;
+    }
+
+    return selected;
+  }
+}
+
+export default ExampleSelector;
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { GitHubAppAuthProvider, TokenAuthProvider, createGitHubAuthProvider } from './github-auth.js';
+import RepositoryRegistry from './repositories.js';
+import { GitHubApiError, GitHubAuthError } from '../utils/errors.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const PEM = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+const API_URL = 'https://api.github.test';
+const HOUR_MS = 60 * 60 * 1000;
+
+type FetchMock = jest.Mock<typeof fetch>;
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+const tokenResponse = (token: string, expiresInMs = HOUR_MS) =>
+  json(201, { token, expires_at: new Date(Date.now() + expiresInMs).toISOString() });
+
+function createProvider(installationId?: number) {
+  const config = createTestConfig();
+  const app = { appId: 4242, privateKey: PEM, installationId };
+  return new GitHubAppAuthProvider(app, API_URL, new RepositoryRegistry(config));
+}
+
+function decodeJwt(jwt: string) {
+  const [header, payload, signature] = jwt.split('.');
+  return {
+    header: JSON.parse(Buffer.from(header, 'base64url').toString()),
+    payload: JSON.parse(Buffer.from(payload, 'base64url').toString()),
+    verified: crypto.verify('sha256', Buffer.from(`${header}.${payload}`), publicKey, Buffer.from(signature, 'base64url'))
+  };
+}
+
+describe('GitHubAppAuthProvider', () => {
+  let fetchMock: FetchMock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn<typeof fetch>();
+    jest.spyOn(globalThis, 'fetch').mockImplementation(fetchMock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const requestOf = (call: number) => {
+    const [url, init] = fetchMock.mock.calls[call];
+    return { url: String(url), method: init?.method, headers: init?.headers as Record<string, string> };
+  };
+
+  it('signs a short-lived RS256 app JWT with a backdated issue time', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    const { header, payload, verified } = decodeJwt(createProvider().createAppJwt(now));
+
+    expect(verified).toBe(true);
+    expect(header).toEqual({ alg: 'RS256', typ: 'JWT' });
+    expect(payload.iss).toBe('4242');
+    expect(payload.iat).toBe(now / 1000 - 60);
+    expect(payload.exp - payload.iat).toBeLessThanOrEqual(10 * 60);
+  });
+
+  it('exchanges the app JWT for an installation token', async () => {
+    fetchMock.mockResolvedValueOnce(tokenResponse('ghs_first'));
+
+    await expect(createProvider(99).getToken('octo-org/octo-repo', 'test')).resolves.toBe('ghs_first');
+
+    const { url, method, headers } = requestOf(0);
+    expect(url).toBe(`${API_URL}/app/installations/99/access_tokens`);
+    expect(method).toBe('POST');
+    expect(decodeJwt(headers.Authorization.replace('Bearer ', '')).verified).toBe(true);
+  });
+
+  it('reuses the installation token until it is about to expire', async () => {
+    const provider = createProvider(99);
+    fetchMock
+      .mockResolvedValueOnce(tokenResponse('ghs_first'))
+      .mockResolvedValueOnce(tokenResponse('ghs_second', 2 * 60 * 1000))
+      .mockResolvedValueOnce(tokenResponse('ghs_third'));
+
+    expect(await provider.getToken('octo-org/octo-repo', 'test')).toBe('ghs_first');
+    expect(await provider.getToken('octo-org/octo-repo', 'test')).toBe('ghs_first');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // A token expiring within the refresh margin is replaced on its next use
+    const other = createProvider(99);
+    fetchMock.mockClear();
+    expect(await other.getToken('octo-org/octo-repo', 'test')).toBe('ghs_second');
+    expect(await other.getToken('octo-org/octo-repo', 'test')).toBe('ghs_third');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one token request between concurrent callers', async () => {
+    const provider = createProvider(99);
+    fetchMock.mockResolvedValueOnce(tokenResponse('ghs_shared'));
+
+    const tokens = await Promise.all([1, 2, 3].map(() => provider.getToken('octo-org/octo-repo', 'test')));
+
+    expect(tokens).toEqual(['ghs_shared', 'ghs_shared', 'ghs_shared']);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('looks up the installation when none is known, and prefers the one a delivery came from', async () => {
+    const provider = createProvider();
+    fetchMock
+      .mockResolvedValueOnce(json(200, { id: 7 }))
+      .mockResolvedValueOnce(tokenResponse('ghs_looked_up'))
+      .mockResolvedValueOnce(tokenResponse('ghs_delivered'));
+
+    expect(await provider.getToken('octo-org/octo-repo', 'test')).toBe('ghs_looked_up');
+    expect(requestOf(0)).toMatchObject({ url: `${API_URL}/repos/octo-org/octo-repo/installation`, method: 'GET' });
+    expect(requestOf(1).url).toBe(`${API_URL}/app/installations/7/access_tokens`);
+
+    provider.rememberInstallation('Octo-Org/Octo-Repo', 8);
+    expect(await provider.getToken('octo-org/octo-repo', 'test')).toBe('ghs_delivered');
+    expect(requestOf(2).url).toBe(`${API_URL}/app/installations/8/access_tokens`);
+  });
+
+  it('reports a rejected app JWT as an authentication error', async () => {
+    fetchMock.mockResolvedValueOnce(json(401, { message: 'A JSON web token could not be decoded' }));
+
+    await expect(createProvider(99).getToken('octo-org/octo-repo', 'test')).rejects.toBeInstanceOf(GitHubAuthError);
+  });
+
+  it('surfaces the API message of other failures', async () => {
+    fetchMock.mockResolvedValueOnce(json(404, { message: 'Not Found' }));
+
+    const error = await createProvider(99).getToken('octo-org/octo-repo', 'test').catch(e => e);
+    expect(error).toBeInstanceOf(GitHubApiError);
+    expect(error).toMatchObject({ message: 'GitHub API Error: Not Found', apiStatusCode: 404 });
+  });
+
+  it('does not cache a failed token request', async () => {
+    const provider = createProvider(99);
+    fetchMock
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(tokenResponse('ghs_retry'));
+
+    await expect(provider.getToken('octo-org/octo-repo', 'test')).rejects.toBeInstanceOf(GitHubApiError);
+    await expect(provider.getToken('octo-org/octo-repo', 'test')).resolves.toBe('ghs_retry');
+  });
+});
+
+describe('createGitHubAuthProvider', () => {
+  it('uses the personal access token unless app credentials are configured', () => {
+    const config = createTestConfig();
+    expect(createGitHubAuthProvider(config, new RepositoryRegistry(config))).toBeInstanceOf(TokenAuthProvider);
+
+    const appConfig = createTestConfig({
+      github: { ...config.github, app: { appId: 1, privateKey: PEM } }
+    });
+    expect(createGitHubAuthProvider(appConfig, new RepositoryRegistry(appConfig))).toBeInstanceOf(GitHubAppAuthProvider);
+  });
+});
@@ -0,0 +1,225 @@
+import crypto from 'crypto';
+import { log } from '../utils/logger.js';
+import {
+  GitHubApiError,
+  GitHubAuthError,
+  TimeoutError
+} from '../utils/errors.js';
+import type { AppConfig } from '../types/index.js';
+import type RepositoryRegistry from './repositories.js';
+
+// Refresh installation tokens this long before GitHub expires them
+const TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// App JWTs may live at most 10 minutes; backdate iat to tolerate clock drift
+const APP_JWT_TTL_SECONDS = 9 * 60;
+const APP_JWT_CLOCK_DRIFT_SECONDS = 60;
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Supplies the bearer token used for a request against a repository
+export interface GitHubAuthProvider {
+  readonly type: 'token' | 'app';
+  getToken(repository: string, correlationId: string): Promise<string>;
+  // Record the installation a webhook delivery came from
+  rememberInstallation(repository: string, installationId: number): void;
+}
+
+// Personal access token (classic or fine-grained) authentication
+export class TokenAuthProvider implements GitHubAuthProvider {
+  readonly type = 'token' as const;
+
+  constructor(private readonly token: string) {}
+
+  public async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  public rememberInstallation(): void {
+    // Installations are irrelevant for token authentication
+  }
+}
+
+// GitHub App authentication using short-lived installation access tokens
+export class GitHubAppAuthProvider implements GitHubAuthProvider {
+  readonly type = 'app' as const;
+
+  private readonly appId: string;
+  private readonly privateKey: crypto.KeyObject;
+  private readonly defaultInstallationId?: number;
+  private readonly baseUrl: string;
+  private readonly timeout = 30000;
+  private readonly userAgent = 'github-triage-agent/1.0.0';
+
+  private readonly tokens = new Map<number, InstallationToken>();
+  private readonly pendingTokens = new Map<number, Promise<InstallationToken>>();
+  private readonly installations = new Map<string, number>();
+
+  constructor(
+    app: NonNullable<AppConfig['github']['app']>,
+    baseUrl: string,
+    private readonly repositories: RepositoryRegistry
+  ) {
+    this.appId = String(app.appId);
+    this.privateKey = crypto.createPrivateKey(app.privateKey);
+    this.defaultInstallationId = app.installationId;
+    this.baseUrl = baseUrl;
+  }
+
+  // Sign a JWT identifying the app itself (RS256)
+  public createAppJwt(now: number = Date.now()): string {
+    const issuedAt = Math.floor(now / 1000) - APP_JWT_CLOCK_DRIFT_SECONDS;
+    const header = { alg: 'RS256', typ: 'JWT' };
+    const payload = {
+      iat: issuedAt,
+      exp: issuedAt + APP_JWT_TTL_SECONDS,
+      iss: this.appId
+    };
+
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const unsigned = `${encode(header)}.${encode(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(unsigned), this.privateKey).toString('base64url');
+
+    return `${unsigned}.${signature}`;
+  }
+
+  public rememberInstallation(repository: string, installationId: number): void {
+    this.installations.set(repository.toLowerCase(), installationId);
+  }
+
+  public async getToken(repository: string, correlationId: string): Promise<string> {
+    const installationId = await this.resolveInstallationId(repository, correlationId);
+    const { token } = await this.getInstallationToken(installationId, correlationId);
+    return token;
+  }
+
+  // Return a cached installation token, refreshing it shortly before expiry
+  public async getInstallationToken(installationId: number, correlationId: string): Promise<InstallationToken> {
+    const cached = this.tokens.get(installationId);
+    if (cached && cached.expiresAt - TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    // Share a single refresh between concurrent callers
+    let pending = this.pendingTokens.get(installationId);
+    if (!pending) {
+      pending = this.createInstallationToken(installationId, correlationId)
+        .finally(() => this.pendingTokens.delete(installationId));
+      this.pendingTokens.set(installationId, pending);
+    }
+
+    return pending;
+  }
+
+  // Installation order: webhook delivery, per-repository config, app default, API lookup
+  private async resolveInstallationId(repository: string, correlationId: string): Promise<number> {
+    const key = repository.toLowerCase();
+    const known = this.installations.get(key)
+      ?? this.repositories.resolve(repository)?.installationId
+      ?? this.defaultInstallationId;
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    const { owner, name } = this.repositories.get(repository);
+    const data = await this.appRequest<{ id: number }>(
+      `/repos/${owner}/${name}/installation`,
+      'GET',
+      correlationId
+    );
+
+    this.installations.set(key, data.id);
+    return data.id;
+  }
+
+  private async createInstallationToken(installationId: number, correlationId: string): Promise<InstallationToken> {
+    const data = await this.appRequest<{ token: string; expires_at: string }>(
+      `/app/installations/${installationId}/access_tokens`,
+      'POST',
+      correlationId
+    );
+
+    const token: InstallationToken = {
+      token: data.token,
+      expiresAt: Date.parse(data.expires_at)
+    };
+    this.tokens.set(installationId, token);
+
+    log.debug('GitHub App installation token issued', {
+      correlationId,
+      installationId,
+      expiresAt: data.expires_at,
+      component: 'github-auth'
+    });
+
+    return token;
+  }
+
+  // Request authenticated as the app (JWT) rather than an installation
+  private async appRequest<T>(endpoint: string, method: string, correlationId: string): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.baseUrl}${endpoint}`, {
+        method,
+        headers: {
+          'Authorization': `Bearer ${this.createAppJwt()}`,
+          'Accept': 'application/vnd.github.v3+json',
+          'User-Agent': this.userAgent
+        },
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (response.status === 401) {
+        throw new GitHubAuthError('GitHub App authentication failed', { correlationId });
+      }
+
+      if (!response.ok) {
+        let errorMessage = `HTTP ${response.status}`;
+
+        try {
+          const errorData = await response.json();
+          errorMessage = errorData.message || errorMessage;
+        } catch {
+          // Ignore JSON parsing errors for error responses
+        }
+
+        throw new GitHubApiError(errorMessage, response.status, { correlationId, endpoint });
+      }
+
+      return await response.json() as T;
+
+    } catch (error) {
+      clearTimeout(timeoutId);
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new TimeoutError('GitHub App token request', this.timeout, { correlationId });
+      }
+
+      if (error instanceof GitHubApiError || error instanceof GitHubAuthError) {
+        throw error;
+      }
+
+      throw new GitHubApiError(
+        `App request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        { correlationId }
+      );
+    }
+  }
+}
+
+// Build the auth provider matching the configured credentials
+export function createGitHubAuthProvider(config: AppConfig, repositories: RepositoryRegistry): GitHubAuthProvider {
+  if (config.github.app) {
+    return new GitHubAppAuthProvider(config.github.app, config.github.apiUrl, repositories);
+  }
+  return new TokenAuthProvider(config.github.token!);
+}
@@ -0,0 +1,152 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import GitHubClient, { type GitHubComment } from './github.js';
+import RepositoryRegistry from './repositories.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type { AppConfig, ClassificationResult } from '../types/index.js';
+
+const TRIAGE_MARKER = '<!-- github-triage-agent:triage-comment -->';
+const COMMENTS_URL = '/repos/octo-org/octo-repo/issues/1347/comments';
+
+const classification: ClassificationResult = {
+  primaryLabel: 'bug',
+  confidence: 0.92,
+  reasoning: 'The editor crashes on save.'
+};
+
+const comment = (id: number, login: string, body: string, appId?: number): GitHubComment => ({
+  id,
+  body,
+  user: { login, type: appId ? 'Bot' : 'User' },
+  performed_via_github_app: appId ? { id: appId, slug: 'triage-agent' } : null,
+  created_at: `2026-01-0${id}T00:00:00Z`,
+  updated_at: `2026-01-0${id}T00:00:00Z`
+});
+
+const json = (status: number, body: unknown) => new Response(JSON.stringify(body), {
+  status,
+  headers: { 'Content-Type': 'application/json' }
+});
+
+describe('GitHubClient triage comments', () => {
+  let fetchMock: jest.Mock<typeof fetch>;
+
+  // Serves the issue's comments and the agent's credentials; records everything else
+  const serve = (comments: GitHubComment[]) => {
+    fetchMock.mockImplementation(async (input, init) => {
+      const url = new URL(String(input));
+      if (url.pathname === '/user') {
+        return json(200, { login: 'triage-bot' });
+      }
+      if (url.pathname.endsWith('/access_tokens')) {
+        return json(201, { token: 'ghs_test', expires_at: new Date(Date.now() + 3600000).toISOString() });
+      }
+      if (url.pathname === COMMENTS_URL && (init?.method ?? 'GET') === 'GET') {
+        return json(200, comments);
+      }
+      return json(200, { id: 99 });
+    });
+  };
+
+  const writes = () => fetchMock.mock.calls
+    .filter(([, init]) => init?.method && init.method !== 'GET')
+    .map(([input, init]) => `${init!.method} ${new URL(String(input)).pathname}`);
+
+  const createClient = (config: AppConfig = createTestConfig()) =>
+    new GitHubClient(config, new RepositoryRegistry(config));
+
+  beforeEach(() => {
+    fetchMock = jest.fn<typeof fetch>();
+    jest.spyOn(globalThis, 'fetch').mockImplementation(fetchMock);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("updates the token owner's previous triage comment", async () => {
+    serve([
+      comment(1, 'triage-bot', `${TRIAGE_MARKER}\nLabeled as enhancement`),
+      comment(2, 'monalisa', 'Thanks!')
+    ]);
+
+    const action = await createClient().postCommentToIssue('octo-org/octo-repo', 1347, classification, 'test');
+
+    expect(action).toBe('updated');
+    expect(writes()).toEqual(['PATCH /repos/octo-org/octo-repo/issues/comments/1']);
+  });
+
+  it('ignores the marker in comments posted by anyone else', async () => {
+    serve([
+      comment(1, 'triage-bot', `${TRIAGE_MARKER}\nLabeled as enhancement`),
+      comment(2, 'mallory', `${TRIAGE_MARKER}\nQuoting the bot`)
+    ]);
+
+    await createClient().postCommentToIssue('octo-org/octo-repo', 1347, classification, 'test');
+
+    expect(writes()).toEqual(['PATCH /repos/octo-org/octo-repo/issues/comments/1']);
+  });
+
+  it('posts a new comment when only someone else used the marker', async () => {
+    serve([comment(1, 'mallory', `${TRIAGE_MARKER}\nNot the bot`)]);
+
+    const action = await createClient().postCommentToIssue('octo-org/octo-repo', 1347, classification, 'test');
+
+    expect(action).toBe('created');
+    expect(writes()).toEqual([`POST ${COMMENTS_URL}`]);
+  });
+
+  it("recognizes the GitHub App's comments by the app that posted them", async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const base = createTestConfig();
+    const config = createTestConfig({
+      github: {
+        ...base.github,
+        app: { appId: 4242, installationId: 7, privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString() }
+      }
+    });
+    serve([
+      comment(1, 'triage-agent[bot]', `${TRIAGE_MARKER}\nLabeled as enhancement`, 4242),
+      comment(2, 'other-app[bot]', `${TRIAGE_MARKER}\nAnother app`, 1)
+    ]);
+
+    await createClient(config).postCommentToIssue('octo-org/octo-repo', 1347, classification, 'test');
+
+    expect(writes()).toEqual([
+      'POST /app/installations/7/access_tokens',
+      'PATCH /repos/octo-org/octo-repo/issues/comments/1'
+    ]);
+  });
+});
+
+describe('GitHubClient issue listing', () => {
+  const item = (number: number, pullRequest = false) => ({
+    number,
+    title: `#${number}`,
+    ...(pullRequest ? { pull_request: { url: `https://api.github.com/pulls/${number}` } } : {})
+  });
+
+  const listPage = async (items: object[], perPage: number) => {
+    jest.spyOn(globalThis, 'fetch').mockImplementation(async () => json(200, items));
+    const config = createTestConfig();
+    return new GitHubClient(config, new RepositoryRegistry(config))
+      .listIssuePage('octo-org/octo-repo', { perPage, page: 1 }, 'test');
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('drops pull requests but reports more pages after a full page of them', async () => {
+    const page = await listPage([item(1, true), item(2, true)], 2);
+
+    expect(page).toEqual({ issues: [], hasMore: true });
+  });
+
+  it('reports the end of the listing after a short page', async () => {
+    const page = await listPage([item(1), item(2, true)], 3);
+
+    expect(page.issues.map(issue => issue.number)).toEqual([1]);
+    expect(page.hasMore).toBe(false);
+  });
+});
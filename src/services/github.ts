@@ -1,4 +1,3 @@
-import { config } from '../config/index.js';
 import { log, triageLog, performanceLog } from '../utils/logger.js';
 import { 
   GitHubApiError, 
@@ -7,29 +6,124 @@ import {
   TimeoutError,
   ValidationError 
 } from '../utils/errors.js';
+import RepositoryRegistry from './repositories.js';
+import { createGitHubAuthProvider, type GitHubAuthProvider } from './github-auth.js';
+import { withRetry } from '../utils/retry.js';
+import { getCircuitBreaker, type CircuitBreaker } from '../utils/circuit-breaker.js';
+import CommentRenderer, { type CommentKind, type CommentRevision } from './comment-templates.js';
 import type { 
+  AppConfig,
   ClassificationResult, 
+  CommentAction,
+  DuplicateCandidate,
+  GitHubIssue,
   LogContext 
 } from '../types/index.js';
 
 // GitHub API types
-interface GitHubLabel {
+export interface GitHubLabel {
   id: number;
   name: string;
   color: string;
-  description?: string;
+  description?: string | null;
 }
 
-interface GitHubComment {
+export interface GitHubComment {
   id: number;
   body: string;
   user: {
     login: string;
+    type?: string;
   };
+  // Set when a GitHub App posted the comment with an installation token
+  performed_via_github_app?: {
+    id: number;
+    slug?: string;
+  } | null;
   created_at: string;
   updated_at: string;
 }
 
+// The account the agent posts as: its GitHub App, or the owner of its access token
+export type AgentIdentity =
+  | { type: 'app'; appId: number }
+  | { type: 'user'; login: string };
+
+export interface GitHubIssueEvent {
+  id: number;
+  // e.g. "labeled", "unlabeled", "closed", "reopened"
+  event: string;
+  actor: {
+    login: string;
+  } | null;
+  // Set on "labeled" and "unlabeled" events
+  label?: {
+    name: string;
+  };
+  created_at: string;
+}
+
+export interface ListIssuesOptions {
+  state?: 'open' | 'closed' | 'all';
+  labels?: string[];
+  assignee?: string;
+  since?: string;
+  sort?: 'created' | 'updated' | 'comments';
+  direction?: 'asc' | 'desc';
+  perPage?: number;
+  page?: number;
+}
+
+// One page of issues with its pull requests removed
+export interface IssuePage {
+  issues: GitHubIssue[];
+  // Whether GitHub returned a full page, pull requests included, so another may follow
+  hasMore: boolean;
+}
+
+// Hidden markers identifying the agent's triage comment and carrying its revision history
+const COMMENT_MARKER = '<!-- github-triage-agent:triage-comment -->';
+const REVISIONS_PATTERN = /<!-- github-triage-agent:revisions (.*?) -->/;
+
+// Every hidden marker the agent writes starts with this
+const MARKER_PREFIX = '<!-- github-triage-agent:';
+
+
+// Whether a comment was posted with the agent's own credentials
+export function isAgentAuthored(
+  comment: Pick<GitHubComment, 'user' | 'performed_via_github_app'>,
+  identity: AgentIdentity
+): boolean {
+  return identity.type === 'app' ?
+    comment.performed_via_github_app?.id === identity.appId :
+    comment.user.login.toLowerCase() === identity.login.toLowerCase();
+}
+
+// Whether the agent wrote a comment. With a personal access token the agent posts as
+// a regular user, possibly the issue author, so the author alone isn't enough; and
+// anyone can copy a marker, so neither is the marker alone.
+export function isAgentComment(
+  comment: Pick<GitHubComment, 'user' | 'performed_via_github_app'> & { body?: string | null },
+  identity: AgentIdentity
+): boolean {
+  return (comment.body?.includes(MARKER_PREFIX) ?? false) && isAgentAuthored(comment, identity);
+}
+
+// Read the revision history embedded in a previous triage comment
+function parseRevisions(body: string): CommentRevision[] {
+  const match = body.match(REVISIONS_PATTERN);
+  if (!match) {
+    return [];
+  }
+
+  try {
+    const revisions = JSON.parse(match[1]);
+    return Array.isArray(revisions) ? revisions : [];
+  } catch {
+    return [];
+  }
+}
+
 interface GitHubApiResponse<T> {
   data: T;
   status: number;
@@ -37,25 +131,91 @@ interface GitHubApiResponse<T> {
 }
 
 export class GitHubClient {
-  private readonly token: string;
-  private readonly baseUrl = 'https://api.github.com';
+  private readonly config: AppConfig;
+  private readonly repositories: RepositoryRegistry;
+  private readonly auth: GitHubAuthProvider;
+  private readonly baseUrl: string;
+  public readonly breaker: CircuitBreaker;
+  private readonly comments: CommentRenderer;
+  // Owner of the access token, looked up on first use
+  private tokenOwner?: string;
   private readonly timeout = 30000; // 30 second timeout
   private readonly userAgent = 'github-triage-agent/1.0.0';
 
-  constructor() {
-    this.token = config.github.token;
+  constructor(
+    config: AppConfig,
+    repositories: RepositoryRegistry = new RepositoryRegistry(config),
+    auth: GitHubAuthProvider = createGitHubAuthProvider(config, repositories)
+  ) {
+    this.config = config;
+    this.repositories = repositories;
+    this.auth = auth;
+    this.baseUrl = config.github.apiUrl.replace(/\/$/, '');
+    this.breaker = getCircuitBreaker('github', config.circuitBreaker);
+    this.comments = new CommentRenderer(config);
+  }
+
+  // Route subsequent requests for a repository through the installation that sent its webhook
+  public useInstallation(repository: string, installationId: number): void {
+    this.auth.rememberInstallation(repository, installationId);
+  }
+
+  // The account the agent's comments are posted as
+  public async getAgentIdentity(correlationId: string): Promise<AgentIdentity> {
+    const { app } = this.config.github;
+    if (app) {
+      return { type: 'app', appId: Number(app.appId) };
+    }
+
+    if (!this.tokenOwner) {
+      // Any repository will do, a token authenticates the same user for all of them
+      const response = await this.makeRequest<{ login: string }>('/user', {
+        repository: this.repositories.getDefault().fullName,
+        correlationId
+      });
+      this.tokenOwner = response.data.login;
+    }
+    return { type: 'user', login: this.tokenOwner };
   }
 
-  // Make authenticated request to GitHub API
+  // Send a request with the configured retry policy, failing fast while the GitHub
+  // circuit is open. POSTs are assumed to have side effects, so a timed-out POST is
+  // only retried when marked idempotent.
   private async makeRequest<T>(
     endpoint: string, 
     options: {
       method?: string;
       body?: any;
+      repository: string;
       correlationId: string;
+      idempotent?: boolean;
     }
   ): Promise<GitHubApiResponse<T>> {
-    const { method = 'GET', body, correlationId } = options;
+    const { method = 'GET', idempotent = method !== 'POST', correlationId } = options;
+
+    return this.breaker.execute(() => withRetry(
+      () => this.sendRequest<T>(endpoint, options),
+      this.config.retry.github,
+      {
+        operation: `${method} ${endpoint}`,
+        correlationId,
+        component: 'github-client',
+        retryTimeouts: idempotent
+      }
+    ), correlationId);
+  }
+
+  private async sendRequest<T>(
+    endpoint: string, 
+    options: {
+      method?: string;
+      body?: any;
+      repository: string;
+      correlationId: string;
+    }
+  ): Promise<GitHubApiResponse<T>> {
+    const { method = 'GET', body, repository, correlationId } = options;
+    const token = await this.auth.getToken(repository, correlationId);
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.timeout);
 
@@ -63,7 +223,7 @@ export class GitHubClient {
       const response = await fetch(`${this.baseUrl}${endpoint}`, {
         method,
         headers: {
-          'Authorization': `Bearer ${this.token}`,
+          'Authorization': `Bearer ${token}`,
           'Accept': 'application/vnd.github.v3+json',
           'Content-Type': 'application/json',
           'User-Agent': this.userAgent
@@ -74,16 +234,9 @@ export class GitHubClient {
 
       clearTimeout(timeoutId);
 
-      // Handle rate limiting
-      if (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0') {
-        const resetTime = response.headers.get('x-ratelimit-reset');
-        const resetTimeMs = resetTime ? parseInt(resetTime, 10) * 1000 : undefined;
-        
-        throw new GitHubRateLimitError(
-          'GitHub API rate limit exceeded',
-          resetTimeMs,
-          { correlationId }
-        );
+      // Handle primary and secondary rate limiting
+      if (response.status === 403 || response.status === 429) {
+        await this.checkRateLimit(response, correlationId);
       }
 
       // Handle authentication errors
@@ -149,15 +302,49 @@ export class GitHubClient {
     }
   }
 
+  // Throw a GitHubRateLimitError if a 403/429 response is a rate limit rather than a
+  // permission problem. Secondary limits send Retry-After, or nothing at all, in which
+  // case GitHub asks clients to wait at least a minute.
+  private async checkRateLimit(response: Response, correlationId: string): Promise<void> {
+    const retryAfter = response.headers.get('retry-after');
+    if (retryAfter && !Number.isNaN(parseInt(retryAfter, 10))) {
+      throw new GitHubRateLimitError(
+        'GitHub API secondary rate limit exceeded',
+        Date.now() + parseInt(retryAfter, 10) * 1000,
+        { correlationId }
+      );
+    }
+
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+      const resetTime = response.headers.get('x-ratelimit-reset');
+      const resetTimeMs = resetTime ? parseInt(resetTime, 10) * 1000 : undefined;
+
+      throw new GitHubRateLimitError(
+        'GitHub API rate limit exceeded',
+        resetTimeMs,
+        { correlationId }
+      );
+    }
+
+    const message = await response.clone().text().catch(() => '');
+    if (response.status === 429 || /secondary rate limit/i.test(message)) {
+      throw new GitHubRateLimitError(
+        'GitHub API secondary rate limit exceeded',
+        Date.now() + 60 * 1000,
+        { correlationId }
+      );
+    }
+  }
+
   // Get current labels on an issue
-  public async getIssueLabels(issueNumber: number, correlationId: string): Promise<string[]> {
+  public async getIssueLabels(repository: string, issueNumber: number, correlationId: string): Promise<string[]> {
     const timer = performanceLog.startTimer('get-issue-labels', correlationId);
     
     try {
-      const { owner, name } = config.github.repo;
+      const { owner, name } = this.repositories.get(repository);
       const endpoint = `/repos/${owner}/${name}/issues/${issueNumber}/labels`;
       
-      const response = await this.makeRequest<GitHubLabel[]>(endpoint, { correlationId });
+      const response = await this.makeRequest<GitHubLabel[]>(endpoint, { repository, correlationId });
       
       const labels = response.data.map(label => label.name);
       
@@ -181,6 +368,7 @@ export class GitHubClient {
 
   // Add labels to an issue
   public async addLabelsToIssue(
+    repository: string,
     issueNumber: number, 
     labels: string[], 
     correlationId: string
@@ -196,13 +384,16 @@ export class GitHubClient {
 
       triageLog.labelingStarted(issueNumber, labels, correlationId);
 
-      const { owner, name } = config.github.repo;
+      const { owner, name } = this.repositories.get(repository);
       const endpoint = `/repos/${owner}/${name}/issues/${issueNumber}/labels`;
       
       const response = await this.makeRequest<GitHubLabel[]>(endpoint, {
         method: 'POST',
         body: { labels },
-        correlationId
+        repository,
+        correlationId,
+        // Adding labels that are already present is a no-op
+        idempotent: true
       });
 
       const addedLabels = response.data.map(label => label.name);
@@ -230,6 +421,7 @@ export class GitHubClient {
 
   // Remove labels from an issue
   public async removeLabelsFromIssue(
+    repository: string,
     issueNumber: number, 
     labels: string[], 
     correlationId: string
@@ -241,7 +433,7 @@ export class GitHubClient {
     const timer = performanceLog.startTimer('remove-labels-from-issue', correlationId);
     
     try {
-      const { owner, name } = config.github.repo;
+      const { owner, name } = this.repositories.get(repository);
       
       // GitHub API requires removing labels one by one
       const removePromises = labels.map(async (label) => {
@@ -250,6 +442,7 @@ export class GitHubClient {
         try {
           await this.makeRequest(endpoint, {
             method: 'DELETE',
+            repository,
             correlationId
           });
           
@@ -294,41 +487,9 @@ export class GitHubClient {
     }
   }
 
-  // Generate comment text based on classification
-  private generateTriageComment(classification: ClassificationResult): string {
-    const { primaryLabel, confidence, reasoning, severity } = classification;
-    
-    let comment = `🤖 **Auto-Triage Results**\n\n`;
-    comment += `This issue has been automatically classified as: **${primaryLabel}**\n`;
-    comment += `Confidence: ${Math.round(confidence * 100)}%\n\n`;
-    
-    if (reasoning) {
-      comment += `**Reasoning:** ${reasoning}\n\n`;
-    }
-    
-    if (severity && primaryLabel === 'bug') {
-      const severityEmoji = {
-        critical: '🚨',
-        high: '⚠️',
-        medium: '⚡',
-        low: '📝'
-      };
-      
-      comment += `**Severity:** ${severityEmoji[severity]} ${severity.toUpperCase()}\n\n`;
-    }
-    
-    if (classification.additionalLabels && classification.additionalLabels.length > 0) {
-      comment += `**Additional labels suggested:** ${classification.additionalLabels.join(', ')}\n\n`;
-    }
-    
-    comment += `---\n`;
-    comment += `*This classification was generated automatically. If you believe this is incorrect, please feel free to update the labels manually.*`;
-    
-    return comment;
-  }
-
   // Create a new GitHub issue
   public async createIssue(
+    repository: string,
     title: string,
     body: string,
     correlationId: string
@@ -340,7 +501,7 @@ export class GitHubClient {
     const timer = performanceLog.startTimer('create-github-issue', correlationId);
     
     try {
-      const { owner, name } = config.github.repo;
+      const { owner, name } = this.repositories.get(repository);
       const endpoint = `/repos/${owner}/${name}/issues`;
       
       const response = await this.makeRequest<{
@@ -352,6 +513,7 @@ export class GitHubClient {
       }>(endpoint, {
         method: 'POST',
         body: { title, body },
+        repository,
         correlationId
       });
 
@@ -381,39 +543,70 @@ export class GitHubClient {
 
   // Post a comment on an issue
   public async postCommentToIssue(
+    repository: string,
     issueNumber: number, 
     classification: ClassificationResult, 
-    correlationId: string
-  ): Promise<void> {
-    if (!config.triage.autoComment) {
+    correlationId: string,
+    options: { kind?: CommentKind; duplicates?: DuplicateCandidate[] } = {}
+  ): Promise<CommentAction> {
+    const { mode } = this.config.comments;
+    const repo = this.repositories.get(repository);
+    if (!repo.autoComment || mode === 'none') {
       log.debug('Auto-commenting is disabled', { correlationId, issueNumber, component: 'github-client' });
-      return;
+      return 'skipped';
     }
 
     const timer = performanceLog.startTimer('post-comment-to-issue', correlationId);
     
     try {
-      const commentBody = this.generateTriageComment(classification);
-      const { owner, name } = config.github.repo;
-      const endpoint = `/repos/${owner}/${name}/issues/${issueNumber}/comments`;
-      
-      await this.makeRequest<GitHubComment>(endpoint, {
-        method: 'POST',
-        body: { body: commentBody },
-        correlationId
+      const kind = options.kind ?? 'triage';
+      const content = this.comments.render(repo, classification, {
+        kind,
+        duplicates: options.duplicates,
+        issueNumber
       });
+      const { owner, name } = repo;
+
+      const previous = mode === 'update' ?
+        await this.findTriageComment(repository, issueNumber, correlationId) :
+        undefined;
+      const commentBody = this.withRevisionHistory(repository, content, {
+        at: new Date().toISOString(),
+        kind,
+        label: classification.primaryLabel,
+        confidence: classification.confidence
+      }, previous ? parseRevisions(previous.body) : []);
+
+      if (previous) {
+        await this.makeRequest<GitHubComment>(`/repos/${owner}/${name}/issues/comments/${previous.id}`, {
+          method: 'PATCH',
+          body: { body: commentBody },
+          repository,
+          correlationId
+        });
+      } else {
+        await this.makeRequest<GitHubComment>(`/repos/${owner}/${name}/issues/${issueNumber}/comments`, {
+          method: 'POST',
+          body: { body: commentBody },
+          repository,
+          correlationId
+        });
+      }
 
       triageLog.commentPosted(issueNumber, correlationId);
       
       const duration = timer.end();
       
-      log.info('Comment posted to issue', {
+      log.info(previous ? 'Triage comment updated' : 'Comment posted to issue', {
         correlationId,
         issueNumber,
+        commentId: previous?.id,
         duration,
         component: 'github-client'
       });
 
+      return previous ? 'updated' : 'created';
+
     } catch (error) {
       timer.end();
       log.error('Failed to post comment to issue', { correlationId, issueNumber }, error as Error);
@@ -421,13 +614,303 @@ export class GitHubClient {
     }
   }
 
+  // List all comments on an issue, oldest first
+  public async listIssueComments(
+    repository: string,
+    issueNumber: number,
+    correlationId: string
+  ): Promise<GitHubComment[]> {
+    const { owner, name } = this.repositories.get(repository);
+    const comments: GitHubComment[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.makeRequest<GitHubComment[]>(
+        `/repos/${owner}/${name}/issues/${issueNumber}/comments?per_page=100&page=${page}`,
+        { repository, correlationId }
+      );
+      comments.push(...response.data);
+
+      if (response.data.length < 100) {
+        return comments;
+      }
+    }
+  }
+
+  // Comments the issue's author added, leaving out the agent's own comments
+  // (the agent may post as the author when it opened the issue itself)
+  public async listAuthorComments(
+    repository: string,
+    issueNumber: number,
+    author: string,
+    correlationId: string
+  ): Promise<GitHubComment[]> {
+    const [identity, comments] = await Promise.all([
+      this.getAgentIdentity(correlationId),
+      this.listIssueComments(repository, issueNumber, correlationId)
+    ]);
+    return comments.filter(comment => comment.user.login === author && !isAgentComment(comment, identity));
+  }
+
+  // Post a comment with the given markdown, e.g. a reminder
+  public async createComment(
+    repository: string,
+    issueNumber: number,
+    body: string,
+    correlationId: string
+  ): Promise<GitHubComment> {
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      const response = await this.makeRequest<GitHubComment>(`/repos/${owner}/${name}/issues/${issueNumber}/comments`, {
+        method: 'POST',
+        body: { body },
+        repository,
+        correlationId
+      });
+
+      log.info('Comment posted to issue', {
+        correlationId,
+        issueNumber,
+        commentId: response.data.id,
+        component: 'github-client'
+      });
+
+      return response.data;
+
+    } catch (error) {
+      log.error('Failed to post comment to issue', { correlationId, issueNumber }, error as Error);
+      throw error;
+    }
+  }
+
+  public async closeIssue(
+    repository: string,
+    issueNumber: number,
+    reason: 'completed' | 'not_planned',
+    correlationId: string
+  ): Promise<void> {
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      await this.makeRequest<GitHubIssue>(`/repos/${owner}/${name}/issues/${issueNumber}`, {
+        method: 'PATCH',
+        body: { state: 'closed', state_reason: reason },
+        repository,
+        correlationId
+      });
+
+      log.info('Issue closed', { correlationId, issueNumber, reason, component: 'github-client' });
+
+    } catch (error) {
+      log.error('Failed to close issue', { correlationId, issueNumber }, error as Error);
+      throw error;
+    }
+  }
+
+  // List all events on an issue (labeling, closing, ...), oldest first
+  public async listIssueEvents(
+    repository: string,
+    issueNumber: number,
+    correlationId: string
+  ): Promise<GitHubIssueEvent[]> {
+    const { owner, name } = this.repositories.get(repository);
+    const events: GitHubIssueEvent[] = [];
+
+    for (let page = 1; ; page++) {
+      const response = await this.makeRequest<GitHubIssueEvent[]>(
+        `/repos/${owner}/${name}/issues/${issueNumber}/events?per_page=100&page=${page}`,
+        { repository, correlationId }
+      );
+      events.push(...response.data);
+
+      if (response.data.length < 100) {
+        return events;
+      }
+    }
+  }
+
+  // The agent's most recent triage comment on an issue, found by its hidden marker.
+  // Comments by anyone else are skipped, even if they copied the marker.
+  private async findTriageComment(
+    repository: string,
+    issueNumber: number,
+    correlationId: string
+  ): Promise<GitHubComment | undefined> {
+    const [identity, comments] = await Promise.all([
+      this.getAgentIdentity(correlationId),
+      this.listIssueComments(repository, issueNumber, correlationId)
+    ]);
+    return comments.reverse().find(comment =>
+      comment.body?.includes(COMMENT_MARKER) && isAgentAuthored(comment, identity)
+    );
+  }
+
+  // Tag a comment with the marker and append the previous classifications, newest first
+  private withRevisionHistory(
+    repository: string,
+    content: string,
+    revision: CommentRevision,
+    previous: CommentRevision[]
+  ): string {
+    const history = previous.slice(0, this.config.comments.maxRevisions);
+    // Escaped so a label name can't close the HTML comment early
+    const encoded = JSON.stringify([revision, ...history]).replace(/>/g, '\\u003e');
+
+    let body = `${COMMENT_MARKER}\n${content}`;
+
+    if (history.length > 0) {
+      body += `\n\n${this.comments.renderHistory(this.repositories.get(repository), history)}`;
+    }
+
+    return `${body}\n<!-- github-triage-agent:revisions ${encoded} -->`;
+  }
+
+  // List issues (pull requests excluded), one page at a time
+  public async listIssues(repository: string, options: ListIssuesOptions, correlationId: string): Promise<GitHubIssue[]> {
+    return (await this.listIssuePage(repository, options, correlationId)).issues;
+  }
+
+  // Like listIssues, for walking through pages: a page can be empty once its pull
+  // requests are removed, so only `hasMore` tells whether the listing has ended
+  public async listIssuePage(repository: string, options: ListIssuesOptions, correlationId: string): Promise<IssuePage> {
+    const { owner, name } = this.repositories.get(repository);
+    const perPage = options.perPage ?? 30;
+    const query = new URLSearchParams({
+      state: options.state ?? 'open',
+      sort: options.sort ?? 'created',
+      direction: options.direction ?? 'desc',
+      per_page: String(perPage),
+      page: String(options.page ?? 1)
+    });
+    if (options.labels?.length) {
+      query.set('labels', options.labels.join(','));
+    }
+    if (options.assignee) {
+      query.set('assignee', options.assignee);
+    }
+    if (options.since) {
+      query.set('since', options.since);
+    }
+
+    try {
+      const response = await this.makeRequest<Array<GitHubIssue & { pull_request?: unknown }>>(
+        `/repos/${owner}/${name}/issues?${query}`,
+        { repository, correlationId }
+      );
+
+      return {
+        issues: response.data.filter(issue => !issue.pull_request),
+        hasMore: response.data.length >= perPage
+      };
+
+    } catch (error) {
+      log.error('Failed to list issues', { correlationId, repository }, error as Error);
+      throw error;
+    }
+  }
+
+  // Add assignees to an issue, returning the ones GitHub accepted. Users without
+  // access to the repository are silently ignored by GitHub.
+  public async addAssignees(
+    repository: string,
+    issueNumber: number,
+    assignees: string[],
+    correlationId: string
+  ): Promise<string[]> {
+    if (assignees.length === 0) {
+      return [];
+    }
+
+    const timer = performanceLog.startTimer('add-assignees-to-issue', correlationId);
+
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      const endpoint = `/repos/${owner}/${name}/issues/${issueNumber}/assignees`;
+
+      const response = await this.makeRequest<GitHubIssue>(endpoint, {
+        method: 'POST',
+        body: { assignees },
+        repository,
+        correlationId,
+        // Assigning someone who is already assigned is a no-op
+        idempotent: true
+      });
+
+      const requested = new Set(assignees.map(login => login.toLowerCase()));
+      const assigned = (response.data.assignees ?? [])
+        .map(assignee => assignee.login)
+        .filter(login => requested.has(login.toLowerCase()));
+
+      const duration = timer.end();
+
+      log.info('Assignees added to issue', {
+        correlationId,
+        issueNumber,
+        assignees: assigned,
+        ignored: assignees.filter(login => !assigned.some(a => a.toLowerCase() === login.toLowerCase())),
+        duration,
+        component: 'github-client'
+      });
+
+      return assigned;
+
+    } catch (error) {
+      timer.end();
+      log.error('Failed to add assignees to issue', { correlationId, issueNumber, assignees }, error as Error);
+      throw error;
+    }
+  }
+
+  // Read a file from the default branch, or undefined if it doesn't exist
+  public async getFileContent(repository: string, path: string, correlationId: string): Promise<string | undefined> {
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      const endpoint = `/repos/${owner}/${name}/contents/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+      const response = await this.makeRequest<{ content?: string; encoding?: string }>(endpoint, {
+        repository,
+        correlationId
+      });
+
+      const { content, encoding } = response.data;
+      if (content === undefined) {
+        return undefined;
+      }
+      return encoding === 'base64' ? Buffer.from(content, 'base64').toString('utf8') : content;
+
+    } catch (error) {
+      if (error instanceof GitHubApiError && error.apiStatusCode === 404) {
+        return undefined;
+      }
+      log.error('Failed to read repository file', { correlationId, repository, path }, error as Error);
+      throw error;
+    }
+  }
+
+  // List the logins of a team's members (requires organization read access)
+  public async listTeamMembers(
+    repository: string,
+    org: string,
+    teamSlug: string,
+    correlationId: string
+  ): Promise<string[]> {
+    try {
+      const endpoint = `/orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(teamSlug)}/members?per_page=100`;
+      const response = await this.makeRequest<Array<{ login: string }>>(endpoint, { repository, correlationId });
+
+      return response.data.map(member => member.login);
+
+    } catch (error) {
+      log.error('Failed to list team members', { correlationId, org, teamSlug }, error as Error);
+      throw error;
+    }
+  }
+
   // Get repository information
-  public async getRepositoryInfo(correlationId: string): Promise<any> {
+  public async getRepositoryInfo(repository: string, correlationId: string): Promise<any> {
     try {
-      const { owner, name } = config.github.repo;
+      const { owner, name } = this.repositories.get(repository);
       const endpoint = `/repos/${owner}/${name}`;
       
-      const response = await this.makeRequest(endpoint, { correlationId });
+      const response = await this.makeRequest(endpoint, { repository, correlationId });
       
       log.debug('Retrieved repository info', {
         correlationId,
@@ -438,7 +921,7 @@ export class GitHubClient {
       return response.data;
 
     } catch (error) {
-      log.error('Failed to get repository info', { correlationId }, error as Error);
+      log.error('Failed to get repository info', { correlationId, repository }, error as Error);
       throw error;
     }
   }
@@ -446,7 +929,7 @@ export class GitHubClient {
   // Health check method
   public async healthCheck(correlationId: string): Promise<boolean> {
     try {
-      await this.getRepositoryInfo(correlationId);
+      await this.getRepositoryInfo(this.repositories.getDefault().fullName, correlationId);
       return true;
     } catch (error) {
       log.error('GitHub client health check failed', { correlationId }, error as Error);
@@ -455,14 +938,19 @@ export class GitHubClient {
   }
 
   // Get rate limit status
-  public async getRateLimitStatus(correlationId: string): Promise<{
+  public async getRateLimitStatus(correlationId: string, repository?: string): Promise<{
     limit: number;
     remaining: number;
     reset: number;
     used: number;
   }> {
     try {
-      const response = await this.makeRequest('/rate_limit', { correlationId });
+      // Rate limits are tracked per token, so query with the repository's credentials
+      // (an App installation has its own limit), by default the default repository's
+      const response = await this.makeRequest('/rate_limit', {
+        repository: repository ?? this.repositories.getDefault().fullName,
+        correlationId
+      });
       
       const { limit, remaining, reset, used } = (response.data as any).rate;
       
@@ -483,23 +971,107 @@ export class GitHubClient {
     }
   }
 
+  // List every label defined in the repository
+  public async listRepositoryLabels(repository: string, correlationId: string): Promise<GitHubLabel[]> {
+    const { owner, name } = this.repositories.get(repository);
+    const labels: GitHubLabel[] = [];
+
+    try {
+      for (let page = 1; ; page++) {
+        const response = await this.makeRequest<GitHubLabel[]>(
+          `/repos/${owner}/${name}/labels?per_page=100&page=${page}`,
+          { repository, correlationId }
+        );
+        labels.push(...response.data);
+
+        if (response.data.length < 100) {
+          return labels;
+        }
+      }
+    } catch (error) {
+      log.error('Failed to list repository labels', { correlationId, repository }, error as Error);
+      throw error;
+    }
+  }
+
+  // Create a label in the repository
+  public async createLabel(
+    repository: string,
+    label: { name: string; color: string; description?: string },
+    correlationId: string
+  ): Promise<GitHubLabel> {
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      const response = await this.makeRequest<GitHubLabel>(`/repos/${owner}/${name}/labels`, {
+        method: 'POST',
+        body: label,
+        repository,
+        correlationId
+      });
+
+      log.info('Repository label created', {
+        correlationId,
+        repository,
+        label: label.name,
+        component: 'github-client'
+      });
+
+      return response.data;
+
+    } catch (error) {
+      log.error('Failed to create repository label', { correlationId, repository, label: label.name }, error as Error);
+      throw error;
+    }
+  }
+
+  // Update an existing label's color and/or description
+  public async updateLabel(
+    repository: string,
+    labelName: string,
+    changes: { color?: string; description?: string },
+    correlationId: string
+  ): Promise<GitHubLabel> {
+    try {
+      const { owner, name } = this.repositories.get(repository);
+      const response = await this.makeRequest<GitHubLabel>(
+        `/repos/${owner}/${name}/labels/${encodeURIComponent(labelName)}`,
+        {
+          method: 'PATCH',
+          body: changes,
+          repository,
+          correlationId
+        }
+      );
+
+      log.info('Repository label updated', {
+        correlationId,
+        repository,
+        label: labelName,
+        changes,
+        component: 'github-client'
+      });
+
+      return response.data;
+
+    } catch (error) {
+      log.error('Failed to update repository label', { correlationId, repository, label: labelName }, error as Error);
+      throw error;
+    }
+  }
+
   // Validate that required labels exist in the repository
-  public async validateRepositoryLabels(correlationId: string): Promise<{
+  public async validateRepositoryLabels(repository: string, correlationId: string): Promise<{
     existing: string[];
     missing: string[];
   }> {
     try {
-      const { owner, name } = config.github.repo;
-      const endpoint = `/repos/${owner}/${name}/labels`;
-      
-      const response = await this.makeRequest<GitHubLabel[]>(endpoint, { correlationId });
-      
-      const existingLabels = response.data.map(label => label.name);
-      const requiredLabels = config.triage.labels;
+      const existingLabels = (await this.listRepositoryLabels(repository, correlationId)).map(label => label.name);
+      const requiredLabels = this.repositories.get(repository).labels;
       const missingLabels = requiredLabels.filter(label => !existingLabels.includes(label));
       
       log.info('Repository label validation completed', {
         correlationId,
+        repository,
         existingLabels,
         missingLabels,
         component: 'github-client'
@@ -0,0 +1,121 @@
+import { log } from '../utils/logger.js';
+import { getTriageStore, type TriageStore } from '../storage/index.js';
+import type GitHubClient from './github.js';
+import type { AppConfig, CorpusIssue, GitHubIssue, RepositoryConfig } from '../types/index.js';
+
+// Maximum page size accepted by the GitHub issues API
+const PAGE_SIZE = 100;
+
+// Local copy of a repository's issues used for similarity search: recently updated
+// issues for each triage label (few-shot examples) and recent open issues
+// (duplicate detection). Refetched once older than fewShot.refreshMinutes.
+export class IssueIndex {
+  private readonly config: AppConfig;
+  private readonly githubClient: GitHubClient;
+  private readonly store: TriageStore;
+  // Refreshes in progress, so concurrent triages of one repository share a fetch
+  private readonly refreshes = new Map<string, Promise<CorpusIssue[]>>();
+
+  constructor(config: AppConfig, services: { githubClient: GitHubClient; store?: TriageStore }) {
+    this.config = config;
+    this.githubClient = services.githubClient;
+    this.store = services.store ?? getTriageStore(config);
+  }
+
+  // Cached issues, refreshing first if stale. A failed refresh falls back to the cache.
+  public async getIssues(repo: RepositoryConfig, correlationId: string): Promise<CorpusIssue[]> {
+    const refreshedAt = await this.store.getCorpusRefreshedAt(repo.fullName);
+    const maxAgeMs = this.config.fewShot.refreshMinutes * 60 * 1000;
+
+    if (refreshedAt && Date.now() - Date.parse(refreshedAt) < maxAgeMs) {
+      return this.store.listCorpus(repo.fullName);
+    }
+
+    const key = repo.fullName.toLowerCase();
+    let refresh = this.refreshes.get(key);
+    if (!refresh) {
+      refresh = this.refresh(repo, correlationId).finally(() => this.refreshes.delete(key));
+      this.refreshes.set(key, refresh);
+    }
+
+    try {
+      return await refresh;
+    } catch (error) {
+      log.warn('Failed to refresh issue index, using cached issues', {
+        correlationId,
+        repository: repo.fullName,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'issue-index'
+      });
+      return this.store.listCorpus(repo.fullName);
+    }
+  }
+
+  // Keep the index current between refreshes, so new issues can be matched straight away
+  public async recordIssue(repo: RepositoryConfig, issue: GitHubIssue, labels: string[]): Promise<void> {
+    await this.store.upsertCorpusIssue(toCorpusIssue(repo, issue, labels));
+  }
+
+  private async refresh(repo: RepositoryConfig, correlationId: string): Promise<CorpusIssue[]> {
+    const issues = new Map<number, CorpusIssue>();
+    const add = (page: GitHubIssue[]) => page.forEach(issue => {
+      issues.set(issue.number, toCorpusIssue(repo, issue, issue.labels.map(label => label.name)));
+    });
+
+    // One request per label: the issues API ANDs multiple labels together
+    if (this.config.fewShot.maxExamples > 0) {
+      for (const label of repo.labels) {
+        add(await this.githubClient.listIssues(repo.fullName, {
+          state: 'all',
+          labels: [label],
+          sort: 'updated',
+          perPage: this.config.fewShot.issuesPerLabel
+        }, correlationId));
+      }
+    }
+
+    if (this.config.duplicates.enabled) {
+      const pages = Math.ceil(this.config.duplicates.maxOpenIssues / PAGE_SIZE);
+      for (let page = 1; page <= pages; page++) {
+        const { issues: open, hasMore } = await this.githubClient.listIssuePage(repo.fullName, {
+          state: 'open',
+          sort: 'created',
+          perPage: PAGE_SIZE,
+          page
+        }, correlationId);
+        add(open);
+
+        if (!hasMore) {
+          break;
+        }
+      }
+    }
+
+    const corpus = Array.from(issues.values());
+    await this.store.replaceCorpus(repo.fullName, corpus, new Date().toISOString());
+
+    log.info('Refreshed issue index', {
+      correlationId,
+      repository: repo.fullName,
+      issues: corpus.length,
+      component: 'issue-index'
+    });
+
+    return corpus;
+  }
+}
+
+function toCorpusIssue(repo: RepositoryConfig, issue: GitHubIssue, labels: string[]): CorpusIssue {
+  return {
+    repository: repo.fullName,
+    issueNumber: issue.number,
+    title: issue.title,
+    body: issue.body || '',
+    labels,
+    state: issue.state,
+    url: issue.html_url,
+    updatedAt: issue.updated_at
+  };
+}
+
+export default IssueIndex;
@@ -0,0 +1,169 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import TriageJobQueue from './job-queue.js';
+import { InMemoryTriageStore } from '../storage/index.js';
+import { GitHubApiError } from '../utils/errors.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type TriageOrchestrator from './orchestrator.js';
+import type { GitHubWebhookPayload, TriageJob, TriageJobStatus, TriageResult } from '../types/index.js';
+
+const payload = (issueNumber: number) => ({
+  action: 'opened',
+  issue: { number: issueNumber, title: `Issue ${issueNumber}` },
+  repository: { full_name: 'octo-org/octo-repo' }
+}) as unknown as GitHubWebhookPayload;
+
+function createQueue(
+  triage: (payload: GitHubWebhookPayload, correlationId: string) => Promise<TriageResult>,
+  options: { maxAttempts?: number; backoffBaseMs?: number } = {}
+) {
+  const store = new InMemoryTriageStore();
+  const triageIssue = jest.fn(triage);
+  const getCircuitRetryAt = jest.fn((): number | undefined => undefined);
+  const orchestrator = { triageIssue, getCircuitRetryAt } as unknown as TriageOrchestrator;
+  const config = createTestConfig({
+    queue: { concurrency: 2, maxAttempts: 3, backoffBaseMs: 0, backoffMaxMs: 0, ...options }
+  });
+  const queue = new TriageJobQueue(config, { orchestrator: async () => orchestrator, store });
+
+  return { queue, store, triageIssue, getCircuitRetryAt };
+}
+
+async function waitForStatus(store: InMemoryTriageStore, id: number, status: TriageJobStatus): Promise<TriageJob> {
+  for (let i = 0; i < 200; i++) {
+    const job = await store.getJob(id);
+    if (job?.status === status) {
+      return job;
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${id} never became ${status}; it is ${(await store.getJob(id))?.status}`);
+}
+
+describe('TriageJobQueue', () => {
+  let queue: TriageJobQueue | undefined;
+
+  afterEach(async () => {
+    await queue?.drain(1000);
+    jest.restoreAllMocks();
+  });
+
+  it('runs queued jobs to completion', async () => {
+    const setup = createQueue(async () => ({ success: true }));
+    queue = setup.queue;
+    await queue.start();
+
+    const job = await queue.enqueue(payload(1), 'test', 'delivery-1');
+
+    expect(await waitForStatus(setup.store, job.id, 'completed')).toMatchObject({ attempts: 1, deliveryId: 'delivery-1' });
+    expect(setup.triageIssue).toHaveBeenCalledWith(job.payload, 'test');
+  });
+
+  it('retries retryable failures, then moves the job to the dead-letter list', async () => {
+    const setup = createQueue(async () => ({ success: false, retryable: true, error: 'Bad gateway' }));
+    queue = setup.queue;
+    await queue.start();
+
+    const job = await queue.enqueue(payload(1), 'test');
+
+    expect(await waitForStatus(setup.store, job.id, 'dead')).toMatchObject({ attempts: 3, lastError: 'Bad gateway' });
+    expect(setup.triageIssue).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries thrown retryable errors', async () => {
+    let calls = 0;
+    const setup = createQueue(async () => {
+      if (++calls === 1) {
+        throw new GitHubApiError('Service unavailable', 503);
+      }
+      return { success: true };
+    });
+    queue = setup.queue;
+    await queue.start();
+
+    const job = await queue.enqueue(payload(1), 'test');
+
+    expect(await waitForStatus(setup.store, job.id, 'completed')).toMatchObject({ attempts: 2 });
+  });
+
+  it('dead-letters non-retryable failures after one attempt', async () => {
+    const setup = createQueue(async () => ({ success: false, retryable: false, error: 'Invalid labels' }));
+    queue = setup.queue;
+    await queue.start();
+
+    const job = await queue.enqueue(payload(1), 'test');
+
+    expect(await waitForStatus(setup.store, job.id, 'dead')).toMatchObject({ attempts: 1 });
+  });
+
+  it('defers jobs without spending an attempt while a required circuit is open', async () => {
+    const setup = createQueue(async () => ({ success: true }), { backoffBaseMs: 60000 });
+    queue = setup.queue;
+    // A half-open breaker whose trial is still running may report a time that has passed
+    setup.getCircuitRetryAt.mockReturnValue(Date.now() - 1000);
+    await queue.start();
+
+    const job = await queue.enqueue(payload(1), 'test');
+    while (queue.stats().scheduledRetries === 0) {
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    const deferred = await setup.store.getJob(job.id);
+
+    expect(setup.triageIssue).not.toHaveBeenCalled();
+    expect(deferred).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(Date.parse(deferred!.nextRunAt)).toBeGreaterThan(Date.now() + 50000);
+  });
+
+  it('resumes pending and interrupted jobs on start', async () => {
+    const setup = createQueue(async () => ({ success: true }));
+    queue = setup.queue;
+    const now = new Date().toISOString();
+    const base = { correlationId: 'test', repository: 'octo-org/octo-repo', attempts: 0, maxAttempts: 3, nextRunAt: now, createdAt: now, updatedAt: now };
+    const pending = await setup.store.createJob({ ...base, issueNumber: 1, payload: payload(1), status: 'pending' });
+    const interrupted = await setup.store.createJob({ ...base, issueNumber: 2, payload: payload(2), status: 'running', attempts: 1 });
+
+    expect(await queue.start()).toBe(2);
+
+    await waitForStatus(setup.store, pending.id, 'completed');
+    expect(await waitForStatus(setup.store, interrupted.id, 'completed')).toMatchObject({ attempts: 2 });
+  });
+
+  it('keeps working when the store fails to update a job', async () => {
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      const setup = createQueue(async () => ({ success: true }));
+      queue = setup.queue;
+      jest.spyOn(setup.store, 'getJob').mockRejectedValueOnce(new Error('database is locked'));
+      await queue.start();
+
+      const failed = await queue.enqueue(payload(1), 'test');
+      const next = await queue.enqueue(payload(2), 'test');
+
+      await waitForStatus(setup.store, next.id, 'completed');
+      expect((await setup.store.getJob(failed.id))?.status).toBe('pending');
+      expect(await queue.drain(1000)).toEqual({ completed: true, pending: 0 });
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('replays dead jobs inline when the queue is not running', async () => {
+    let healthy = false;
+    const setup = createQueue(async () => healthy ?
+      { success: true } :
+      { success: false, retryable: false, error: 'OpenAI quota exceeded' });
+    queue = setup.queue;
+    await queue.start();
+    const job = await queue.enqueue(payload(1), 'test');
+    await waitForStatus(setup.store, job.id, 'dead');
+    await queue.drain(1000);
+
+    healthy = true;
+    const replayed = await queue.replay(job.id, 'replay');
+
+    expect(replayed).toMatchObject({ status: 'completed', attempts: 1, lastError: undefined });
+    await expect(queue.replay(job.id, 'replay')).rejects.toThrow('only dead jobs can be replayed');
+  });
+});
@@ -0,0 +1,332 @@
+import pLimit, { type LimitFunction } from 'p-limit';
+import { log } from '../utils/logger.js';
+import { ValidationError, isRetryableError } from '../utils/errors.js';
+import { getTriageStore, type TriageStore, type TriageJobFilter } from '../storage/index.js';
+import type { AppConfig, GitHubWebhookPayload, TriageJob } from '../types/index.js';
+import type TriageOrchestrator from './orchestrator.js';
+
+// Persistent triage job queue. Jobs are written to the triage store before they
+// run, so work accepted before a crash or restart is picked up again by start().
+export class TriageJobQueue {
+  private readonly options: AppConfig['queue'];
+  private readonly store: TriageStore;
+  private readonly getOrchestrator: () => Promise<TriageOrchestrator>;
+  private readonly limit: LimitFunction;
+  private readonly retryTimers = new Map<number, NodeJS.Timeout>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private running = false;
+
+  constructor(
+    config: AppConfig,
+    services: {
+      orchestrator: () => Promise<TriageOrchestrator>;
+      store?: TriageStore;
+    }
+  ) {
+    this.options = config.queue;
+    this.store = services.store ?? getTriageStore(config);
+    this.getOrchestrator = services.orchestrator;
+    this.limit = pLimit(config.queue.concurrency);
+  }
+
+  // Begin processing, resuming jobs left pending or interrupted by a previous run
+  public async start(): Promise<number> {
+    this.running = true;
+
+    const interrupted = await this.store.listJobs({ status: 'running', limit: Number.MAX_SAFE_INTEGER });
+    for (const job of interrupted) {
+      await this.store.updateJob(job.id, { status: 'pending' });
+    }
+
+    const pending = await this.store.listJobs({ status: 'pending', limit: Number.MAX_SAFE_INTEGER });
+    pending.forEach(job => this.schedule(job));
+
+    if (pending.length > 0) {
+      log.info('Resumed pending triage jobs', {
+        count: pending.length,
+        interrupted: interrupted.length,
+        component: 'job-queue'
+      });
+    }
+
+    return pending.length;
+  }
+
+  public async enqueue(
+    payload: GitHubWebhookPayload,
+    correlationId: string,
+    deliveryId?: string
+  ): Promise<TriageJob> {
+    const now = new Date().toISOString();
+    const job = await this.store.createJob({
+      correlationId,
+      deliveryId,
+      repository: payload.repository.full_name,
+      issueNumber: payload.issue.number,
+      payload,
+      status: 'pending',
+      attempts: 0,
+      maxAttempts: this.options.maxAttempts,
+      nextRunAt: now,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    log.debug('Triage job enqueued', {
+      correlationId,
+      jobId: job.id,
+      issueNumber: job.issueNumber,
+      component: 'job-queue'
+    });
+
+    if (this.running) {
+      this.schedule(job);
+    }
+
+    return job;
+  }
+
+  public async getJob(id: number): Promise<TriageJob | undefined> {
+    return this.store.getJob(id);
+  }
+
+  public async listJobs(filter?: TriageJobFilter): Promise<TriageJob[]> {
+    return this.store.listJobs(filter);
+  }
+
+  // Move a dead-lettered job back to pending with a fresh attempt budget. When the
+  // queue isn't running (e.g. from the MCP server) the job is processed inline.
+  public async replay(id: number, correlationId: string): Promise<TriageJob> {
+    const job = await this.store.getJob(id);
+    if (!job) {
+      throw new ValidationError(`Triage job ${id} not found`, 'id', { correlationId });
+    }
+    if (job.status !== 'dead') {
+      throw new ValidationError(`Triage job ${id} is ${job.status}; only dead jobs can be replayed`, 'id', {
+        correlationId
+      });
+    }
+
+    // Replaying inline would only defer the job again
+    const circuitRetryAt = (await this.getOrchestrator()).getCircuitRetryAt();
+    if (!this.running && circuitRetryAt !== undefined) {
+      throw new ValidationError(
+        `An upstream circuit breaker is open until ${new Date(circuitRetryAt).toISOString()}; replay after that`,
+        'id',
+        { correlationId }
+      );
+    }
+
+    const replayed = await this.store.updateJob(id, {
+      status: 'pending',
+      attempts: 0,
+      nextRunAt: new Date().toISOString(),
+      lastError: undefined
+    });
+
+    log.info('Replaying dead-lettered triage job', {
+      correlationId,
+      jobId: id,
+      originalCorrelationId: job.correlationId,
+      component: 'job-queue'
+    });
+
+    if (this.running) {
+      this.schedule(replayed!);
+      return replayed!;
+    }
+
+    await this.limit(() => this.process(id));
+    return (await this.store.getJob(id))!;
+  }
+
+  public stats(): { running: boolean; active: number; scheduledRetries: number } {
+    return {
+      running: this.running,
+      active: this.inFlight.size,
+      scheduledRetries: this.retryTimers.size
+    };
+  }
+
+  // Stop picking up work and wait for running jobs; anything still pending stays
+  // persisted and is resumed by the next start()
+  public async drain(timeoutMs: number): Promise<{ completed: boolean; pending: number }> {
+    this.running = false;
+
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+
+    if (this.inFlight.size === 0) {
+      return { completed: true, pending: 0 };
+    }
+
+    log.info('Draining in-flight triage jobs', {
+      pending: this.inFlight.size,
+      timeoutMs,
+      component: 'job-queue'
+    });
+
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<false>((resolve) => {
+      timeoutId = setTimeout(() => resolve(false), timeoutMs);
+    });
+
+    const completed = await Promise.race([
+      Promise.all(this.inFlight).then(() => true as const),
+      timedOut
+    ]);
+    clearTimeout(timeoutId);
+
+    return { completed, pending: this.inFlight.size };
+  }
+
+  // Run a job now or once its retry delay has elapsed
+  private schedule(job: TriageJob): void {
+    const delay = Date.parse(job.nextRunAt) - Date.now();
+
+    if (delay <= 0) {
+      this.dispatch(job.id);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(job.id);
+      this.dispatch(job.id);
+    }, delay);
+    this.retryTimers.set(job.id, timer);
+  }
+
+  private dispatch(id: number): void {
+    const task: Promise<void> = this.limit(() => this.running ? this.process(id) : Promise.resolve())
+      .catch((error) => {
+        log.error('Triage job worker failed', { jobId: id, component: 'job-queue' }, error as Error);
+      })
+      .finally(() => this.inFlight.delete(task));
+    this.inFlight.add(task);
+  }
+
+  // Never rejects: a job whose state couldn't be saved stays pending or running in
+  // the store and is picked up again by the next start()
+  private async process(id: number): Promise<void> {
+    try {
+      await this.runJob(id);
+    } catch (error) {
+      log.error('Failed to update triage job', { jobId: id, component: 'job-queue' }, error as Error);
+    }
+  }
+
+  private async runJob(id: number): Promise<void> {
+    const job = await this.store.getJob(id);
+    if (!job || job.status !== 'pending') {
+      return;
+    }
+
+    // Don't spend an attempt (or LLM tokens) while a required upstream is known to be down
+    const orchestrator = await this.getOrchestrator();
+    const circuitRetryAt = orchestrator.getCircuitRetryAt();
+    if (circuitRetryAt !== undefined) {
+      await this.defer(job, new Date(circuitRetryAt).toISOString());
+      return;
+    }
+
+    const attempts = job.attempts + 1;
+    await this.store.updateJob(id, { status: 'running', attempts });
+
+    let error: string | undefined;
+    let retryable = false;
+
+    try {
+      const result = await orchestrator.triageIssue(job.payload, job.correlationId);
+
+      if (result.success) {
+        await this.store.updateJob(id, { status: 'completed', lastError: undefined });
+        return;
+      }
+
+      // A circuit opened mid-triage: the failure says nothing about this job
+      if (result.retryAfter) {
+        await this.defer({ ...job, lastError: result.error }, result.retryAfter);
+        return;
+      }
+
+      error = result.error;
+      retryable = result.retryable ?? false;
+    } catch (caught) {
+      log.error('Triage job failed unexpectedly', {
+        correlationId: job.correlationId,
+        jobId: id,
+        component: 'job-queue'
+      }, caught as Error);
+
+      error = caught instanceof Error ? caught.message : 'Unknown error';
+      retryable = caught instanceof Error && isRetryableError(caught);
+    }
+
+    if (retryable && attempts < job.maxAttempts) {
+      const delay = this.backoff(attempts);
+      const updated = await this.store.updateJob(id, {
+        status: 'pending',
+        nextRunAt: new Date(Date.now() + delay).toISOString(),
+        lastError: error
+      });
+
+      log.warn('Triage job failed, retrying', {
+        correlationId: job.correlationId,
+        jobId: id,
+        attempts,
+        maxAttempts: job.maxAttempts,
+        retryInMs: delay,
+        error,
+        component: 'job-queue'
+      });
+
+      if (this.running && updated) {
+        this.schedule(updated);
+      }
+      return;
+    }
+
+    await this.store.updateJob(id, { status: 'dead', lastError: error });
+
+    log.error('Triage job moved to dead-letter list', {
+      correlationId: job.correlationId,
+      jobId: id,
+      attempts,
+      retryable,
+      error,
+      component: 'job-queue'
+    });
+  }
+
+  // Put a job back to pending without using up an attempt; never sooner than a first
+  // retry, so a breaker reporting a retry time that has already passed can't spin the queue
+  private async defer(job: TriageJob, until: string): Promise<void> {
+    const nextRunAt = new Date(Math.max(Date.parse(until), Date.now() + this.options.backoffBaseMs)).toISOString();
+    const updated = await this.store.updateJob(job.id, {
+      status: 'pending',
+      attempts: job.attempts,
+      nextRunAt,
+      lastError: job.lastError
+    });
+
+    log.info('Triage job deferred while a circuit breaker is open', {
+      correlationId: job.correlationId,
+      jobId: job.id,
+      nextRunAt,
+      component: 'job-queue'
+    });
+
+    if (this.running && updated) {
+      this.schedule(updated);
+    }
+  }
+
+  // Exponential backoff with up to 20% jitter so retries from a burst spread out
+  private backoff(attempts: number): number {
+    const { backoffBaseMs, backoffMaxMs } = this.options;
+    const delay = backoffBaseMs * 2 ** (attempts - 1) * (1 + Math.random() * 0.2);
+    return Math.round(Math.min(backoffMaxMs, delay));
+  }
+}
+
+export default TriageJobQueue;
@@ -0,0 +1,179 @@
+import { log } from '../utils/logger.js';
+import type GitHubClient from './github.js';
+import type RepositoryRegistry from './repositories.js';
+import type { GitHubLabel } from './github.js';
+import type { AppConfig, LabelChange, LabelSyncReport, RepositoryConfig } from '../types/index.js';
+
+// Colors for labels the configuration doesn't give one
+const DEFAULT_COLOR = 'ededed';
+const REVIEW_LABEL_COLOR = 'fbca04';
+const DUPLICATE_LABEL_COLOR = 'cfd3d7';
+const NEEDS_INFO_LABEL_COLOR = 'fef2c0';
+
+interface DesiredLabel {
+  name: string;
+  color: string;
+  description?: string;
+  // Only configured colors are enforced on existing labels
+  colorConfigured: boolean;
+}
+
+// Brings a repository's labels in line with the configuration: every label the
+// agent may apply is created if missing, and optionally updated if it drifted
+export class LabelSynchronizer {
+  private readonly config: AppConfig;
+  private readonly githubClient: GitHubClient;
+  private readonly repositories: RepositoryRegistry;
+
+  constructor(config: AppConfig, services: { githubClient: GitHubClient; repositories: RepositoryRegistry }) {
+    this.config = config;
+    this.githubClient = services.githubClient;
+    this.repositories = services.repositories;
+  }
+
+  public async sync(
+    repository: string,
+    options: { dryRun?: boolean; updateExisting?: boolean },
+    correlationId: string
+  ): Promise<LabelSyncReport> {
+    const repo = this.repositories.get(repository);
+    const dryRun = options.dryRun ?? false;
+    const updateExisting = options.updateExisting ?? this.config.labelSync.updateExisting;
+
+    // GitHub label names are case-insensitive
+    const existing = new Map<string, GitHubLabel>(
+      (await this.githubClient.listRepositoryLabels(repo.fullName, correlationId))
+        .map(label => [label.name.toLowerCase(), label])
+    );
+
+    const report: LabelSyncReport = {
+      repository: repo.fullName,
+      dryRun,
+      created: [],
+      updated: [],
+      drifted: [],
+      unchanged: [],
+      failed: []
+    };
+
+    for (const desired of this.getDesiredLabels(repo)) {
+      const current = existing.get(desired.name.toLowerCase());
+
+      try {
+        if (!current) {
+          if (!dryRun) {
+            await this.githubClient.createLabel(repo.fullName, {
+              name: desired.name,
+              color: desired.color,
+              description: desired.description
+            }, correlationId);
+          }
+          report.created.push(desired.name);
+          continue;
+        }
+
+        const change = this.diff(current, desired);
+        if (!change) {
+          report.unchanged.push(desired.name);
+        } else if (!updateExisting) {
+          report.drifted.push(change);
+        } else {
+          if (!dryRun) {
+            await this.githubClient.updateLabel(
+              repo.fullName,
+              current.name,
+              Object.fromEntries(change.changes.map(({ field, to }) => [field, to])),
+              correlationId
+            );
+          }
+          report.updated.push(change);
+        }
+      } catch (error) {
+        report.failed.push({
+          name: desired.name,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    log.info('Repository labels synchronized', {
+      correlationId,
+      repository: repo.fullName,
+      dryRun,
+      created: report.created,
+      updated: report.updated.map(change => change.name),
+      drifted: report.drifted.map(change => change.name),
+      failed: report.failed.map(failure => failure.name),
+      component: 'label-sync'
+    });
+
+    return report;
+  }
+
+  // Every label the agent may apply in this repository
+  private getDesiredLabels(repo: RepositoryConfig): DesiredLabel[] {
+    const labels: DesiredLabel[] = [
+      ...repo.labelDefinitions.map(label => ({
+        name: label.name,
+        color: label.color ?? DEFAULT_COLOR,
+        description: label.description,
+        colorConfigured: label.color !== undefined
+      })),
+      ...repo.areas.map(area => ({
+        name: area.name,
+        color: DEFAULT_COLOR,
+        description: area.description,
+        colorConfigured: false
+      })),
+      {
+        name: this.config.triage.lowConfidence.label,
+        color: REVIEW_LABEL_COLOR,
+        description: 'Automatic triage needs a maintainer to confirm the label',
+        colorConfigured: false
+      }
+    ];
+
+    if (this.config.duplicates.enabled) {
+      labels.push({
+        name: this.config.duplicates.label,
+        color: DUPLICATE_LABEL_COLOR,
+        description: 'May duplicate an existing open issue',
+        colorConfigured: false
+      });
+    }
+
+    if (this.config.needsInfo.enabled) {
+      labels.push({
+        name: this.config.needsInfo.label,
+        color: NEEDS_INFO_LABEL_COLOR,
+        description: 'Waiting for more information from the issue author',
+        colorConfigured: false
+      });
+    }
+
+    const seen = new Set<string>();
+    return labels.filter(label => {
+      const key = label.name.toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private diff(current: GitHubLabel, desired: DesiredLabel): LabelChange | undefined {
+    const changes: LabelChange['changes'] = [];
+
+    if (desired.colorConfigured && current.color.toLowerCase() !== desired.color) {
+      changes.push({ field: 'color', from: current.color, to: desired.color });
+    }
+    if (desired.description !== undefined && (current.description ?? '') !== desired.description) {
+      changes.push({ field: 'description', from: current.description ?? undefined, to: desired.description });
+    }
+
+    return changes.length > 0 ? { name: current.name, changes } : undefined;
+  }
+}
+
+export default LabelSynchronizer;
@@ -1,25 +1,114 @@
-import { config } from '../config/index.js';
 import { log, triageLog, generateCorrelationId } from '../utils/logger.js';
 import OpenAIClassifier from './classifier.js';
 import GitHubClient from './github.js';
+import RepositoryRegistry from './repositories.js';
+import RuleBasedClassifier from './rules.js';
+import ExampleSelector from './examples.js';
+import IssueIndex from './issue-index.js';
+import DuplicateDetector from './duplicates.js';
+import AssigneeRouter from './routing.js';
+import LabelSynchronizer from './label-sync.js';
+import TriageBackfill, { type BackfillOptions } from './backfill.js';
+import {
+  getTriageStore,
+  type ReviewItemFilter,
+  type ReviewItemResolution,
+  type SchedulerRunFilter,
+  type TriageStore,
+  type TriageHistoryFilter
+} from '../storage/index.js';
+import { computeIssueContentHash } from './deduplicator.js';
+import { CircuitBreakerError, LowConfidenceError, ValidationError, isRetryableError } from '../utils/errors.js';
+import {
+  getCircuitBreakerSnapshots,
+  getOpenCircuitRetryAt,
+  type CircuitBreakerSnapshot
+} from '../utils/circuit-breaker.js';
 import type { 
+  AppConfig,
+  BackfillReport,
+  DuplicateCandidate,
   GitHubWebhookPayload, 
+  RepositoryConfig,
   TriageContext, 
   TriageResult,
-  ClassificationResult 
+  ClassificationResult,
+  LabelSyncReport,
+  ReviewItem,
+  SchedulerRun,
+  TriageFeedback,
+  TriageRecord
 } from '../types/index.js';
 
+// Most recent author comments included in the classification prompt
+const MAX_FOLLOW_UPS = 5;
+
 export class TriageOrchestrator {
+  private readonly config: AppConfig;
+  private readonly repositories: RepositoryRegistry;
   private classifier: OpenAIClassifier;
+  private ruleClassifier: RuleBasedClassifier;
   private githubClient: GitHubClient;
+  private store: TriageStore;
+  private issueIndex: IssueIndex;
+  private exampleSelector: ExampleSelector;
+  private duplicateDetector: DuplicateDetector;
+  private assigneeRouter: AssigneeRouter;
+  private labelSynchronizer: LabelSynchronizer;
+  private backfill: TriageBackfill;
 
-  constructor() {
-    this.classifier = new OpenAIClassifier();
-    this.githubClient = new GitHubClient();
+  constructor(
+    config: AppConfig,
+    services: {
+      repositories?: RepositoryRegistry;
+      classifier?: OpenAIClassifier;
+      ruleClassifier?: RuleBasedClassifier;
+      githubClient?: GitHubClient;
+      store?: TriageStore;
+      issueIndex?: IssueIndex;
+      exampleSelector?: ExampleSelector;
+      duplicateDetector?: DuplicateDetector;
+      assigneeRouter?: AssigneeRouter;
+      labelSynchronizer?: LabelSynchronizer;
+      backfill?: TriageBackfill;
+    } = {}
+  ) {
+    this.config = config;
+    this.repositories = services.repositories ?? new RepositoryRegistry(config);
+    this.classifier = services.classifier ?? new OpenAIClassifier(config, this.repositories);
+    this.ruleClassifier = services.ruleClassifier ?? new RuleBasedClassifier(config, this.repositories);
+    this.githubClient = services.githubClient ?? new GitHubClient(config, this.repositories);
+    this.store = services.store ?? getTriageStore(config);
+    this.issueIndex = services.issueIndex ?? 
+      new IssueIndex(config, { githubClient: this.githubClient, store: this.store });
+    this.exampleSelector = services.exampleSelector ?? 
+      new ExampleSelector(config, { issueIndex: this.issueIndex, store: this.store });
+    this.duplicateDetector = services.duplicateDetector ?? 
+      new DuplicateDetector(config, { issueIndex: this.issueIndex });
+    this.assigneeRouter = services.assigneeRouter ?? 
+      new AssigneeRouter(config, { githubClient: this.githubClient });
+    this.labelSynchronizer = services.labelSynchronizer ?? 
+      new LabelSynchronizer(config, { githubClient: this.githubClient, repositories: this.repositories });
+    this.backfill = services.backfill ?? new TriageBackfill(config, {
+      githubClient: this.githubClient,
+      repositories: this.repositories,
+      store: this.store,
+      triage: (payload, correlationId) => this.triageIssue(payload, correlationId)
+    });
   }
 
-  // Main triage orchestration method
+  // Main triage orchestration method; every attempt is recorded in triage history
   public async triageIssue(payload: GitHubWebhookPayload, correlationId: string): Promise<TriageResult> {
+    const startTime = Date.now();
+    const result = await this.runTriage(payload, correlationId);
+    await this.recordTriage(payload, result, Date.now() - startTime, correlationId);
+    if (result.success) {
+      await this.indexIssue(payload, result, correlationId);
+    }
+    return result;
+  }
+
+  private async runTriage(payload: GitHubWebhookPayload, correlationId: string): Promise<TriageResult> {
     try {
       log.info('Starting issue triage', {
         correlationId,
@@ -29,24 +118,58 @@ export class TriageOrchestrator {
         component: 'triage-orchestrator'
       });
 
+      const repo = this.repositories.get(payload.repository.full_name);
+
+      // GitHub App deliveries identify the installation to act as
+      if (payload.installation) {
+        this.githubClient.useInstallation(repo.fullName, payload.installation.id);
+      }
+
+      const issue = {
+        number: payload.issue.number,
+        title: payload.issue.title,
+        body: payload.issue.body || ''
+      };
+
       // Extract context for classification
       const context: TriageContext = {
         title: payload.issue.title,
         body: payload.issue.body || '',
         author: payload.issue.user.login,
-        repository: payload.repository.full_name,
+        repository: repo.fullName,
         existingLabels: payload.issue.labels.map(label => label.name),
-        createdAt: payload.issue.created_at
+        createdAt: payload.issue.created_at,
+        followUps: await this.getFollowUps(repo, payload, correlationId),
+        examples: await this.exampleSelector.selectExamples(repo, issue, correlationId)
       };
 
-      // Step 1: Classify the issue
-      const classification = await this.classifier.classifyIssue(context, correlationId);
+      const duplicates = await this.duplicateDetector.findDuplicates(repo, issue, correlationId);
+
+      // Step 1: Classify the issue, routing low-confidence results to human review
+      let classification: ClassificationResult;
+      try {
+        classification = await this.classify(context, repo, correlationId);
+      } catch (error) {
+        if (error instanceof LowConfidenceError && error.classification) {
+          return await this.routeToReview(payload, repo, context, error, duplicates, correlationId);
+        }
+        throw error;
+      }
 
       // Step 2: Apply labels (only if classification confidence is high enough)
       const labelsToAdd = [classification.primaryLabel];
       if (classification.additionalLabels) {
         labelsToAdd.push(...classification.additionalLabels);
       }
+      const area = this.getConfidentArea(classification);
+      if (area) {
+        labelsToAdd.push(area);
+      }
+      if (duplicates.length > 0) {
+        labelsToAdd.push(this.config.duplicates.label);
+      }
+      const needsInfo = this.getNeedsInfoChange(classification, context.existingLabels);
+      labelsToAdd.push(...needsInfo.add);
 
       // Filter out labels that already exist
       const newLabels = labelsToAdd.filter(label => 
@@ -56,22 +179,49 @@ export class TriageOrchestrator {
       let labelsApplied: string[] = [];
       if (newLabels.length > 0) {
         labelsApplied = await this.githubClient.addLabelsToIssue(
+          repo.fullName,
           payload.issue.number,
           newLabels,
           correlationId
         );
       }
 
-      // Step 3: Post triage comment
+      // A confident classification supersedes an earlier request for human review
+      const reviewLabel = this.config.triage.lowConfidence.label;
+      const labelsToRemove = [
+        ...(context.existingLabels.includes(reviewLabel) ? [reviewLabel] : []),
+        ...needsInfo.remove
+      ];
+      if (labelsToRemove.length > 0) {
+        await this.githubClient.removeLabelsFromIssue(
+          repo.fullName,
+          payload.issue.number,
+          labelsToRemove,
+          correlationId
+        );
+      }
+
+      // Step 3: Route the issue to an owner
+      const assignees = await this.assignIssue(
+        payload,
+        repo,
+        issue,
+        [...context.existingLabels, ...labelsToAdd],
+        correlationId
+      );
+
+      // Step 4: Post triage comment
       let commentPosted = false;
-      if (config.triage.autoComment) {
+      if (repo.autoComment) {
         try {
-          await this.githubClient.postCommentToIssue(
+          const action = await this.githubClient.postCommentToIssue(
+            repo.fullName,
             payload.issue.number,
             classification,
-            correlationId
+            correlationId,
+            { duplicates }
           );
-          commentPosted = true;
+          commentPosted = action !== 'skipped';
         } catch (error) {
           log.warn('Failed to post comment, continuing with triage', {
             correlationId,
@@ -82,9 +232,12 @@ export class TriageOrchestrator {
 
       const result: TriageResult = {
         success: true,
+        outcome: 'labeled',
         classification,
         labelsApplied,
-        commentPosted
+        commentPosted,
+        duplicates,
+        assignees
       };
 
       triageLog.triageCompleted(payload.issue.number, true, correlationId);
@@ -92,9 +245,12 @@ export class TriageOrchestrator {
       log.info('Issue triage completed successfully', {
         correlationId,
         issueNumber: payload.issue.number,
+        repository: repo.fullName,
         primaryLabel: classification.primaryLabel,
         confidence: classification.confidence,
         labelsApplied,
+        missingInfo: classification.missingInfo,
+        assignees,
         commentPosted,
         component: 'triage-orchestrator'
       });
@@ -108,11 +264,545 @@ export class TriageOrchestrator {
 
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error'
+        outcome: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: error instanceof Error && isRetryableError(error),
+        retryAfter: error instanceof CircuitBreakerError && error.retryAt
+          ? new Date(error.retryAt).toISOString()
+          : undefined
       };
     }
   }
 
+  // Persist a triage attempt; history failures never fail the triage itself
+  private async recordTriage(
+    payload: GitHubWebhookPayload,
+    result: TriageResult,
+    durationMs: number,
+    correlationId: string
+  ): Promise<void> {
+    const { classification } = result;
+
+    try {
+      await this.store.recordTriage({
+        correlationId,
+        repository: this.repositories.resolve(payload.repository.full_name)?.fullName ?? payload.repository.full_name,
+        issueNumber: payload.issue.number,
+        issueTitle: payload.issue.title,
+        action: payload.action,
+        outcome: result.outcome ?? (result.success ? 'labeled' : 'failed'),
+        source: classification?.source,
+        provider: classification?.metadata?.provider,
+        model: classification?.metadata?.model,
+        promptVersion: classification?.metadata?.promptVersion,
+        primaryLabel: classification?.primaryLabel,
+        confidence: classification?.confidence,
+        labelsSuggested: classification ? 
+          [classification.primaryLabel, ...(classification.additionalLabels ?? [])] : 
+          [],
+        labelsApplied: result.labelsApplied ?? [],
+        commentPosted: result.commentPosted ?? false,
+        reviewId: result.reviewId,
+        tokensUsed: classification?.metadata?.tokensUsed,
+        durationMs,
+        error: result.error,
+        contentHash: computeIssueContentHash(payload.issue),
+        createdAt: new Date().toISOString()
+      });
+    } catch (error) {
+      log.warn('Failed to record triage history', {
+        correlationId,
+        issueNumber: payload.issue.number,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'triage-orchestrator'
+      });
+    }
+  }
+
+  // The author's comments, so information given in a reply counts towards completeness.
+  // Only fetched when the needs-info workflow is on and the issue has comments.
+  private async getFollowUps(
+    repo: RepositoryConfig,
+    payload: GitHubWebhookPayload,
+    correlationId: string
+  ): Promise<string[] | undefined> {
+    if (!this.config.needsInfo.enabled || !(payload.comment || payload.issue.comments)) {
+      return undefined;
+    }
+
+    try {
+      const comments = await this.githubClient.listAuthorComments(
+        repo.fullName,
+        payload.issue.number,
+        payload.issue.user.login,
+        correlationId
+      );
+      return comments.slice(-MAX_FOLLOW_UPS).map(comment => comment.body);
+    } catch (error) {
+      log.warn('Failed to load author comments, classifying without them', {
+        correlationId,
+        issueNumber: payload.issue.number,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'triage-orchestrator'
+      });
+      return undefined;
+    }
+  }
+
+  // The needs-info label is added while required information is missing and removed
+  // once the issue is complete; an unassessed classification leaves it as it is
+  private getNeedsInfoChange(
+    classification: ClassificationResult,
+    existingLabels: string[]
+  ): { add: string[]; remove: string[] } {
+    const { enabled, label } = this.config.needsInfo;
+    if (!enabled || !classification.missingInfo) {
+      return { add: [], remove: [] };
+    }
+
+    if (classification.missingInfo.length > 0) {
+      return { add: [label], remove: [] };
+    }
+    return { add: [], remove: existingLabels.includes(label) ? [label] : [] };
+  }
+
+  // Remove needs-info when the author responds to an issue that won't be re-triaged
+  // (because a maintainer corrected its labels). Returns whether the label was removed.
+  public async clearNeedsInfo(payload: GitHubWebhookPayload, correlationId: string): Promise<boolean> {
+    const { enabled, label } = this.config.needsInfo;
+    const author = payload.issue.user.login;
+    const responder = payload.comment?.user.login ?? payload.sender.login;
+    if (!enabled || responder !== author || !payload.issue.labels.some(issueLabel => issueLabel.name === label)) {
+      return false;
+    }
+
+    const repo = this.repositories.get(payload.repository.full_name);
+    await this.githubClient.removeLabelsFromIssue(repo.fullName, payload.issue.number, [label], correlationId);
+
+    log.info('Author responded, removed needs-info label', {
+      correlationId,
+      repository: repo.fullName,
+      issueNumber: payload.issue.number,
+      component: 'triage-orchestrator'
+    });
+
+    return true;
+  }
+
+  // Area label to apply, if the classifier was confident enough about it
+  private getConfidentArea(classification: ClassificationResult): string | undefined {
+    const { area } = classification;
+    return area && area.confidence >= this.config.triage.areas.confidenceThreshold ? area.name : undefined;
+  }
+
+  // Assign the issue according to routing rules and CODEOWNERS. Issues that already
+  // have an assignee are left alone, and routing failures never fail the triage.
+  private async assignIssue(
+    payload: GitHubWebhookPayload,
+    repo: RepositoryConfig,
+    issue: { number: number; title: string; body: string },
+    labels: string[],
+    correlationId: string
+  ): Promise<string[]> {
+    if (!this.config.routing.enabled || payload.issue.assignee || payload.issue.assignees?.length) {
+      return [];
+    }
+
+    try {
+      const selected = await this.assigneeRouter.selectAssignees(repo, issue, labels, correlationId);
+      return await this.githubClient.addAssignees(repo.fullName, issue.number, selected, correlationId);
+    } catch (error) {
+      log.warn('Failed to assign issue, continuing with triage', {
+        correlationId,
+        issueNumber: issue.number,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'triage-orchestrator'
+      });
+      return [];
+    }
+  }
+
+  // Add the triaged issue to the local index so later issues can be matched against it
+  private async indexIssue(
+    payload: GitHubWebhookPayload,
+    result: TriageResult,
+    correlationId: string
+  ): Promise<void> {
+    try {
+      const repo = this.repositories.get(payload.repository.full_name);
+      const labels = Array.from(new Set([
+        ...payload.issue.labels.map(label => label.name),
+        ...(result.labelsApplied ?? [])
+      ]));
+      await this.issueIndex.recordIssue(repo, payload.issue, labels);
+    } catch (error) {
+      log.warn('Failed to update issue index', {
+        correlationId,
+        issueNumber: payload.issue.number,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'triage-orchestrator'
+      });
+    }
+  }
+
+  // Record a maintainer replacing the agent's label on a labeled/unlabeled delivery.
+  // Label events never trigger triage themselves, so they can't start a relabel loop.
+  public async recordCorrection(
+    payload: GitHubWebhookPayload,
+    correlationId: string
+  ): Promise<TriageFeedback | undefined> {
+    if (!this.config.feedback.enabled || !payload.label || payload.sender.type === 'Bot') {
+      return undefined;
+    }
+
+    const repo = this.repositories.get(payload.repository.full_name);
+    const latest = await this.store.getLatestTriage(repo.fullName, payload.issue.number);
+    const predictedLabel = latest?.outcome === 'labeled' ? latest.primaryLabel : undefined;
+    if (!latest || !predictedLabel) {
+      return undefined;
+    }
+
+    // Echo of the agent's own label write, or the prediction still stands
+    const currentLabels = payload.issue.labels.map(label => label.name);
+    if (
+      (payload.action === 'labeled' && latest.labelsApplied.includes(payload.label.name)) ||
+      currentLabels.includes(predictedLabel)
+    ) {
+      return undefined;
+    }
+
+    // Removal and replacement arrive as separate deliveries in either order
+    const correctedLabel = payload.action === 'labeled' ?
+      payload.label.name :
+      currentLabels.find(label => label !== predictedLabel && repo.labels.includes(label));
+    if (!correctedLabel || !repo.labels.includes(correctedLabel)) {
+      return undefined;
+    }
+
+    const [previous] = await this.store.listFeedback({
+      repository: repo.fullName,
+      issueNumber: payload.issue.number,
+      limit: 1
+    });
+    if (previous?.predictedLabel === predictedLabel && previous.correctedLabel === correctedLabel) {
+      return undefined;
+    }
+
+    const feedback = await this.store.recordFeedback({
+      correlationId,
+      repository: repo.fullName,
+      issueNumber: payload.issue.number,
+      issueTitle: payload.issue.title,
+      issueBody: payload.issue.body || '',
+      predictedLabel,
+      correctedLabel,
+      predictedConfidence: latest.confidence,
+      triageId: latest.id,
+      correctedBy: payload.sender.login,
+      createdAt: new Date().toISOString()
+    });
+
+    log.info('Recorded maintainer label correction', {
+      correlationId,
+      repository: repo.fullName,
+      issueNumber: payload.issue.number,
+      predictedLabel,
+      correctedLabel,
+      correctedBy: payload.sender.login,
+      component: 'triage-orchestrator'
+    });
+
+    return feedback;
+  }
+
+  // Query recorded triage attempts
+  public async getTriageHistory(filter: TriageHistoryFilter = {}): Promise<TriageRecord[]> {
+    return this.store.listTriages(filter);
+  }
+
+  // Query recorded scheduler runs, newest first
+  public async getSchedulerRuns(filter: SchedulerRunFilter = {}): Promise<SchedulerRun[]> {
+    return this.store.listSchedulerRuns(filter);
+  }
+
+  // Mark a low-confidence issue for review and queue the model's best guess
+  private async routeToReview(
+    payload: GitHubWebhookPayload,
+    repo: RepositoryConfig,
+    context: TriageContext,
+    error: LowConfidenceError,
+    duplicates: DuplicateCandidate[],
+    correlationId: string
+  ): Promise<TriageResult> {
+    const classification = error.classification!;
+    const { label: reviewLabel, suggestComment } = this.config.triage.lowConfidence;
+
+    // The area has its own threshold, so it can be applied while the label awaits review
+    const labelsToAdd = [reviewLabel];
+    const area = this.getConfidentArea(classification);
+    if (area) {
+      labelsToAdd.push(area);
+    }
+    if (duplicates.length > 0) {
+      labelsToAdd.push(this.config.duplicates.label);
+    }
+    const needsInfo = this.getNeedsInfoChange(classification, context.existingLabels);
+    labelsToAdd.push(...needsInfo.add);
+
+    let labelsApplied: string[] = [];
+    const newLabels = labelsToAdd.filter(label => !context.existingLabels.includes(label));
+    if (newLabels.length > 0) {
+      labelsApplied = await this.githubClient.addLabelsToIssue(
+        repo.fullName,
+        payload.issue.number,
+        newLabels,
+        correlationId
+      );
+    }
+    if (needsInfo.remove.length > 0) {
+      await this.githubClient.removeLabelsFromIssue(
+        repo.fullName,
+        payload.issue.number,
+        needsInfo.remove,
+        correlationId
+      );
+    }
+
+    let commentPosted = false;
+    if (repo.autoComment && suggestComment) {
+      try {
+        const action = await this.githubClient.postCommentToIssue(
+          repo.fullName,
+          payload.issue.number,
+          classification,
+          correlationId,
+          { kind: 'suggestion', duplicates }
+        );
+        commentPosted = action !== 'skipped';
+      } catch {
+        log.warn('Failed to post suggestion comment, continuing with review routing', {
+          correlationId,
+          issueNumber: payload.issue.number
+        });
+      }
+    }
+
+    const item = await this.store.addReviewItem({
+      repository: repo.fullName,
+      issueNumber: payload.issue.number,
+      issueTitle: payload.issue.title,
+      issueUrl: payload.issue.html_url,
+      classification,
+      threshold: error.threshold
+    });
+
+    log.info('Low-confidence classification routed to review queue', {
+      correlationId,
+      issueNumber: payload.issue.number,
+      repository: repo.fullName,
+      reviewId: item.id,
+      suggestedLabel: classification.primaryLabel,
+      confidence: classification.confidence,
+      threshold: error.threshold,
+      component: 'triage-orchestrator'
+    });
+
+    return {
+      success: true,
+      outcome: 'needs-review',
+      classification,
+      labelsApplied,
+      commentPosted,
+      reviewId: item.id,
+      duplicates
+    };
+  }
+
+  // List suggestions in the review queue
+  public async listReviewItems(filter: ReviewItemFilter = {}): Promise<ReviewItem[]> {
+    return this.store.listReviewItems(filter);
+  }
+
+  // Apply a queued suggestion (or a maintainer's override) and clear the review label
+  public async approveSuggestion(
+    id: string,
+    correlationId: string,
+    options: { labels?: string[]; reviewer?: string } = {}
+  ): Promise<ReviewItem> {
+    const item = await this.getPendingReviewItem(id);
+    const labels = options.labels && options.labels.length > 0 ? 
+      options.labels : 
+      [item.classification.primaryLabel, ...(item.classification.additionalLabels ?? [])];
+
+    const appliedLabels = await this.githubClient.addLabelsToIssue(
+      item.repository,
+      item.issueNumber,
+      labels,
+      correlationId
+    );
+    await this.githubClient.removeLabelsFromIssue(
+      item.repository,
+      item.issueNumber,
+      [this.config.triage.lowConfidence.label],
+      correlationId
+    );
+
+    log.info('Review suggestion approved', {
+      correlationId,
+      reviewId: id,
+      repository: item.repository,
+      issueNumber: item.issueNumber,
+      labels,
+      component: 'triage-orchestrator'
+    });
+
+    return this.resolveReviewItem(id, {
+      status: 'approved',
+      resolvedBy: options.reviewer,
+      appliedLabels: labels.filter(label => appliedLabels.includes(label))
+    });
+  }
+
+  // Discard a queued suggestion; the issue keeps its review label unless asked otherwise
+  public async rejectSuggestion(
+    id: string,
+    correlationId: string,
+    options: { reviewer?: string; note?: string; clearReviewLabel?: boolean } = {}
+  ): Promise<ReviewItem> {
+    const item = await this.getPendingReviewItem(id);
+
+    if (options.clearReviewLabel) {
+      await this.githubClient.removeLabelsFromIssue(
+        item.repository,
+        item.issueNumber,
+        [this.config.triage.lowConfidence.label],
+        correlationId
+      );
+    }
+
+    log.info('Review suggestion rejected', {
+      correlationId,
+      reviewId: id,
+      repository: item.repository,
+      issueNumber: item.issueNumber,
+      component: 'triage-orchestrator'
+    });
+
+    return this.resolveReviewItem(id, {
+      status: 'rejected',
+      resolvedBy: options.reviewer,
+      note: options.note
+    });
+  }
+
+  private async getPendingReviewItem(id: string): Promise<ReviewItem> {
+    const item = await this.store.getReviewItem(id);
+    if (!item) {
+      throw new ValidationError(`Review item ${id} not found`, 'id');
+    }
+    if (item.status !== 'pending') {
+      throw new ValidationError(`Review item ${id} is already ${item.status}`, 'id');
+    }
+    return item;
+  }
+
+  // Another reviewer may have resolved the item while its labels were being changed
+  private async resolveReviewItem(id: string, resolution: ReviewItemResolution): Promise<ReviewItem> {
+    const resolved = await this.store.resolveReviewItem(id, resolution);
+    if (!resolved) {
+      throw new ValidationError(`Review item ${id} is no longer pending`, 'id');
+    }
+    return resolved;
+  }
+
+  // Create missing labels (and optionally update drifted ones) in a repository
+  public async syncLabels(
+    repository: string,
+    options: { dryRun?: boolean; updateExisting?: boolean },
+    correlationId: string
+  ): Promise<LabelSyncReport> {
+    return this.labelSynchronizer.sync(repository, options, correlationId);
+  }
+
+  // Triage existing issues of a repository, resuming from the last checkpoint
+  public async backfillTriage(
+    repository: string,
+    options: BackfillOptions,
+    correlationId: string
+  ): Promise<BackfillReport> {
+    return this.backfill.run(repository, options, correlationId);
+  }
+
+  // When the open circuit breakers that triage can't do without let requests through
+  // again, or undefined if none is open. Unless rules are off, classification falls
+  // back to them while the LLM is down.
+  public getCircuitRetryAt(): number | undefined {
+    const required = [this.githubClient.breaker];
+    if (this.config.triage.rules.mode === 'off') {
+      required.push(this.classifier.breaker);
+    }
+    return getOpenCircuitRetryAt(required);
+  }
+
+  // Classify with the LLM and/or rule engine according to triage.rules.mode
+  private async classify(
+    context: TriageContext,
+    repo: RepositoryConfig,
+    correlationId: string
+  ): Promise<ClassificationResult> {
+    const { mode, prefilterConfidence } = this.config.triage.rules;
+
+    if (mode === 'off') {
+      return this.classifier.classifyIssue(context, correlationId);
+    }
+
+    if (mode === 'only') {
+      return this.acceptRuleResult(this.ruleClassifier.classify(context), repo, correlationId);
+    }
+
+    if (mode === 'prefilter') {
+      const ruleResult = this.ruleClassifier.classify(context);
+      if (ruleResult.confidence >= prefilterConfidence) {
+        log.info('Rule-based classification confident, skipping LLM', {
+          correlationId,
+          primaryLabel: ruleResult.primaryLabel,
+          confidence: ruleResult.confidence,
+          component: 'triage-orchestrator'
+        });
+        return this.acceptRuleResult(ruleResult, repo, correlationId);
+      }
+    }
+
+    try {
+      return await this.classifier.classifyIssue(context, correlationId);
+    } catch (error) {
+      // A low-confidence answer is a real answer, not an LLM failure
+      if (error instanceof LowConfidenceError) {
+        throw error;
+      }
+
+      log.warn('LLM classification failed, falling back to rules', {
+        correlationId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        component: 'triage-orchestrator'
+      });
+
+      return this.acceptRuleResult(this.ruleClassifier.classify(context), repo, correlationId);
+    }
+  }
+
+  // Apply the repository confidence threshold to a rule-based result
+  private acceptRuleResult(
+    result: ClassificationResult,
+    repo: RepositoryConfig,
+    correlationId: string
+  ): ClassificationResult {
+    if (result.confidence < repo.confidenceThreshold) {
+      throw new LowConfidenceError(result.confidence, repo.confidenceThreshold, { correlationId }, result);
+    }
+    return result;
+  }
+
   // Health check for all services
   public async healthCheck(correlationId: string): Promise<{
     overall: boolean;
@@ -120,6 +810,7 @@ export class TriageOrchestrator {
       classifier: boolean;
       github: boolean;
     };
+    circuitBreakers: CircuitBreakerSnapshot[];
   }> {
     const [classifierHealthy, githubHealthy] = await Promise.all([
       this.classifier.healthCheck(correlationId).catch(() => false),
@@ -141,7 +832,8 @@ export class TriageOrchestrator {
       services: {
         classifier: classifierHealthy,
         github: githubHealthy
-      }
+      },
+      circuitBreakers: getCircuitBreakerSnapshots()
     };
   }
 }
@@ -0,0 +1,78 @@
+import { postJson } from './http.js';
+import type { ClassifierProvider, CompletionRequest, CompletionResponse } from './index.js';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Anthropic Messages API request/response types
+interface AnthropicRequest {
+  model: string;
+  system: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: string }>;
+  temperature: number;
+  max_tokens: number;
+}
+
+interface AnthropicResponse {
+  id: string;
+  model: string;
+  content: Array<{ type: string; text?: string }>;
+  stop_reason: string | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Anthropic-style messages APIs
+export class AnthropicProvider implements ClassifierProvider {
+  readonly name = 'anthropic';
+
+  constructor(
+    private readonly options: {
+      apiKey: string;
+      model: string;
+      baseUrl: string;
+      apiVersion?: string;
+      timeout: number;
+    }
+  ) {}
+
+  public async complete(request: CompletionRequest, correlationId: string): Promise<CompletionResponse> {
+    const { apiKey, model, baseUrl, apiVersion, timeout } = this.options;
+
+    const payload: AnthropicRequest = {
+      model,
+      // There is no JSON mode; the system prompt already demands JSON output
+      system: request.system,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      max_tokens: request.maxTokens
+    };
+
+    const response = await postJson<AnthropicResponse>(`${baseUrl}/messages`, {
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': apiVersion ?? ANTHROPIC_VERSION
+      },
+      body: payload,
+      timeout,
+      providerName: this.name,
+      correlationId,
+      extractErrorMessage: (errorData) => errorData?.error?.message
+    });
+
+    const text = (response.content ?? [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text ?? '')
+      .join('');
+
+    return {
+      content: text,
+      model: response.model || model,
+      finishReason: response.stop_reason === 'end_turn' || response.stop_reason === 'stop_sequence' ? 'stop' : 
+        response.stop_reason === 'max_tokens' ? 'length' : 'other',
+      rawFinishReason: response.stop_reason ?? undefined,
+      tokensUsed: (response.usage?.input_tokens ?? 0) + (response.usage?.output_tokens ?? 0)
+    };
+  }
+}
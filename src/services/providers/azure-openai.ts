@@ -0,0 +1,40 @@
+import { postJson } from './http.js';
+import {
+  toChatCompletionRequest,
+  fromChatCompletionResponse,
+  extractOpenAIErrorMessage,
+  type OpenAIResponse
+} from './openai.js';
+import type { ClassifierProvider, CompletionRequest, CompletionResponse } from './index.js';
+
+// Azure OpenAI deployments: the model is selected by deployment name in the URL
+export class AzureOpenAIProvider implements ClassifierProvider {
+  readonly name = 'azure-openai';
+
+  constructor(
+    private readonly options: {
+      apiKey: string;
+      endpoint: string;
+      deployment: string;
+      apiVersion: string;
+      timeout: number;
+    }
+  ) {}
+
+  public async complete(request: CompletionRequest, correlationId: string): Promise<CompletionResponse> {
+    const { apiKey, endpoint, deployment, apiVersion, timeout } = this.options;
+    const url = `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/chat/completions` +
+      `?api-version=${encodeURIComponent(apiVersion)}`;
+
+    const response = await postJson<OpenAIResponse>(url, {
+      headers: { 'api-key': apiKey },
+      body: toChatCompletionRequest(request),
+      timeout,
+      providerName: this.name,
+      correlationId,
+      extractErrorMessage: extractOpenAIErrorMessage
+    });
+
+    return fromChatCompletionResponse(response, deployment);
+  }
+}
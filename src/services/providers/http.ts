@@ -0,0 +1,116 @@
+import {
+  OpenAIApiError,
+  OpenAIRateLimitError,
+  OpenAIAuthError,
+  TimeoutError
+} from '../../utils/errors.js';
+import type { LogContext } from '../../types/index.js';
+
+export const USER_AGENT = 'github-triage-agent/1.0.0';
+
+// POST a JSON body and return the parsed JSON response, translating HTTP
+// failures into the OpenAI error family regardless of which provider answered
+export async function postJson<T>(
+  url: string,
+  options: {
+    headers: Record<string, string>;
+    body: unknown;
+    timeout: number;
+    providerName: string;
+    correlationId: string;
+    // Pull a human-readable message out of the provider's error body
+    extractErrorMessage: (errorData: any) => string | undefined;
+  }
+): Promise<T> {
+  const { headers, body, timeout, providerName, correlationId, extractErrorMessage } = options;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': USER_AGENT,
+        ...headers
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      await handleApiError(response, extractErrorMessage, { correlationId, provider: providerName });
+    }
+
+    return await response.json() as T;
+
+  } catch (error) {
+    clearTimeout(timeoutId);
+
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new TimeoutError(`${providerName} API request`, timeout, { correlationId });
+    }
+
+    // Re-throw errors already translated from the HTTP response
+    if (error instanceof OpenAIApiError ||
+        error instanceof OpenAIRateLimitError ||
+        error instanceof OpenAIAuthError) {
+      throw error;
+    }
+
+    if (error instanceof Error) {
+      throw new OpenAIApiError(`Request failed: ${error.message}`, undefined, { correlationId, provider: providerName });
+    }
+
+    throw new OpenAIApiError('Unknown request error', undefined, { correlationId, provider: providerName });
+  }
+}
+
+// Map an unsuccessful HTTP response onto the matching application error
+async function handleApiError(
+  response: Response,
+  extractErrorMessage: (errorData: any) => string | undefined,
+  context: LogContext
+): Promise<never> {
+  let errorData: any;
+
+  try {
+    errorData = await response.json();
+  } catch {
+    errorData = {};
+  }
+
+  const errorMessage = extractErrorMessage(errorData) || 'Unknown API error';
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      throw new OpenAIAuthError(`Authentication failed: ${errorMessage}`, context);
+
+    case 429: {
+      const retryAfter = response.headers.get('retry-after');
+      const retryAfterSeconds = retryAfter ? parseInt(retryAfter, 10) : undefined;
+      throw new OpenAIRateLimitError(
+        `Rate limit exceeded: ${errorMessage}`,
+        Number.isNaN(retryAfterSeconds) ? undefined : retryAfterSeconds,
+        context
+      );
+    }
+
+    case 400:
+    case 404:
+      throw new OpenAIApiError(`Bad request: ${errorMessage}`, response.status, context);
+
+    case 500:
+    case 502:
+    case 503:
+    case 504:
+    case 529: // Anthropic "overloaded"
+      throw new OpenAIApiError(`Server error: ${errorMessage}`, response.status, context);
+
+    default:
+      throw new OpenAIApiError(`API error: ${errorMessage}`, response.status, context);
+  }
+}
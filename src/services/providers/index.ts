@@ -0,0 +1,82 @@
+import { OpenAIProvider } from './openai.js';
+import { AzureOpenAIProvider } from './azure-openai.js';
+import { AnthropicProvider } from './anthropic.js';
+import type { AppConfig } from '../../types/index.js';
+
+// Provider-neutral completion request
+export interface CompletionRequest {
+  system: string;
+  prompt: string;
+  temperature: number;
+  maxTokens: number;
+  // Ask for a JSON object response where the provider supports it
+  jsonMode: boolean;
+}
+
+export interface CompletionResponse {
+  content: string;
+  model: string;
+  finishReason: 'stop' | 'length' | 'other';
+  rawFinishReason?: string;
+  tokensUsed: number;
+}
+
+// An LLM backend the classifier can send prompts to. Implementations translate
+// HTTP failures into the OpenAIApiError / OpenAIRateLimitError / OpenAIAuthError family.
+export interface ClassifierProvider {
+  readonly name: string;
+  complete(request: CompletionRequest, correlationId: string): Promise<CompletionResponse>;
+}
+
+const DEFAULT_BASE_URLS = {
+  openai: 'https://api.openai.com/v1',
+  anthropic: 'https://api.anthropic.com/v1'
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+
+// Build the provider selected in configuration
+export function createClassifierProvider(config: AppConfig, timeout: number = 30000): ClassifierProvider {
+  const { provider, apiKey, model, baseUrl, apiVersion, deployment } = config.openai;
+  const trimmedBaseUrl = baseUrl?.replace(/\/$/, '');
+
+  switch (provider) {
+    case 'anthropic':
+      return new AnthropicProvider({
+        apiKey: apiKey!,
+        model,
+        baseUrl: trimmedBaseUrl ?? DEFAULT_BASE_URLS.anthropic,
+        apiVersion,
+        timeout
+      });
+
+    case 'azure-openai':
+      return new AzureOpenAIProvider({
+        apiKey: apiKey!,
+        endpoint: trimmedBaseUrl!,
+        deployment: deployment ?? model,
+        apiVersion: apiVersion ?? DEFAULT_AZURE_API_VERSION,
+        timeout
+      });
+
+    case 'openai-compatible':
+      return new OpenAIProvider({
+        apiKey,
+        model,
+        baseUrl: trimmedBaseUrl!,
+        timeout,
+        name: 'openai-compatible'
+      });
+
+    case 'openai':
+    default:
+      return new OpenAIProvider({
+        apiKey,
+        model,
+        baseUrl: trimmedBaseUrl ?? DEFAULT_BASE_URLS.openai,
+        timeout
+      });
+  }
+}
+
+export { OpenAIProvider, AzureOpenAIProvider, AnthropicProvider };
@@ -0,0 +1,98 @@
+import { postJson } from './http.js';
+import type { ClassifierProvider, CompletionRequest, CompletionResponse } from './index.js';
+
+// OpenAI API request/response types
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface OpenAIRequest {
+  model?: string;
+  messages: OpenAIMessage[];
+  temperature: number;
+  max_tokens: number;
+  response_format?: { type: 'json_object' };
+}
+
+export interface OpenAIResponse {
+  id: string;
+  object: string;
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: 'assistant';
+      content: string;
+    };
+    finish_reason: string;
+  }>;
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  };
+}
+
+// Build a chat completions payload shared by OpenAI and Azure OpenAI
+export function toChatCompletionRequest(request: CompletionRequest, model?: string): OpenAIRequest {
+  return {
+    ...(model && { model }),
+    messages: [
+      { role: 'system', content: request.system },
+      { role: 'user', content: request.prompt }
+    ],
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    ...(request.jsonMode && { response_format: { type: 'json_object' as const } })
+  };
+}
+
+// Map a chat completions response onto the provider-neutral shape
+export function fromChatCompletionResponse(response: OpenAIResponse, fallbackModel: string): CompletionResponse {
+  const choice = response.choices?.[0];
+
+  return {
+    content: choice?.message?.content ?? '',
+    model: response.model || fallbackModel,
+    finishReason: choice?.finish_reason === 'stop' ? 'stop' : 
+      choice?.finish_reason === 'length' ? 'length' : 'other',
+    rawFinishReason: choice?.finish_reason,
+    tokensUsed: response.usage?.total_tokens ?? 0
+  };
+}
+
+export const extractOpenAIErrorMessage = (errorData: any): string | undefined => errorData?.error?.message;
+
+// OpenAI and OpenAI-compatible servers (vLLM, Ollama, llama.cpp, ...)
+export class OpenAIProvider implements ClassifierProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly options: {
+      apiKey?: string;
+      model: string;
+      baseUrl: string;
+      timeout: number;
+      name?: string;
+    }
+  ) {
+    this.name = options.name ?? 'openai';
+  }
+
+  public async complete(request: CompletionRequest, correlationId: string): Promise<CompletionResponse> {
+    const { apiKey, model, baseUrl, timeout } = this.options;
+
+    const response = await postJson<OpenAIResponse>(`${baseUrl}/chat/completions`, {
+      headers: apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {},
+      body: toChatCompletionRequest(request, model),
+      timeout,
+      providerName: this.name,
+      correlationId,
+      extractErrorMessage: extractOpenAIErrorMessage
+    });
+
+    return fromChatCompletionResponse(response, model);
+  }
+}
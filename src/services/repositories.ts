@@ -0,0 +1,87 @@
+import { ValidationError } from '../utils/errors.js';
+import type { AppConfig, RepositoryConfig } from '../types/index.js';
+
+// Normalize "owner/name" keys; GitHub repository names are case-insensitive
+function toKey(fullName: string): string {
+  return fullName.trim().toLowerCase();
+}
+
+// Registry of repositories this deployment triages, with per-repo settings
+// resolved against the global triage defaults
+export class RepositoryRegistry {
+  private readonly repositories = new Map<string, RepositoryConfig>();
+  private readonly defaultKey: string;
+
+  constructor(config: AppConfig) {
+    const defaults = {
+      labelDefinitions: config.triage.labels,
+      guidelines: config.triage.guidelines,
+      confidenceThreshold: config.triage.confidenceThreshold,
+      autoComment: config.triage.autoComment,
+      areas: config.triage.areas.values,
+      routingRules: config.routing.rules,
+      commentLocale: config.comments.locale,
+      commentTemplates: config.comments.templates
+    };
+
+    const { owner, name } = config.github.repo;
+    this.defaultKey = toKey(`${owner}/${name}`);
+    this.register({ owner, name, ...defaults });
+
+    for (const repo of config.repositories) {
+      this.register({
+        owner: repo.owner,
+        name: repo.name,
+        labelDefinitions: repo.labels ?? defaults.labelDefinitions,
+        confidenceThreshold: repo.confidenceThreshold ?? defaults.confidenceThreshold,
+        autoComment: repo.autoComment ?? defaults.autoComment,
+        guidelines: repo.guidelines ?? repo.promptHints ?? defaults.guidelines,
+        installationId: repo.installationId,
+        areas: repo.areas ?? defaults.areas,
+        routingRules: repo.routingRules ?? defaults.routingRules,
+        commentLocale: repo.commentLocale ?? defaults.commentLocale,
+        commentTemplates: {
+          triage: repo.commentTemplates?.triage ?? defaults.commentTemplates.triage,
+          suggestion: repo.commentTemplates?.suggestion ?? defaults.commentTemplates.suggestion,
+          labels: { ...defaults.commentTemplates.labels, ...repo.commentTemplates?.labels }
+        }
+      });
+    }
+  }
+
+  private register(repo: Omit<RepositoryConfig, 'fullName' | 'labels'>): void {
+    const fullName = `${repo.owner}/${repo.name}`;
+    const labels = repo.labelDefinitions.map(label => label.name);
+    this.repositories.set(toKey(fullName), { ...repo, fullName, labels });
+  }
+
+  // Check whether a repository (by "owner/name") is registered
+  public has(fullName: string): boolean {
+    return this.repositories.has(toKey(fullName));
+  }
+
+  // Look up a repository, returning undefined if it isn't registered
+  public resolve(fullName: string): RepositoryConfig | undefined {
+    return this.repositories.get(toKey(fullName));
+  }
+
+  // Look up a repository, throwing if it isn't registered
+  public get(fullName: string): RepositoryConfig {
+    const repo = this.resolve(fullName);
+    if (!repo) {
+      throw new ValidationError(`Repository ${fullName} is not configured for triage`, 'repository');
+    }
+    return repo;
+  }
+
+  // The repository configured via github.repo
+  public getDefault(): RepositoryConfig {
+    return this.repositories.get(this.defaultKey)!;
+  }
+
+  public list(): RepositoryConfig[] {
+    return Array.from(this.repositories.values());
+  }
+}
+
+export default RepositoryRegistry;
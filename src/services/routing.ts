@@ -0,0 +1,201 @@
+import { log } from '../utils/logger.js';
+import { CODEOWNERS_PATHS, extractPaths, findOwners, parseCodeowners, type CodeownersEntry } from './codeowners.js';
+import type GitHubClient from './github.js';
+import type { AppConfig, RepositoryConfig, RoutingRule } from '../types/index.js';
+
+// How long CODEOWNERS files and team memberships are reused before refetching
+const CACHE_TTL_MS = 15 * 60 * 1000;
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+// Picks assignees for a triaged issue: the first routing rule whose labels or
+// keywords match, otherwise the CODEOWNERS owners of file paths the issue mentions.
+// Teams are expanded to their members, then up to routing.maxAssignees of them are
+// chosen by the configured strategy.
+export class AssigneeRouter {
+  private readonly config: AppConfig;
+  private readonly githubClient: GitHubClient;
+  private readonly codeowners = new Map<string, CacheEntry<CodeownersEntry[]>>();
+  private readonly teams = new Map<string, CacheEntry<string[]>>();
+  // Next position in each candidate pool for round-robin assignment
+  private readonly rotation = new Map<string, number>();
+
+  constructor(config: AppConfig, services: { githubClient: GitHubClient }) {
+    this.config = config;
+    this.githubClient = services.githubClient;
+  }
+
+  public async selectAssignees(
+    repo: RepositoryConfig,
+    issue: { number: number; title: string; body: string },
+    labels: string[],
+    correlationId: string
+  ): Promise<string[]> {
+    const owners = this.matchRule(repo.routingRules, issue, labels) ??
+      await this.matchCodeowners(repo, issue.body, correlationId);
+    if (owners.length === 0) {
+      return [];
+    }
+
+    const pool = await this.expandTeams(repo, owners, correlationId);
+    if (pool.length === 0) {
+      return [];
+    }
+
+    const selected = this.config.routing.strategy === 'least-loaded' ?
+      await this.pickLeastLoaded(repo, pool, correlationId) :
+      this.pickRoundRobin(repo, pool);
+
+    log.info('Selected assignees for issue', {
+      correlationId,
+      repository: repo.fullName,
+      issueNumber: issue.number,
+      candidates: pool,
+      selected,
+      strategy: this.config.routing.strategy,
+      component: 'assignee-router'
+    });
+
+    return selected;
+  }
+
+  // Owners from the first rule that matches a label or mentioned keyword
+  private matchRule(
+    rules: RoutingRule[],
+    issue: { title: string; body: string },
+    labels: string[]
+  ): string[] | undefined {
+    const text = `${issue.title}\n${issue.body}`.toLowerCase();
+
+    const rule = rules.find(candidate =>
+      candidate.labels.some(label => labels.includes(label)) ||
+      candidate.keywords.some(keyword => containsWord(text, keyword.toLowerCase()))
+    );
+
+    return rule?.assignees;
+  }
+
+  // Owners of every mentioned path that CODEOWNERS covers
+  private async matchCodeowners(repo: RepositoryConfig, body: string, correlationId: string): Promise<string[]> {
+    if (!this.config.routing.codeowners) {
+      return [];
+    }
+
+    const paths = extractPaths(body);
+    if (paths.length === 0) {
+      return [];
+    }
+
+    const entries = await this.loadCodeowners(repo, correlationId);
+    return Array.from(new Set(paths.flatMap(path => findOwners(entries, path))));
+  }
+
+  private async loadCodeowners(repo: RepositoryConfig, correlationId: string): Promise<CodeownersEntry[]> {
+    const key = repo.fullName.toLowerCase();
+    const cached = this.codeowners.get(key);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.value;
+    }
+
+    let entries: CodeownersEntry[] = [];
+    for (const path of CODEOWNERS_PATHS) {
+      const content = await this.githubClient.getFileContent(repo.fullName, path, correlationId);
+      if (content !== undefined) {
+        entries = parseCodeowners(content);
+        break;
+      }
+    }
+
+    this.codeowners.set(key, { value: entries, fetchedAt: Date.now() });
+    return entries;
+  }
+
+  // Replace "@org/team" owners with the team's members, dropping the "@" from users
+  private async expandTeams(repo: RepositoryConfig, owners: string[], correlationId: string): Promise<string[]> {
+    const logins: string[] = [];
+
+    for (const owner of owners) {
+      const [org, team] = owner.replace(/^@/, '').split('/');
+      if (!team) {
+        logins.push(org);
+        continue;
+      }
+
+      try {
+        logins.push(...await this.getTeamMembers(repo, org, team, correlationId));
+      } catch (error) {
+        log.warn('Failed to expand team for assignment, skipping it', {
+          correlationId,
+          team: owner,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          component: 'assignee-router'
+        });
+      }
+    }
+
+    const seen = new Set<string>();
+    return logins.filter(login => {
+      const key = login.toLowerCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  private async getTeamMembers(
+    repo: RepositoryConfig,
+    org: string,
+    team: string,
+    correlationId: string
+  ): Promise<string[]> {
+    const key = `${org}/${team}`.toLowerCase();
+    const cached = this.teams.get(key);
+    if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+      return cached.value;
+    }
+
+    const members = await this.githubClient.listTeamMembers(repo.fullName, org, team, correlationId);
+    this.teams.set(key, { value: members, fetchedAt: Date.now() });
+    return members;
+  }
+
+  // Take turns through the pool; rotation is kept in memory and restarts with the process
+  private pickRoundRobin(repo: RepositoryConfig, pool: string[]): string[] {
+    const key = `${repo.fullName.toLowerCase()}:${pool.map(login => login.toLowerCase()).join(',')}`;
+    const start = this.rotation.get(key) ?? 0;
+    const count = Math.min(this.config.routing.maxAssignees, pool.length);
+
+    this.rotation.set(key, (start + count) % pool.length);
+    return Array.from({ length: count }, (_value, i) => pool[(start + i) % pool.length]);
+  }
+
+  // Candidates with the fewest open issues assigned in this repository
+  private async pickLeastLoaded(repo: RepositoryConfig, pool: string[], correlationId: string): Promise<string[]> {
+    const loads = await Promise.all(pool.map(async (login, order) => {
+      const open = await this.githubClient.listIssues(repo.fullName, {
+        state: 'open',
+        assignee: login,
+        perPage: 100
+      }, correlationId);
+      return { login, order, load: open.length };
+    }));
+
+    return loads
+      .sort((a, b) => a.load - b.load || a.order - b.order)
+      .slice(0, this.config.routing.maxAssignees)
+      .map(candidate => candidate.login);
+  }
+}
+
+// Whole-word (or whole-phrase) match, so "api" doesn't match "rapid"
+function containsWord(text: string, phrase: string): boolean {
+  const escaped = phrase.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^a-z0-9_])${escaped}($|[^a-z0-9_])`).test(text);
+}
+
+export default AssigneeRouter;
@@ -0,0 +1,167 @@
+import RepositoryRegistry from './repositories.js';
+import type {
+  AppConfig,
+  ClassificationResult,
+  TriageContext
+} from '../types/index.js';
+
+// A single deterministic signal that votes for a label
+interface Rule {
+  label: string;
+  description: string;
+  weight: number;
+  target: 'title' | 'body' | 'text';
+  pattern: RegExp;
+}
+
+// Signal weights: a title prefix or stack trace is strong evidence on its own,
+// a template section is moderate, and each keyword only nudges the score
+const WEIGHTS = {
+  titlePrefix: 3,
+  stackTrace: 2.5,
+  templateSection: 2,
+  keyword: 1
+};
+
+// Keyword matches beyond this many per label stop adding to the score
+const MAX_KEYWORD_MATCHES = 3;
+
+// Stack traces from common runtimes
+const STACK_TRACE_PATTERNS = [
+  /^\s+at\s+[\w$.<>\[\]]+\s*\(?.*:\d+(:\d+)?\)?$/m,            // JavaScript / Java
+  /Traceback \(most recent call last\):/,                      // Python
+  /^\s*File ".+", line \d+/m,                                  // Python frames
+  /Exception in thread "[^"]+"/,                                // Java
+  /^panic: /m,                                                 // Go
+  /^thread '.+' panicked at/m,                                 // Rust
+  /^\s*#\d+\s+0x[0-9a-f]+ in /m                                // gdb backtrace
+];
+
+const DEFAULT_RULES: Rule[] = [
+  // Title prefixes
+  { label: 'bug', description: 'bug title prefix', weight: WEIGHTS.titlePrefix, target: 'title', pattern: /^\s*(\[bug\]|bug:|fix:)/i },
+  { label: 'feature-request', description: 'feature title prefix', weight: WEIGHTS.titlePrefix, target: 'title', pattern: /^\s*(\[feature( request)?\]|\[feat\]|feat(ure)?:|\[rfe\])/i },
+  { label: 'documentation', description: 'docs title prefix', weight: WEIGHTS.titlePrefix, target: 'title', pattern: /^\s*(\[docs?\]|docs?:|\[documentation\])/i },
+  { label: 'question', description: 'question title prefix', weight: WEIGHTS.titlePrefix, target: 'title', pattern: /^\s*(\[question\]|question:|\[q\]|\[help\])/i },
+  { label: 'enhancement', description: 'enhancement title prefix', weight: WEIGHTS.titlePrefix, target: 'title', pattern: /^\s*(\[enhancement\]|\[improvement\]|enhancement:|perf:|refactor:)/i },
+
+  // Issue template sections
+  { label: 'bug', description: 'reproduction steps section', weight: WEIGHTS.templateSection, target: 'body', pattern: /^#{1,6}\s*(steps to reproduce|to reproduce|reproduction)/im },
+  { label: 'bug', description: 'expected/actual behavior sections', weight: WEIGHTS.templateSection, target: 'body', pattern: /^#{1,6}\s*(expected (behavior|behaviour|result)|actual (behavior|behaviour|result)|current behavior)/im },
+  { label: 'feature-request', description: 'feature request template', weight: WEIGHTS.templateSection, target: 'body', pattern: /(is your feature request related to a problem|describe the solution you'd like|^#{1,6}\s*(proposed solution|motivation|use case))/im },
+  { label: 'documentation', description: 'documentation template', weight: WEIGHTS.templateSection, target: 'body', pattern: /^#{1,6}\s*(documentation (link|page|url)|which (page|docs))/im },
+  { label: 'question', description: 'question template', weight: WEIGHTS.templateSection, target: 'body', pattern: /^#{1,6}\s*(your question|question)\s*$/im },
+
+  // Keywords
+  { label: 'bug', description: 'crash/error wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(crash(es|ed|ing)?|segfault|exception|stack ?trace)\b/i },
+  { label: 'bug', description: 'broken behavior wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(broken|doesn'?t work|does not work|not working|fails?|failing|regression)\b/i },
+  { label: 'bug', description: 'error wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(error|bug|unexpected(ly)?)\b/i },
+  { label: 'feature-request', description: 'new capability wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(add support for|support for|would be (nice|great|useful)|feature request|it would help if|please add)\b/i },
+  { label: 'feature-request', description: 'proposal wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(propos(e|al)|new (option|feature|command|flag|endpoint))\b/i },
+  { label: 'documentation', description: 'docs wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(docs?|documentation|readme|typo|tutorial|example in the guide)\b/i },
+  { label: 'documentation', description: 'unclear docs wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(not documented|undocumented|outdated (docs|documentation|example))\b/i },
+  { label: 'question', description: 'question wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(how (do|can|should) i|is it possible|what is the (best|right) way|can (someone|anyone) (help|explain))\b/i },
+  { label: 'question', description: 'question mark in title', weight: WEIGHTS.keyword, target: 'title', pattern: /\?\s*$/ },
+  { label: 'enhancement', description: 'improvement wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(improve(ment)?|enhance(ment)?|optimi[sz]e|faster|performance|better (error|message|ux))\b/i },
+  { label: 'enhancement', description: 'refinement wording', weight: WEIGHTS.keyword, target: 'text', pattern: /\b(make .+ (configurable|optional)|clean ?up|refactor)\b/i }
+];
+
+const CRITICAL_PATTERN = /\b(data (loss|corruption)|security|vulnerab(le|ility)|production (is )?down|outage)\b/i;
+const HIGH_PATTERN = /\b(crash(es|ed|ing)?|segfault|panic|hangs?|freez(e|es|ing)|cannot start|unusable)\b/i;
+
+// Deterministic, offline issue classifier built from keyword/regex rules, issue
+// template sections, title prefixes and stack-trace detection
+export class RuleBasedClassifier {
+  private readonly repositories: RepositoryRegistry;
+  private readonly rules: Rule[];
+
+  constructor(config: AppConfig, repositories: RepositoryRegistry = new RepositoryRegistry(config)) {
+    this.repositories = repositories;
+    this.rules = [
+      ...DEFAULT_RULES,
+      ...config.triage.rules.custom.map((rule): Rule => ({
+        label: rule.label,
+        description: rule.description ?? `custom rule for ${rule.label}`,
+        weight: rule.weight,
+        target: rule.target,
+        pattern: new RegExp(rule.pattern, 'im')
+      }))
+    ];
+  }
+
+  public classify(context: TriageContext): ClassificationResult {
+    const repo = this.repositories.get(context.repository);
+    const scores = new Map<string, { score: number; keywordMatches: number; signals: string[] }>();
+
+    for (const label of repo.labels) {
+      scores.set(label, { score: 0, keywordMatches: 0, signals: [] });
+    }
+
+    const text = `${context.title}\n${context.body}`;
+
+    for (const rule of this.rules) {
+      const entry = scores.get(rule.label);
+      if (!entry) {
+        continue; // Label not available in this repository
+      }
+
+      const input = rule.target === 'title' ? context.title : rule.target === 'body' ? context.body : text;
+      if (!rule.pattern.test(input)) {
+        continue;
+      }
+
+      if (rule.weight <= WEIGHTS.keyword) {
+        if (entry.keywordMatches >= MAX_KEYWORD_MATCHES) {
+          continue;
+        }
+        entry.keywordMatches++;
+      }
+
+      entry.score += rule.weight;
+      entry.signals.push(rule.description);
+    }
+
+    const hasStackTrace = STACK_TRACE_PATTERNS.some(pattern => pattern.test(context.body));
+    const bugEntry = scores.get('bug');
+    if (hasStackTrace && bugEntry) {
+      bugEntry.score += WEIGHTS.stackTrace;
+      bugEntry.signals.push('stack trace');
+    }
+
+    const ranked = Array.from(scores.entries())
+      .sort(([, a], [, b]) => b.score - a.score);
+
+    const [topLabel, top] = ranked[0];
+    const runnerUp = ranked[1]?.[1].score ?? 0;
+
+    if (top.score === 0) {
+      return {
+        primaryLabel: topLabel,
+        confidence: 0,
+        reasoning: 'No rule matched this issue.',
+        source: 'rules'
+      };
+    }
+
+    // Confidence grows with total evidence and shrinks when another label is close behind
+    const strength = 1 - Math.exp(-top.score / 2.5);
+    const margin = (top.score - runnerUp) / top.score;
+    const confidence = Math.round(Math.min(0.99, strength * margin) * 100) / 100;
+
+    const result: ClassificationResult = {
+      primaryLabel: topLabel,
+      confidence,
+      reasoning: `Rule-based classification from: ${top.signals.join(', ')}.`,
+      source: 'rules'
+    };
+
+    if (topLabel === 'bug') {
+      result.severity = CRITICAL_PATTERN.test(text) ? 'critical' : 
+        HIGH_PATTERN.test(text) || hasStackTrace ? 'high' : 'medium';
+    }
+
+    return result;
+  }
+}
+
+export default RuleBasedClassifier;
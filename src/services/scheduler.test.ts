@@ -0,0 +1,126 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import TriageScheduler from './scheduler.js';
+import RepositoryRegistry from './repositories.js';
+import { InMemoryTriageStore } from '../storage/index.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+import type GitHubClient from './github.js';
+import type { GitHubComment, GitHubIssueEvent } from './github.js';
+import type TriageJobQueue from './job-queue.js';
+import type { GitHubIssue, GitHubWebhookPayload } from '../types/index.js';
+
+const REMINDER_MARKER = '<!-- github-triage-agent:needs-info-reminder -->';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY_MS).toISOString();
+
+const issue = {
+  number: 1347,
+  title: 'Crash when saving a file',
+  body: 'It crashes',
+  user: { login: 'octocat' },
+  labels: [{ name: 'needs-info' }],
+  state: 'open',
+  created_at: daysAgo(30)
+} as unknown as GitHubIssue;
+
+const labeledEvent: GitHubIssueEvent = {
+  id: 1,
+  event: 'labeled',
+  actor: { login: 'triage-bot' },
+  label: { name: 'needs-info' },
+  created_at: daysAgo(25)
+};
+
+const comment = (id: number, login: string, body: string, createdAt: string): GitHubComment => ({
+  id,
+  body,
+  user: { login },
+  created_at: createdAt,
+  updated_at: createdAt
+});
+
+// A listing whose first page held only pull requests, so it came back empty
+const pages = (issues: GitHubIssue[]) => [{ issues: [], hasMore: true }, { issues, hasMore: false }];
+
+function createScheduler(listing: Array<{ issues: GitHubIssue[]; hasMore: boolean }>, comments: GitHubComment[] = []) {
+  const config = createTestConfig({ needsInfo: { enabled: true } });
+  const githubClient = {
+    listIssuePage: jest.fn(async (_repository: string, options: { page?: number }) =>
+      listing[(options.page ?? 1) - 1] ?? { issues: [], hasMore: false }),
+    listIssueEvents: jest.fn(async () => [labeledEvent]),
+    listIssueComments: jest.fn(async () => comments),
+    getAgentIdentity: jest.fn(async () => ({ type: 'user' as const, login: 'triage-bot' })),
+    createComment: jest.fn(async (_repository: string, _issueNumber: number, _body: string) => undefined),
+    closeIssue: jest.fn(async (_repository: string, _issueNumber: number, _reason: string, _correlationId: string) => undefined)
+  };
+  const queue = {
+    listJobs: jest.fn(async () => []),
+    enqueue: jest.fn(async (payload: GitHubWebhookPayload, _correlationId: string) => ({ id: `job-${payload.issue!.number}` }))
+  };
+  const scheduler = new TriageScheduler(config, {
+    githubClient: githubClient as unknown as GitHubClient,
+    repositories: new RepositoryRegistry(config),
+    queue: queue as unknown as TriageJobQueue,
+    store: new InMemoryTriageStore()
+  });
+
+  return { scheduler, githubClient, queue };
+}
+
+// Sweep one needs-info issue with the given comments; the agent posts as triage-bot
+async function sweep(comments: GitHubComment[]) {
+  const { scheduler, githubClient } = createScheduler(pages([issue]), comments);
+
+  const run = await scheduler.run('stale-needs-info');
+  return { run, githubClient };
+}
+
+describe('TriageScheduler untriaged sweep', () => {
+  it('reads past a page of only pull requests', async () => {
+    const unlabeled = { ...issue, number: 1348, labels: [] } as unknown as GitHubIssue;
+    const { scheduler, githubClient, queue } = createScheduler(pages([unlabeled]));
+
+    const run = await scheduler.run('untriaged');
+
+    expect(run?.summary).toEqual({ scanned: 1, enqueued: 1 });
+    expect(githubClient.listIssuePage).toHaveBeenCalledTimes(2);
+    expect(queue.enqueue.mock.calls[0][0].issue?.number).toBe(1348);
+  });
+});
+
+describe('TriageScheduler stale needs-info sweep', () => {
+  it('reminds the author once the issue has waited long enough', async () => {
+    const { run, githubClient } = await sweep([]);
+
+    expect(run?.summary).toMatchObject({ scanned: 1, reminded: 1, closed: 0 });
+    expect(githubClient.createComment.mock.calls[0][2]).toContain(REMINDER_MARKER);
+  });
+
+  it('closes the issue when the reminder went unanswered', async () => {
+    const { run, githubClient } = await sweep([comment(1, 'triage-bot', `${REMINDER_MARKER}\nAny update?`, daysAgo(15))]);
+
+    expect(run?.summary).toMatchObject({ reminded: 0, closed: 1 });
+    expect(githubClient.closeIssue).toHaveBeenCalledWith('octo-org/octo-repo', 1347, 'not_planned', expect.any(String));
+  });
+
+  it('waits while the reminder is recent', async () => {
+    const { run } = await sweep([comment(1, 'triage-bot', `${REMINDER_MARKER}\nAny update?`, daysAgo(3))]);
+
+    expect(run?.summary).toMatchObject({ reminded: 0, closed: 0 });
+  });
+
+  it('only counts reminders the agent posted', async () => {
+    const { run, githubClient } = await sweep([comment(1, 'mallory', `${REMINDER_MARKER}\nCopied`, daysAgo(15))]);
+
+    expect(run?.summary).toMatchObject({ reminded: 1, closed: 0 });
+    expect(githubClient.closeIssue).not.toHaveBeenCalled();
+  });
+
+  it('restarts the wait when the author responds', async () => {
+    const { run } = await sweep([
+      comment(1, 'triage-bot', `${REMINDER_MARKER}\nAny update?`, daysAgo(15)),
+      comment(2, 'octocat', 'Still happens on 2.4.1', daysAgo(2))
+    ]);
+
+    expect(run?.summary).toMatchObject({ reminded: 0, closed: 0 });
+  });
+});
@@ -0,0 +1,366 @@
+import cron, { type ScheduledTask } from 'node-cron';
+import { log, generateCorrelationId } from '../utils/logger.js';
+import { compileTemplate, renderTemplate, type TemplateNode } from '../utils/template.js';
+import { getTriageStore, type TriageStore } from '../storage/index.js';
+import { isAgentAuthored, isAgentComment } from './github.js';
+import type GitHubClient from './github.js';
+import type RepositoryRegistry from './repositories.js';
+import type TriageJobQueue from './job-queue.js';
+import type {
+  AppConfig,
+  GitHubIssue,
+  GitHubWebhookPayload,
+  RepositoryConfig,
+  SchedulerRun,
+  SchedulerTask
+} from '../types/index.js';
+
+// Hidden markers on the comments the stale sweep posts
+const REMINDER_MARKER = '<!-- github-triage-agent:needs-info-reminder -->';
+const CLOSE_MARKER = '<!-- github-triage-agent:needs-info-closed -->';
+
+// Sender of the synthetic payloads queued for untriaged issues
+const SWEEPER_SENDER = { login: 'github-triage-agent', id: 0, type: 'Bot' };
+
+const PAGE_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type StaleAction = 'reminded' | 'closed' | 'waiting';
+
+// Runs periodic sweeps on cron schedules: re-queues issues whose triage failed or
+// never happened (e.g. a missed webhook), and reminds, then closes, issues left
+// waiting for information from their author. Every run is recorded in the store.
+export class TriageScheduler {
+  private readonly config: AppConfig;
+  private readonly githubClient: GitHubClient;
+  private readonly repositories: RepositoryRegistry;
+  private readonly queue: TriageJobQueue;
+  private readonly store: TriageStore;
+  private readonly reminder: TemplateNode[];
+  private readonly closeComment: TemplateNode[];
+  private readonly tasks = new Map<SchedulerTask, ScheduledTask>();
+  // Tasks with a run in progress; a run that is still going when the next one is due skips it
+  private readonly running = new Set<SchedulerTask>();
+
+  constructor(
+    config: AppConfig,
+    services: {
+      githubClient: GitHubClient;
+      repositories: RepositoryRegistry;
+      queue: TriageJobQueue;
+      store?: TriageStore;
+    }
+  ) {
+    this.config = config;
+    this.githubClient = services.githubClient;
+    this.repositories = services.repositories;
+    this.queue = services.queue;
+    this.store = services.store ?? getTriageStore(config);
+    this.reminder = compileTemplate(config.scheduler.staleNeedsInfo.reminder);
+    this.closeComment = compileTemplate(config.scheduler.staleNeedsInfo.closeComment);
+  }
+
+  public start(): void {
+    const { untriaged, staleNeedsInfo } = this.config.scheduler;
+
+    this.schedule('untriaged', untriaged.schedule);
+    // Without the needs-info workflow no issue ever waits for information
+    if (this.config.needsInfo.enabled) {
+      this.schedule('stale-needs-info', staleNeedsInfo.schedule);
+    }
+
+    log.info('Scheduler started', {
+      tasks: this.status(),
+      timezone: this.config.scheduler.timezone,
+      component: 'scheduler'
+    });
+  }
+
+  public async stop(): Promise<void> {
+    for (const task of this.tasks.values()) {
+      await task.destroy();
+    }
+    this.tasks.clear();
+  }
+
+  // Scheduled tasks and when each runs next
+  public status(): Array<{ task: SchedulerTask; nextRun?: string; running: boolean }> {
+    return Array.from(this.tasks.entries()).map(([name, task]) => ({
+      task: name,
+      nextRun: task.getNextRun()?.toISOString(),
+      running: this.running.has(name)
+    }));
+  }
+
+  private schedule(name: SchedulerTask, expression: string): void {
+    if (expression === 'off') {
+      return;
+    }
+
+    this.tasks.set(name, cron.schedule(expression, () => this.run(name), {
+      name: `triage-${name}`,
+      timezone: this.config.scheduler.timezone
+    }));
+  }
+
+  // Run a sweep now and record it; undefined if the task was already running
+  public async run(task: SchedulerTask): Promise<SchedulerRun | undefined> {
+    if (this.running.has(task)) {
+      log.warn('Previous scheduled run is still in progress, skipping this one', { task, component: 'scheduler' });
+      return undefined;
+    }
+
+    this.running.add(task);
+    const correlationId = generateCorrelationId();
+    const startedAt = new Date().toISOString();
+    let summary: Record<string, number> = {};
+    let error: string | undefined;
+
+    try {
+      summary = task === 'untriaged' ?
+        await this.sweepUntriaged(correlationId) :
+        await this.sweepStaleNeedsInfo(correlationId);
+    } catch (sweepError) {
+      error = sweepError instanceof Error ? sweepError.message : 'Unknown error';
+    } finally {
+      this.running.delete(task);
+    }
+
+    const run: Omit<SchedulerRun, 'id'> = {
+      task,
+      status: error ? 'failed' : 'completed',
+      startedAt,
+      finishedAt: new Date().toISOString(),
+      summary,
+      error
+    };
+
+    if (error) {
+      log.error('Scheduled run failed', { correlationId, task, error, component: 'scheduler' });
+    } else {
+      log.info('Scheduled run completed', { correlationId, task, ...summary, component: 'scheduler' });
+    }
+
+    try {
+      return await this.store.recordSchedulerRun(run);
+    } catch (recordError) {
+      // Losing the record shouldn't fail the sweep that already happened
+      log.warn('Failed to record scheduled run', {
+        correlationId,
+        task,
+        error: recordError instanceof Error ? recordError.message : 'Unknown error',
+        component: 'scheduler'
+      });
+      return { ...run, id: 0 };
+    }
+  }
+
+  // Queue open issues updated within the lookback window whose last triage failed,
+  // or that were never triaged and carry none of the agent's labels
+  private async sweepUntriaged(correlationId: string): Promise<Record<string, number>> {
+    const { lookbackDays, maxIssues } = this.config.scheduler.untriaged;
+    const since = new Date(Date.now() - lookbackDays * DAY_MS).toISOString();
+    const queued = await this.getQueuedIssues();
+    let scanned = 0;
+    let enqueued = 0;
+
+    for (const repo of this.repositories.list()) {
+      let hasMore = true;
+      for (let page = 1; hasMore && enqueued < maxIssues; page++) {
+        const listing = await this.githubClient.listIssuePage(repo.fullName, {
+          state: 'open',
+          since,
+          sort: 'updated',
+          direction: 'desc',
+          perPage: PAGE_SIZE,
+          page
+        }, correlationId);
+        hasMore = listing.hasMore;
+
+        for (const issue of listing.issues) {
+          if (enqueued >= maxIssues) {
+            break;
+          }
+          scanned++;
+
+          if (queued.has(`${repo.fullName.toLowerCase()}#${issue.number}`) || !(await this.needsTriage(repo, issue))) {
+            continue;
+          }
+
+          const job = await this.queue.enqueue(this.toPayload(repo, issue), generateCorrelationId());
+          enqueued++;
+
+          log.info('Queued untriaged issue', {
+            correlationId,
+            repository: repo.fullName,
+            issueNumber: issue.number,
+            jobId: job.id,
+            component: 'scheduler'
+          });
+        }
+      }
+    }
+
+    return { scanned, enqueued };
+  }
+
+  // Issues with a job waiting, running or dead-lettered; dead jobs are left for a replay
+  private async getQueuedIssues(): Promise<Set<string>> {
+    const jobs = (await Promise.all((['pending', 'running', 'dead'] as const).map(status =>
+      this.queue.listJobs({ status, limit: Number.MAX_SAFE_INTEGER })
+    ))).flat();
+
+    return new Set(jobs.map(job => `${job.repository.toLowerCase()}#${job.issueNumber}`));
+  }
+
+  private async needsTriage(repo: RepositoryConfig, issue: GitHubIssue): Promise<boolean> {
+    const latest = await this.store.getLatestTriage(repo.fullName, issue.number);
+    if (latest) {
+      return latest.outcome === 'failed';
+    }
+
+    // A maintainer may already have labeled it by hand
+    const agentLabels = new Set([...repo.labels, this.config.triage.lowConfidence.label].map(label => label.toLowerCase()));
+    return !issue.labels.some(label => agentLabels.has(label.name.toLowerCase()));
+  }
+
+  private toPayload(repo: RepositoryConfig, issue: GitHubIssue): GitHubWebhookPayload {
+    return {
+      action: 'opened',
+      issue,
+      repository: {
+        id: 0,
+        name: repo.name,
+        full_name: repo.fullName,
+        owner: { login: repo.owner, id: 0 },
+        html_url: `https://github.com/${repo.fullName}`
+      },
+      sender: SWEEPER_SENDER
+    };
+  }
+
+  // Remind the author of every open needs-info issue that has waited too long, and
+  // close those that stayed silent after the reminder
+  private async sweepStaleNeedsInfo(correlationId: string): Promise<Record<string, number>> {
+    const counts = { scanned: 0, reminded: 0, closed: 0, failed: 0 };
+
+    for (const repo of this.repositories.list()) {
+      // Collected up front, since closing issues would shift the later pages
+      const issues: GitHubIssue[] = [];
+      let hasMore = true;
+      for (let page = 1; hasMore; page++) {
+        const listing = await this.githubClient.listIssuePage(repo.fullName, {
+          state: 'open',
+          labels: [this.config.needsInfo.label],
+          perPage: PAGE_SIZE,
+          page
+        }, correlationId);
+        issues.push(...listing.issues);
+        hasMore = listing.hasMore;
+      }
+
+      for (const issue of issues) {
+        counts.scanned++;
+
+        try {
+          const action = await this.checkStaleIssue(repo, issue, correlationId);
+          if (action !== 'waiting') {
+            counts[action]++;
+          }
+        } catch (error) {
+          counts.failed++;
+          log.warn('Failed to check issue waiting for information', {
+            correlationId,
+            repository: repo.fullName,
+            issueNumber: issue.number,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            component: 'scheduler'
+          });
+        }
+      }
+    }
+
+    return counts;
+  }
+
+  // The wait starts when the label was last applied or the author last commented,
+  // whichever is later; a reminder posted after that starts the countdown to closing
+  private async checkStaleIssue(repo: RepositoryConfig, issue: GitHubIssue, correlationId: string): Promise<StaleAction> {
+    const { remindAfterDays, closeAfterDays } = this.config.scheduler.staleNeedsInfo;
+    const label = this.config.needsInfo.label.toLowerCase();
+    const author = issue.user.login;
+
+    const [identity, events, comments] = await Promise.all([
+      this.githubClient.getAgentIdentity(correlationId),
+      this.githubClient.listIssueEvents(repo.fullName, issue.number, correlationId),
+      this.githubClient.listIssueComments(repo.fullName, issue.number, correlationId)
+    ]);
+
+    const labeledAt = events
+      .filter(event => event.event === 'labeled' && event.label?.name.toLowerCase() === label)
+      .map(event => event.created_at)
+      .pop() ?? issue.created_at;
+    const respondedAt = comments
+      .filter(comment => comment.user.login === author && !isAgentComment(comment, identity))
+      .map(comment => comment.created_at)
+      .pop();
+    const waitingSince = respondedAt && respondedAt > labeledAt ? respondedAt : labeledAt;
+
+    // Someone quoting the reminder mustn't start the countdown to closing
+    const reminder = comments
+      .filter(comment =>
+        comment.body?.includes(REMINDER_MARKER) &&
+        isAgentAuthored(comment, identity) &&
+        comment.created_at > waitingSince
+      )
+      .pop();
+    const view = {
+      author,
+      issueNumber: issue.number,
+      needsInfoLabel: this.config.needsInfo.label,
+      remindAfterDays,
+      closeAfterDays
+    };
+
+    if (!reminder) {
+      if (!this.hasElapsed(waitingSince, remindAfterDays)) {
+        return 'waiting';
+      }
+
+      await this.githubClient.createComment(
+        repo.fullName,
+        issue.number,
+        `${REMINDER_MARKER}\n${renderTemplate(this.reminder, view).trim()}`,
+        correlationId
+      );
+      return 'reminded';
+    }
+
+    if (closeAfterDays === 0 || !this.hasElapsed(reminder.created_at, closeAfterDays)) {
+      return 'waiting';
+    }
+
+    await this.githubClient.createComment(
+      repo.fullName,
+      issue.number,
+      `${CLOSE_MARKER}\n${renderTemplate(this.closeComment, view).trim()}`,
+      correlationId
+    );
+    await this.githubClient.closeIssue(repo.fullName, issue.number, 'not_planned', correlationId);
+
+    log.info('Closed issue left waiting for information', {
+      correlationId,
+      repository: repo.fullName,
+      issueNumber: issue.number,
+      remindedAt: reminder.created_at,
+      component: 'scheduler'
+    });
+    return 'closed';
+  }
+
+  private hasElapsed(since: string, days: number): boolean {
+    return Date.now() - new Date(since).getTime() >= days * DAY_MS;
+  }
+}
+
+export default TriageScheduler;
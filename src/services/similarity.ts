@@ -0,0 +1,153 @@
+// Lexical similarity helpers for comparing issue text
+
+// Common English and issue-template words that carry no signal
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from',
+  'has', 'have', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or',
+  'so', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'with', 'you', 'your',
+  'expected', 'behavior', 'behaviour', 'actual', 'steps', 'reproduce', 'description', 'issue'
+]);
+
+// Lowercased word tokens without stopwords, code fences or HTML comments
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/```[\s\S]*?```/g, ' ')
+    .toLowerCase()
+    .split(/[^a-z0-9_]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token));
+}
+
+export interface IndexedDocument<T> {
+  item: T;
+  text: string;
+}
+
+export interface ScoredDocument<T> {
+  item: T;
+  score: number;
+}
+
+// Okapi BM25 ranking over a small in-memory corpus
+export class Bm25Index<T> {
+  private readonly documents: Array<{ item: T; termFrequencies: Map<string, number>; length: number }>;
+  private readonly documentFrequencies = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(
+    documents: IndexedDocument<T>[],
+    private readonly k1 = 1.2,
+    private readonly b = 0.75
+  ) {
+    this.documents = documents.map(({ item, text }) => {
+      const tokens = tokenize(text);
+      const termFrequencies = new Map<string, number>();
+      tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1));
+      termFrequencies.forEach((_count, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      });
+      return { item, termFrequencies, length: tokens.length };
+    });
+
+    const totalLength = this.documents.reduce((sum, doc) => sum + doc.length, 0);
+    this.averageLength = this.documents.length > 0 ? totalLength / this.documents.length : 0;
+  }
+
+  // Best matches for the query, highest score first; documents sharing no terms are left out
+  public search(query: string, limit: number): ScoredDocument<T>[] {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const count = this.documents.length;
+
+    return this.documents
+      .map(doc => {
+        let score = 0;
+
+        for (const term of queryTerms) {
+          const frequency = doc.termFrequencies.get(term);
+          if (!frequency) {
+            continue;
+          }
+
+          const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+          const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          const normalizedLength = 1 - this.b + this.b * (doc.length / (this.averageLength || 1));
+          score += idf * (frequency * (this.k1 + 1)) / (frequency + this.k1 * normalizedLength);
+        }
+
+        return { item: doc.item, score };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+// TF-IDF vectors compared by cosine similarity. Unlike BM25 the scores are
+// bounded to [0, 1], so they can be compared against a fixed threshold.
+export class TfIdfIndex<T> {
+  private readonly documents: Array<{ item: T; termFrequencies: Map<string, number> }>;
+  private readonly documentFrequencies = new Map<string, number>();
+
+  constructor(documents: IndexedDocument<T>[]) {
+    this.documents = documents.map(({ item, text }) => {
+      const termFrequencies = countTerms(tokenize(text));
+      termFrequencies.forEach((_count, term) => {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      });
+      return { item, termFrequencies };
+    });
+  }
+
+  // Documents at or above minScore, most similar first
+  public search(query: string, limit: number, minScore = 0): ScoredDocument<T>[] {
+    const queryVector = this.vectorize(countTerms(tokenize(query)));
+    if (queryVector.size === 0) {
+      return [];
+    }
+
+    return this.documents
+      .map(doc => ({ item: doc.item, score: cosine(queryVector, this.vectorize(doc.termFrequencies)) }))
+      .filter(result => result.score > 0 && result.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  // Log-scaled term frequency times smoothed inverse document frequency
+  private vectorize(termFrequencies: Map<string, number>): Map<string, number> {
+    const count = this.documents.length;
+    const vector = new Map<string, number>();
+
+    termFrequencies.forEach((frequency, term) => {
+      const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+      const idf = Math.log((1 + count) / (1 + documentFrequency)) + 1;
+      vector.set(term, (1 + Math.log(frequency)) * idf);
+    });
+
+    return vector;
+  }
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const frequencies = new Map<string, number>();
+  tokens.forEach(token => frequencies.set(token, (frequencies.get(token) ?? 0) + 1));
+  return frequencies;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number {
+  let dot = 0;
+  a.forEach((weight, term) => {
+    dot += weight * (b.get(term) ?? 0);
+  });
+  if (dot === 0) {
+    return 0;
+  }
+
+  const norm = (vector: Map<string, number>) =>
+    Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+// Rough token count for budgeting prompt size (about four characters per token)
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,124 @@
+import path from 'path';
+import { SqliteTriageStore } from './sqlite.js';
+import { InMemoryTriageStore } from './memory.js';
+import type {
+  AppConfig,
+  BackfillCheckpoint,
+  CorpusIssue,
+  ReviewItem,
+  ReviewStatus,
+  SchedulerRun,
+  SchedulerTask,
+  TriageFeedback,
+  TriageJob,
+  TriageJobStatus,
+  TriageRecord
+} from '../types/index.js';
+
+export interface TriageHistoryFilter {
+  repository?: string;
+  issueNumber?: number;
+  outcome?: TriageRecord['outcome'];
+  since?: string;
+  limit?: number;
+}
+
+export interface TriageJobFilter {
+  status?: TriageJobStatus;
+  repository?: string;
+  limit?: number;
+}
+
+export interface TriageFeedbackFilter {
+  repository?: string;
+  issueNumber?: number;
+  limit?: number;
+}
+
+export interface SchedulerRunFilter {
+  task?: SchedulerTask;
+  limit?: number;
+}
+
+export interface ReviewItemFilter {
+  repository?: string;
+  status?: ReviewStatus;
+}
+
+export type ReviewItemResolution = Pick<ReviewItem, 'resolvedBy' | 'appliedLabels' | 'note'> & {
+  status: Exclude<ReviewStatus, 'pending'>;
+};
+
+export type TriageJobUpdate = Partial<Pick<TriageJob, 'status' | 'attempts' | 'nextRunAt' | 'lastError'>>;
+
+// Storage backend for triage history. Implementations must be safe to share
+// between orchestrators in the same process.
+export interface TriageStore {
+  recordTriage(record: Omit<TriageRecord, 'id'>): Promise<TriageRecord>;
+  listTriages(filter?: TriageHistoryFilter): Promise<TriageRecord[]>;
+  getLatestTriage(repository: string, issueNumber: number): Promise<TriageRecord | undefined>;
+  // Latest successful triage of an issue with the given content hash, at or after `since`
+  findRecentTriageByContent(
+    repository: string,
+    issueNumber: number,
+    contentHash: string,
+    since: string
+  ): Promise<TriageRecord | undefined>;
+  // Atomically record a webhook delivery; false if it was already seen within ttlMs
+  claimDelivery(deliveryId: string, ttlMs: number): Promise<boolean>;
+  // Forget a claimed delivery so a redelivery is accepted, e.g. after it failed
+  releaseDelivery(deliveryId: string): Promise<void>;
+  // Maintainer corrections, newest first
+  recordFeedback(feedback: Omit<TriageFeedback, 'id'>): Promise<TriageFeedback>;
+  listFeedback(filter?: TriageFeedbackFilter): Promise<TriageFeedback[]>;
+  // Cache of labeled issues used for few-shot example selection
+  replaceCorpus(repository: string, issues: CorpusIssue[], refreshedAt: string): Promise<void>;
+  listCorpus(repository: string): Promise<CorpusIssue[]>;
+  getCorpusRefreshedAt(repository: string): Promise<string | undefined>;
+  // Add or update one issue without a full refresh, e.g. right after triaging it
+  upsertCorpusIssue(issue: CorpusIssue): Promise<void>;
+  // Background triage jobs
+  createJob(job: Omit<TriageJob, 'id'>): Promise<TriageJob>;
+  updateJob(id: number, changes: TriageJobUpdate): Promise<TriageJob | undefined>;
+  getJob(id: number): Promise<TriageJob | undefined>;
+  listJobs(filter?: TriageJobFilter): Promise<TriageJob[]>;
+  // Low-confidence suggestions awaiting a maintainer, oldest first. A new item
+  // supersedes any pending one for the same issue.
+  addReviewItem(item: Omit<ReviewItem, 'id' | 'status' | 'createdAt'>): Promise<ReviewItem>;
+  getReviewItem(id: string): Promise<ReviewItem | undefined>;
+  listReviewItems(filter?: ReviewItemFilter): Promise<ReviewItem[]>;
+  // Resolve a pending item; undefined if it doesn't exist or is no longer pending
+  resolveReviewItem(id: string, resolution: ReviewItemResolution): Promise<ReviewItem | undefined>;
+  // Scheduled sweep runs, newest first
+  recordSchedulerRun(run: Omit<SchedulerRun, 'id'>): Promise<SchedulerRun>;
+  listSchedulerRuns(filter?: SchedulerRunFilter): Promise<SchedulerRun[]>;
+  // Progress of backfills, one checkpoint per repository and filter
+  getBackfillCheckpoint(repository: string, filterKey: string): Promise<BackfillCheckpoint | undefined>;
+  saveBackfillCheckpoint(checkpoint: BackfillCheckpoint): Promise<void>;
+  deleteBackfillCheckpoint(repository: string, filterKey: string): Promise<void>;
+  close(): Promise<void>;
+}
+
+// Stores are shared per location so every orchestrator writes to one connection
+const stores = new Map<string, TriageStore>();
+
+// Build (or reuse) the store selected in configuration
+export function getTriageStore(config: AppConfig): TriageStore {
+  const { backend, dataDir, sqlitePath } = config.storage;
+
+  const key = backend === 'memory' ? ':memory:' : path.resolve(sqlitePath ?? path.join(dataDir, 'triage.db'));
+  let store = stores.get(key);
+  if (!store) {
+    store = backend === 'memory' ? new InMemoryTriageStore() : new SqliteTriageStore(key);
+    stores.set(key, store);
+  }
+  return store;
+}
+
+// Close every shared store, e.g. during graceful shutdown
+export async function closeTriageStores(): Promise<void> {
+  await Promise.all(Array.from(stores.values()).map(store => store.close()));
+  stores.clear();
+}
+
+export { SqliteTriageStore, InMemoryTriageStore };
@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import type {
+  BackfillCheckpoint,
+  CorpusIssue,
+  ReviewItem,
+  SchedulerRun,
+  TriageFeedback,
+  TriageJob,
+  TriageRecord
+} from '../types/index.js';
+import type {
+  ReviewItemFilter,
+  ReviewItemResolution,
+  SchedulerRunFilter,
+  TriageFeedbackFilter,
+  TriageHistoryFilter,
+  TriageJobFilter,
+  TriageJobUpdate,
+  TriageStore
+} from './index.js';
+
+// Non-persistent store for tests and ephemeral deployments
+export class InMemoryTriageStore implements TriageStore {
+  private readonly records: TriageRecord[] = [];
+  private readonly deliveries = new Map<string, number>();
+  private readonly jobs = new Map<number, TriageJob>();
+  private readonly feedback: TriageFeedback[] = [];
+  private readonly corpus = new Map<string, { issues: CorpusIssue[]; refreshedAt: string }>();
+  private readonly reviewItems: ReviewItem[] = [];
+  private readonly schedulerRuns: SchedulerRun[] = [];
+  private readonly checkpoints = new Map<string, BackfillCheckpoint>();
+  private nextId = 1;
+  private nextJobId = 1;
+
+  public async recordTriage(record: Omit<TriageRecord, 'id'>): Promise<TriageRecord> {
+    const stored: TriageRecord = { ...record, id: this.nextId++ };
+    this.records.push(stored);
+    return stored;
+  }
+
+  public async listTriages(filter: TriageHistoryFilter = {}): Promise<TriageRecord[]> {
+    return this.records
+      .filter(record =>
+        (!filter.repository || record.repository.toLowerCase() === filter.repository.toLowerCase()) &&
+        (filter.issueNumber === undefined || record.issueNumber === filter.issueNumber) &&
+        (!filter.outcome || record.outcome === filter.outcome) &&
+        (!filter.since || record.createdAt >= filter.since)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  public async getLatestTriage(repository: string, issueNumber: number): Promise<TriageRecord | undefined> {
+    const [latest] = await this.listTriages({ repository, issueNumber, limit: 1 });
+    return latest;
+  }
+
+  public async findRecentTriageByContent(
+    repository: string,
+    issueNumber: number,
+    contentHash: string,
+    since: string
+  ): Promise<TriageRecord | undefined> {
+    const matches = await this.listTriages({ repository, issueNumber, since, limit: Number.MAX_SAFE_INTEGER });
+    return matches.find(record => record.contentHash === contentHash && record.outcome !== 'failed');
+  }
+
+  public async claimDelivery(deliveryId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    for (const [id, receivedAt] of this.deliveries) {
+      if (receivedAt < now - ttlMs) {
+        this.deliveries.delete(id);
+      }
+    }
+
+    if (this.deliveries.has(deliveryId)) {
+      return false;
+    }
+
+    this.deliveries.set(deliveryId, now);
+    return true;
+  }
+
+  public async releaseDelivery(deliveryId: string): Promise<void> {
+    this.deliveries.delete(deliveryId);
+  }
+
+  public async recordFeedback(feedback: Omit<TriageFeedback, 'id'>): Promise<TriageFeedback> {
+    const stored: TriageFeedback = { ...feedback, id: this.feedback.length + 1 };
+    this.feedback.push(stored);
+    return stored;
+  }
+
+  public async listFeedback(filter: TriageFeedbackFilter = {}): Promise<TriageFeedback[]> {
+    return this.feedback
+      .filter(entry =>
+        (!filter.repository || entry.repository.toLowerCase() === filter.repository.toLowerCase()) &&
+        (filter.issueNumber === undefined || entry.issueNumber === filter.issueNumber)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  public async replaceCorpus(repository: string, issues: CorpusIssue[], refreshedAt: string): Promise<void> {
+    this.corpus.set(repository.toLowerCase(), { issues: [...issues], refreshedAt });
+  }
+
+  public async listCorpus(repository: string): Promise<CorpusIssue[]> {
+    return [...(this.corpus.get(repository.toLowerCase())?.issues ?? [])];
+  }
+
+  public async getCorpusRefreshedAt(repository: string): Promise<string | undefined> {
+    return this.corpus.get(repository.toLowerCase())?.refreshedAt || undefined;
+  }
+
+  public async upsertCorpusIssue(issue: CorpusIssue): Promise<void> {
+    const entry = this.corpus.get(issue.repository.toLowerCase());
+    if (!entry) {
+      // Without a refresh marker the next lookup still fetches the full corpus
+      this.corpus.set(issue.repository.toLowerCase(), { issues: [issue], refreshedAt: '' });
+      return;
+    }
+
+    entry.issues = [...entry.issues.filter(existing => existing.issueNumber !== issue.issueNumber), issue];
+  }
+
+  public async createJob(job: Omit<TriageJob, 'id'>): Promise<TriageJob> {
+    const stored: TriageJob = { ...job, id: this.nextJobId++ };
+    this.jobs.set(stored.id, stored);
+    return { ...stored };
+  }
+
+  public async updateJob(id: number, changes: TriageJobUpdate): Promise<TriageJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    return { ...job };
+  }
+
+  public async getJob(id: number): Promise<TriageJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  public async listJobs(filter: TriageJobFilter = {}): Promise<TriageJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        (!filter.status || job.status === filter.status) &&
+        (!filter.repository || job.repository.toLowerCase() === filter.repository.toLowerCase())
+      )
+      .sort((a, b) => a.id - b.id)
+      .slice(0, filter.limit ?? 100)
+      .map(job => ({ ...job }));
+  }
+
+  public async addReviewItem(item: Omit<ReviewItem, 'id' | 'status' | 'createdAt'>): Promise<ReviewItem> {
+    const now = new Date().toISOString();
+
+    for (const existing of this.reviewItems) {
+      if (existing.status === 'pending' &&
+          existing.repository.toLowerCase() === item.repository.toLowerCase() &&
+          existing.issueNumber === item.issueNumber) {
+        existing.status = 'superseded';
+        existing.resolvedAt = now;
+      }
+    }
+
+    const created: ReviewItem = { ...item, id: crypto.randomUUID(), status: 'pending', createdAt: now };
+    this.reviewItems.push(created);
+    return { ...created };
+  }
+
+  public async getReviewItem(id: string): Promise<ReviewItem | undefined> {
+    const item = this.reviewItems.find(existing => existing.id === id);
+    return item ? { ...item } : undefined;
+  }
+
+  public async listReviewItems(filter: ReviewItemFilter = {}): Promise<ReviewItem[]> {
+    return this.reviewItems
+      .filter(item =>
+        (!filter.repository || item.repository.toLowerCase() === filter.repository.toLowerCase()) &&
+        (!filter.status || item.status === filter.status)
+      )
+      .map(item => ({ ...item }));
+  }
+
+  public async resolveReviewItem(id: string, resolution: ReviewItemResolution): Promise<ReviewItem | undefined> {
+    const item = this.reviewItems.find(existing => existing.id === id);
+    if (!item || item.status !== 'pending') {
+      return undefined;
+    }
+
+    Object.assign(item, resolution, { resolvedAt: new Date().toISOString() });
+    return { ...item };
+  }
+
+  public async recordSchedulerRun(run: Omit<SchedulerRun, 'id'>): Promise<SchedulerRun> {
+    const stored: SchedulerRun = { ...run, id: this.schedulerRuns.length + 1 };
+    this.schedulerRuns.push(stored);
+    return stored;
+  }
+
+  public async listSchedulerRuns(filter: SchedulerRunFilter = {}): Promise<SchedulerRun[]> {
+    return this.schedulerRuns
+      .filter(run => !filter.task || run.task === filter.task)
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  public async getBackfillCheckpoint(repository: string, filterKey: string): Promise<BackfillCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(`${repository.toLowerCase()}\n${filterKey}`);
+    return checkpoint ? { ...checkpoint } : undefined;
+  }
+
+  public async saveBackfillCheckpoint(checkpoint: BackfillCheckpoint): Promise<void> {
+    this.checkpoints.set(`${checkpoint.repository.toLowerCase()}\n${checkpoint.filterKey}`, { ...checkpoint });
+  }
+
+  public async deleteBackfillCheckpoint(repository: string, filterKey: string): Promise<void> {
+    this.checkpoints.delete(`${repository.toLowerCase()}\n${filterKey}`);
+  }
+
+  public async close(): Promise<void> {
+    // Nothing to release
+  }
+}
+
+export default InMemoryTriageStore;
@@ -0,0 +1,780 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { log } from '../utils/logger.js';
+import type {
+  BackfillCheckpoint,
+  CorpusIssue,
+  ReviewItem,
+  SchedulerRun,
+  TriageFeedback,
+  TriageJob,
+  TriageRecord
+} from '../types/index.js';
+import type {
+  ReviewItemFilter,
+  ReviewItemResolution,
+  SchedulerRunFilter,
+  TriageFeedbackFilter,
+  TriageHistoryFilter,
+  TriageJobFilter,
+  TriageJobUpdate,
+  TriageStore
+} from './index.js';
+
+// Schema migrations, applied in order and tracked with PRAGMA user_version
+const MIGRATIONS: string[] = [
+  `CREATE TABLE triage_history (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    correlation_id TEXT NOT NULL,
+    repository TEXT NOT NULL COLLATE NOCASE,
+    issue_number INTEGER NOT NULL,
+    issue_title TEXT,
+    action TEXT,
+    outcome TEXT NOT NULL,
+    source TEXT,
+    provider TEXT,
+    model TEXT,
+    prompt_version TEXT,
+    primary_label TEXT,
+    confidence REAL,
+    labels_suggested TEXT NOT NULL DEFAULT '[]',
+    labels_applied TEXT NOT NULL DEFAULT '[]',
+    comment_posted INTEGER NOT NULL DEFAULT 0,
+    review_id TEXT,
+    tokens_used INTEGER,
+    duration_ms INTEGER NOT NULL,
+    error TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_triage_history_issue ON triage_history (repository, issue_number, id);
+  CREATE INDEX idx_triage_history_created ON triage_history (created_at);`,
+
+  `ALTER TABLE triage_history ADD COLUMN content_hash TEXT;
+  CREATE TABLE webhook_deliveries (
+    delivery_id TEXT PRIMARY KEY,
+    received_at INTEGER NOT NULL
+  );
+  CREATE INDEX idx_webhook_deliveries_received ON webhook_deliveries (received_at);`,
+
+  `CREATE TABLE triage_jobs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    correlation_id TEXT NOT NULL,
+    delivery_id TEXT,
+    repository TEXT NOT NULL,
+    issue_number INTEGER NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    max_attempts INTEGER NOT NULL,
+    next_run_at TEXT NOT NULL,
+    last_error TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_triage_jobs_status ON triage_jobs (status, id);`,
+
+  `CREATE TABLE triage_feedback (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    correlation_id TEXT NOT NULL,
+    repository TEXT NOT NULL,
+    issue_number INTEGER NOT NULL,
+    issue_title TEXT NOT NULL,
+    issue_body TEXT NOT NULL,
+    predicted_label TEXT NOT NULL,
+    corrected_label TEXT NOT NULL,
+    predicted_confidence REAL,
+    triage_id INTEGER,
+    corrected_by TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_triage_feedback_repository ON triage_feedback (repository COLLATE NOCASE, id);`,
+
+  `CREATE TABLE issue_corpus (
+    repository TEXT NOT NULL COLLATE NOCASE,
+    issue_number INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    labels TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (repository, issue_number)
+  );
+  CREATE TABLE corpus_refreshes (
+    repository TEXT PRIMARY KEY COLLATE NOCASE,
+    refreshed_at TEXT NOT NULL
+  );`,
+
+  // Cached rows predate state/url, so force every repository to refetch
+  `ALTER TABLE issue_corpus ADD COLUMN state TEXT NOT NULL DEFAULT 'closed';
+  ALTER TABLE issue_corpus ADD COLUMN url TEXT NOT NULL DEFAULT '';
+  DELETE FROM corpus_refreshes;`,
+
+  `CREATE TABLE scheduler_runs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    task TEXT NOT NULL,
+    status TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    finished_at TEXT NOT NULL,
+    summary TEXT NOT NULL DEFAULT '{}',
+    error TEXT
+  );
+  CREATE INDEX idx_scheduler_runs_task ON scheduler_runs (task, id);`,
+
+  `CREATE TABLE backfill_checkpoints (
+    repository TEXT NOT NULL COLLATE NOCASE,
+    filter_key TEXT NOT NULL,
+    last_issue_number INTEGER NOT NULL,
+    triaged INTEGER NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (repository, filter_key)
+  );`,
+
+  `CREATE TABLE review_items (
+    id TEXT PRIMARY KEY,
+    repository TEXT NOT NULL COLLATE NOCASE,
+    issue_number INTEGER NOT NULL,
+    issue_title TEXT NOT NULL,
+    issue_url TEXT NOT NULL,
+    classification TEXT NOT NULL,
+    threshold REAL NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    resolved_at TEXT,
+    resolved_by TEXT,
+    applied_labels TEXT,
+    note TEXT
+  );
+  CREATE INDEX idx_review_items_issue ON review_items (repository, issue_number, status);
+  CREATE INDEX idx_review_items_status ON review_items (status, created_at);`,
+
+  // Checkpoints saved before this resume from the first page, as they used to
+  `ALTER TABLE backfill_checkpoints ADD COLUMN page INTEGER NOT NULL DEFAULT 1;`
+];
+
+interface TriageHistoryRow {
+  id: number;
+  correlation_id: string;
+  repository: string;
+  issue_number: number;
+  issue_title: string | null;
+  action: string | null;
+  outcome: TriageRecord['outcome'];
+  source: TriageRecord['source'] | null;
+  provider: string | null;
+  model: string | null;
+  prompt_version: string | null;
+  primary_label: string | null;
+  confidence: number | null;
+  labels_suggested: string;
+  labels_applied: string;
+  comment_posted: number;
+  review_id: string | null;
+  tokens_used: number | null;
+  duration_ms: number;
+  error: string | null;
+  content_hash: string | null;
+  created_at: string;
+}
+
+function fromRow(row: TriageHistoryRow): TriageRecord {
+  return {
+    id: row.id,
+    correlationId: row.correlation_id,
+    repository: row.repository,
+    issueNumber: row.issue_number,
+    issueTitle: row.issue_title ?? undefined,
+    action: row.action ?? undefined,
+    outcome: row.outcome,
+    source: row.source ?? undefined,
+    provider: row.provider ?? undefined,
+    model: row.model ?? undefined,
+    promptVersion: row.prompt_version ?? undefined,
+    primaryLabel: row.primary_label ?? undefined,
+    confidence: row.confidence ?? undefined,
+    labelsSuggested: JSON.parse(row.labels_suggested),
+    labelsApplied: JSON.parse(row.labels_applied),
+    commentPosted: row.comment_posted === 1,
+    reviewId: row.review_id ?? undefined,
+    tokensUsed: row.tokens_used ?? undefined,
+    durationMs: row.duration_ms,
+    error: row.error ?? undefined,
+    contentHash: row.content_hash ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+interface TriageJobRow {
+  id: number;
+  correlation_id: string;
+  delivery_id: string | null;
+  repository: string;
+  issue_number: number;
+  payload: string;
+  status: TriageJob['status'];
+  attempts: number;
+  max_attempts: number;
+  next_run_at: string;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function fromJobRow(row: TriageJobRow): TriageJob {
+  return {
+    id: row.id,
+    correlationId: row.correlation_id,
+    deliveryId: row.delivery_id ?? undefined,
+    repository: row.repository,
+    issueNumber: row.issue_number,
+    payload: JSON.parse(row.payload),
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextRunAt: row.next_run_at,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+interface TriageFeedbackRow {
+  id: number;
+  correlation_id: string;
+  repository: string;
+  issue_number: number;
+  issue_title: string;
+  issue_body: string;
+  predicted_label: string;
+  corrected_label: string;
+  predicted_confidence: number | null;
+  triage_id: number | null;
+  corrected_by: string;
+  created_at: string;
+}
+
+function fromFeedbackRow(row: TriageFeedbackRow): TriageFeedback {
+  return {
+    id: row.id,
+    correlationId: row.correlation_id,
+    repository: row.repository,
+    issueNumber: row.issue_number,
+    issueTitle: row.issue_title,
+    issueBody: row.issue_body,
+    predictedLabel: row.predicted_label,
+    correctedLabel: row.corrected_label,
+    predictedConfidence: row.predicted_confidence ?? undefined,
+    triageId: row.triage_id ?? undefined,
+    correctedBy: row.corrected_by,
+    createdAt: row.created_at
+  };
+}
+
+interface CorpusIssueRow {
+  repository: string;
+  issue_number: number;
+  title: string;
+  body: string;
+  labels: string;
+  state: CorpusIssue['state'];
+  url: string;
+  updated_at: string;
+}
+
+interface ReviewItemRow {
+  id: string;
+  repository: string;
+  issue_number: number;
+  issue_title: string;
+  issue_url: string;
+  classification: string;
+  threshold: number;
+  status: ReviewItem['status'];
+  created_at: string;
+  resolved_at: string | null;
+  resolved_by: string | null;
+  applied_labels: string | null;
+  note: string | null;
+}
+
+function fromReviewItemRow(row: ReviewItemRow): ReviewItem {
+  return {
+    id: row.id,
+    repository: row.repository,
+    issueNumber: row.issue_number,
+    issueTitle: row.issue_title,
+    issueUrl: row.issue_url,
+    classification: JSON.parse(row.classification),
+    threshold: row.threshold,
+    status: row.status,
+    createdAt: row.created_at,
+    resolvedAt: row.resolved_at ?? undefined,
+    resolvedBy: row.resolved_by ?? undefined,
+    appliedLabels: row.applied_labels ? JSON.parse(row.applied_labels) : undefined,
+    note: row.note ?? undefined
+  };
+}
+
+interface SchedulerRunRow {
+  id: number;
+  task: SchedulerRun['task'];
+  status: SchedulerRun['status'];
+  started_at: string;
+  finished_at: string;
+  summary: string;
+  error: string | null;
+}
+
+function fromSchedulerRunRow(row: SchedulerRunRow): SchedulerRun {
+  return {
+    id: row.id,
+    task: row.task,
+    status: row.status,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+    summary: JSON.parse(row.summary),
+    error: row.error ?? undefined
+  };
+}
+
+interface BackfillCheckpointRow {
+  repository: string;
+  filter_key: string;
+  last_issue_number: number;
+  page: number;
+  triaged: number;
+  updated_at: string;
+}
+
+// Job fields that can change after creation, mapped to their columns
+const JOB_UPDATE_COLUMNS: Record<keyof TriageJobUpdate, string> = {
+  status: 'status',
+  attempts: 'attempts',
+  nextRunAt: 'next_run_at',
+  lastError: 'last_error'
+};
+
+// Triage history kept in a local SQLite file
+export class SqliteTriageStore implements TriageStore {
+  private readonly db: Database.Database;
+
+  constructor(filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.migrate();
+
+    log.debug('SQLite triage store opened', { filePath, component: 'triage-store' });
+  }
+
+  private migrate(): void {
+    const current = this.db.pragma('user_version', { simple: true }) as number;
+
+    for (let version = current; version < MIGRATIONS.length; version++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[version]);
+        this.db.pragma(`user_version = ${version + 1}`);
+      })();
+    }
+  }
+
+  public async recordTriage(record: Omit<TriageRecord, 'id'>): Promise<TriageRecord> {
+    const result = this.db.prepare(`
+      INSERT INTO triage_history (
+        correlation_id, repository, issue_number, issue_title, action, outcome, source,
+        provider, model, prompt_version, primary_label, confidence, labels_suggested,
+        labels_applied, comment_posted, review_id, tokens_used, duration_ms, error, content_hash,
+        created_at
+      ) VALUES (
+        @correlationId, @repository, @issueNumber, @issueTitle, @action, @outcome, @source,
+        @provider, @model, @promptVersion, @primaryLabel, @confidence, @labelsSuggested,
+        @labelsApplied, @commentPosted, @reviewId, @tokensUsed, @durationMs, @error, @contentHash,
+        @createdAt
+      )
+    `).run({
+      correlationId: record.correlationId,
+      repository: record.repository,
+      issueNumber: record.issueNumber,
+      issueTitle: record.issueTitle ?? null,
+      action: record.action ?? null,
+      outcome: record.outcome,
+      source: record.source ?? null,
+      provider: record.provider ?? null,
+      model: record.model ?? null,
+      promptVersion: record.promptVersion ?? null,
+      primaryLabel: record.primaryLabel ?? null,
+      confidence: record.confidence ?? null,
+      labelsSuggested: JSON.stringify(record.labelsSuggested),
+      labelsApplied: JSON.stringify(record.labelsApplied),
+      commentPosted: record.commentPosted ? 1 : 0,
+      reviewId: record.reviewId ?? null,
+      tokensUsed: record.tokensUsed ?? null,
+      durationMs: record.durationMs,
+      error: record.error ?? null,
+      contentHash: record.contentHash ?? null,
+      createdAt: record.createdAt
+    });
+
+    return { ...record, id: Number(result.lastInsertRowid) };
+  }
+
+  public async listTriages(filter: TriageHistoryFilter = {}): Promise<TriageRecord[]> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: filter.limit ?? 100 };
+
+    if (filter.repository) {
+      conditions.push('repository = @repository');
+      params.repository = filter.repository;
+    }
+    if (filter.issueNumber !== undefined) {
+      conditions.push('issue_number = @issueNumber');
+      params.issueNumber = filter.issueNumber;
+    }
+    if (filter.outcome) {
+      conditions.push('outcome = @outcome');
+      params.outcome = filter.outcome;
+    }
+    if (filter.since) {
+      conditions.push('created_at >= @since');
+      params.since = filter.since;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM triage_history ${where} ORDER BY id DESC LIMIT @limit`
+    ).all(params) as TriageHistoryRow[];
+
+    return rows.map(fromRow);
+  }
+
+  public async getLatestTriage(repository: string, issueNumber: number): Promise<TriageRecord | undefined> {
+    const row = this.db.prepare(
+      'SELECT * FROM triage_history WHERE repository = ? AND issue_number = ? ORDER BY id DESC LIMIT 1'
+    ).get(repository, issueNumber) as TriageHistoryRow | undefined;
+
+    return row ? fromRow(row) : undefined;
+  }
+
+  public async findRecentTriageByContent(
+    repository: string,
+    issueNumber: number,
+    contentHash: string,
+    since: string
+  ): Promise<TriageRecord | undefined> {
+    const row = this.db.prepare(`
+      SELECT * FROM triage_history
+      WHERE repository = ? AND issue_number = ? AND content_hash = ? AND created_at >= ? AND outcome != 'failed'
+      ORDER BY id DESC LIMIT 1
+    `).get(repository, issueNumber, contentHash, since) as TriageHistoryRow | undefined;
+
+    return row ? fromRow(row) : undefined;
+  }
+
+  public async claimDelivery(deliveryId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM webhook_deliveries WHERE received_at < ?').run(now - ttlMs);
+      const result = this.db.prepare(
+        'INSERT OR IGNORE INTO webhook_deliveries (delivery_id, received_at) VALUES (?, ?)'
+      ).run(deliveryId, now);
+      return result.changes === 1;
+    })();
+  }
+
+  public async releaseDelivery(deliveryId: string): Promise<void> {
+    this.db.prepare('DELETE FROM webhook_deliveries WHERE delivery_id = ?').run(deliveryId);
+  }
+
+  public async recordFeedback(feedback: Omit<TriageFeedback, 'id'>): Promise<TriageFeedback> {
+    const result = this.db.prepare(`
+      INSERT INTO triage_feedback (
+        correlation_id, repository, issue_number, issue_title, issue_body, predicted_label,
+        corrected_label, predicted_confidence, triage_id, corrected_by, created_at
+      ) VALUES (
+        @correlationId, @repository, @issueNumber, @issueTitle, @issueBody, @predictedLabel,
+        @correctedLabel, @predictedConfidence, @triageId, @correctedBy, @createdAt
+      )
+    `).run({
+      ...feedback,
+      predictedConfidence: feedback.predictedConfidence ?? null,
+      triageId: feedback.triageId ?? null
+    });
+
+    return { ...feedback, id: Number(result.lastInsertRowid) };
+  }
+
+  public async listFeedback(filter: TriageFeedbackFilter = {}): Promise<TriageFeedback[]> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: filter.limit ?? 100 };
+
+    if (filter.repository) {
+      conditions.push('repository = @repository COLLATE NOCASE');
+      params.repository = filter.repository;
+    }
+    if (filter.issueNumber !== undefined) {
+      conditions.push('issue_number = @issueNumber');
+      params.issueNumber = filter.issueNumber;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM triage_feedback ${where} ORDER BY id DESC LIMIT @limit`
+    ).all(params) as TriageFeedbackRow[];
+
+    return rows.map(fromFeedbackRow);
+  }
+
+  public async replaceCorpus(repository: string, issues: CorpusIssue[], refreshedAt: string): Promise<void> {
+    const insert = this.db.prepare(`
+      INSERT INTO issue_corpus (repository, issue_number, title, body, labels, state, url, updated_at)
+      VALUES (@repository, @issueNumber, @title, @body, @labels, @state, @url, @updatedAt)
+    `);
+
+    this.db.transaction(() => {
+      this.db.prepare('DELETE FROM issue_corpus WHERE repository = ?').run(repository);
+      for (const issue of issues) {
+        insert.run({ ...issue, repository, labels: JSON.stringify(issue.labels) });
+      }
+      this.db.prepare(`
+        INSERT INTO corpus_refreshes (repository, refreshed_at) VALUES (?, ?)
+        ON CONFLICT (repository) DO UPDATE SET refreshed_at = excluded.refreshed_at
+      `).run(repository, refreshedAt);
+    })();
+  }
+
+  public async listCorpus(repository: string): Promise<CorpusIssue[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM issue_corpus WHERE repository = ? ORDER BY issue_number DESC'
+    ).all(repository) as CorpusIssueRow[];
+
+    return rows.map(row => ({
+      repository: row.repository,
+      issueNumber: row.issue_number,
+      title: row.title,
+      body: row.body,
+      labels: JSON.parse(row.labels),
+      state: row.state,
+      url: row.url,
+      updatedAt: row.updated_at
+    }));
+  }
+
+  public async getCorpusRefreshedAt(repository: string): Promise<string | undefined> {
+    const row = this.db.prepare(
+      'SELECT refreshed_at FROM corpus_refreshes WHERE repository = ?'
+    ).get(repository) as { refreshed_at: string } | undefined;
+
+    return row?.refreshed_at;
+  }
+
+  public async upsertCorpusIssue(issue: CorpusIssue): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO issue_corpus (repository, issue_number, title, body, labels, state, url, updated_at)
+      VALUES (@repository, @issueNumber, @title, @body, @labels, @state, @url, @updatedAt)
+      ON CONFLICT (repository, issue_number) DO UPDATE SET
+        title = excluded.title,
+        body = excluded.body,
+        labels = excluded.labels,
+        state = excluded.state,
+        url = excluded.url,
+        updated_at = excluded.updated_at
+    `).run({ ...issue, labels: JSON.stringify(issue.labels) });
+  }
+
+  public async createJob(job: Omit<TriageJob, 'id'>): Promise<TriageJob> {
+    const result = this.db.prepare(`
+      INSERT INTO triage_jobs (
+        correlation_id, delivery_id, repository, issue_number, payload, status, attempts,
+        max_attempts, next_run_at, last_error, created_at, updated_at
+      ) VALUES (
+        @correlationId, @deliveryId, @repository, @issueNumber, @payload, @status, @attempts,
+        @maxAttempts, @nextRunAt, @lastError, @createdAt, @updatedAt
+      )
+    `).run({
+      ...job,
+      deliveryId: job.deliveryId ?? null,
+      payload: JSON.stringify(job.payload),
+      lastError: job.lastError ?? null
+    });
+
+    return { ...job, id: Number(result.lastInsertRowid) };
+  }
+
+  public async updateJob(id: number, changes: TriageJobUpdate): Promise<TriageJob | undefined> {
+    const assignments = ['updated_at = @updatedAt'];
+    const params: Record<string, unknown> = { id, updatedAt: new Date().toISOString() };
+
+    for (const [field, column] of Object.entries(JOB_UPDATE_COLUMNS) as [keyof TriageJobUpdate, string][]) {
+      if (field in changes) {
+        assignments.push(`${column} = @${field}`);
+        params[field] = changes[field] ?? null;
+      }
+    }
+
+    this.db.prepare(`UPDATE triage_jobs SET ${assignments.join(', ')} WHERE id = @id`).run(params);
+    return this.getJob(id);
+  }
+
+  public async getJob(id: number): Promise<TriageJob | undefined> {
+    const row = this.db.prepare('SELECT * FROM triage_jobs WHERE id = ?').get(id) as TriageJobRow | undefined;
+    return row ? fromJobRow(row) : undefined;
+  }
+
+  public async listJobs(filter: TriageJobFilter = {}): Promise<TriageJob[]> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = { limit: filter.limit ?? 100 };
+
+    if (filter.status) {
+      conditions.push('status = @status');
+      params.status = filter.status;
+    }
+    if (filter.repository) {
+      conditions.push('repository = @repository COLLATE NOCASE');
+      params.repository = filter.repository;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM triage_jobs ${where} ORDER BY id ASC LIMIT @limit`
+    ).all(params) as TriageJobRow[];
+
+    return rows.map(fromJobRow);
+  }
+
+  public async addReviewItem(item: Omit<ReviewItem, 'id' | 'status' | 'createdAt'>): Promise<ReviewItem> {
+    const created: ReviewItem = {
+      ...item,
+      id: crypto.randomUUID(),
+      status: 'pending',
+      createdAt: new Date().toISOString()
+    };
+
+    this.db.transaction(() => {
+      this.db.prepare(`
+        UPDATE review_items SET status = 'superseded', resolved_at = ?
+        WHERE repository = ? AND issue_number = ? AND status = 'pending'
+      `).run(created.createdAt, item.repository, item.issueNumber);
+      this.db.prepare(`
+        INSERT INTO review_items (
+          id, repository, issue_number, issue_title, issue_url, classification, threshold, status, created_at
+        ) VALUES (
+          @id, @repository, @issueNumber, @issueTitle, @issueUrl, @classification, @threshold, @status, @createdAt
+        )
+      `).run({ ...created, classification: JSON.stringify(created.classification) });
+    })();
+
+    return created;
+  }
+
+  public async getReviewItem(id: string): Promise<ReviewItem | undefined> {
+    const row = this.db.prepare('SELECT * FROM review_items WHERE id = ?').get(id) as ReviewItemRow | undefined;
+    return row ? fromReviewItemRow(row) : undefined;
+  }
+
+  public async listReviewItems(filter: ReviewItemFilter = {}): Promise<ReviewItem[]> {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.repository) {
+      conditions.push('repository = @repository');
+      params.repository = filter.repository;
+    }
+    if (filter.status) {
+      conditions.push('status = @status');
+      params.status = filter.status;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(
+      `SELECT * FROM review_items ${where} ORDER BY created_at ASC, rowid ASC`
+    ).all(params) as ReviewItemRow[];
+
+    return rows.map(fromReviewItemRow);
+  }
+
+  public async resolveReviewItem(id: string, resolution: ReviewItemResolution): Promise<ReviewItem | undefined> {
+    const result = this.db.prepare(`
+      UPDATE review_items
+      SET status = @status, resolved_at = @resolvedAt, resolved_by = @resolvedBy,
+        applied_labels = @appliedLabels, note = @note
+      WHERE id = @id AND status = 'pending'
+    `).run({
+      id,
+      status: resolution.status,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy: resolution.resolvedBy ?? null,
+      appliedLabels: resolution.appliedLabels ? JSON.stringify(resolution.appliedLabels) : null,
+      note: resolution.note ?? null
+    });
+
+    return result.changes === 1 ? this.getReviewItem(id) : undefined;
+  }
+
+  public async recordSchedulerRun(run: Omit<SchedulerRun, 'id'>): Promise<SchedulerRun> {
+    const result = this.db.prepare(`
+      INSERT INTO scheduler_runs (task, status, started_at, finished_at, summary, error)
+      VALUES (@task, @status, @startedAt, @finishedAt, @summary, @error)
+    `).run({
+      ...run,
+      summary: JSON.stringify(run.summary),
+      error: run.error ?? null
+    });
+
+    return { ...run, id: Number(result.lastInsertRowid) };
+  }
+
+  public async listSchedulerRuns(filter: SchedulerRunFilter = {}): Promise<SchedulerRun[]> {
+    const params: Record<string, unknown> = { limit: filter.limit ?? 100 };
+    let where = '';
+
+    if (filter.task) {
+      where = 'WHERE task = @task';
+      params.task = filter.task;
+    }
+
+    const rows = this.db.prepare(
+      `SELECT * FROM scheduler_runs ${where} ORDER BY id DESC LIMIT @limit`
+    ).all(params) as SchedulerRunRow[];
+
+    return rows.map(fromSchedulerRunRow);
+  }
+
+  public async getBackfillCheckpoint(repository: string, filterKey: string): Promise<BackfillCheckpoint | undefined> {
+    const row = this.db.prepare(
+      'SELECT * FROM backfill_checkpoints WHERE repository = ? AND filter_key = ?'
+    ).get(repository, filterKey) as BackfillCheckpointRow | undefined;
+
+    return row ? {
+      repository: row.repository,
+      filterKey: row.filter_key,
+      lastIssueNumber: row.last_issue_number,
+      page: row.page,
+      triaged: row.triaged,
+      updatedAt: row.updated_at
+    } : undefined;
+  }
+
+  public async saveBackfillCheckpoint(checkpoint: BackfillCheckpoint): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO backfill_checkpoints (repository, filter_key, last_issue_number, page, triaged, updated_at)
+      VALUES (@repository, @filterKey, @lastIssueNumber, @page, @triaged, @updatedAt)
+      ON CONFLICT (repository, filter_key) DO UPDATE SET
+        last_issue_number = excluded.last_issue_number,
+        page = excluded.page,
+        triaged = excluded.triaged,
+        updated_at = excluded.updated_at
+    `).run(checkpoint);
+  }
+
+  public async deleteBackfillCheckpoint(repository: string, filterKey: string): Promise<void> {
+    this.db.prepare('DELETE FROM backfill_checkpoints WHERE repository = ? AND filter_key = ?').run(repository, filterKey);
+  }
+
+  public async close(): Promise<void> {
+    this.db.close();
+  }
+}
+
+export default SqliteTriageStore;
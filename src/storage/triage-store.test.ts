@@ -0,0 +1,97 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { InMemoryTriageStore, SqliteTriageStore, type TriageStore } from './index.js';
+import type { ReviewItem } from '../types/index.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'triage-store-'));
+let sqliteFiles = 0;
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+const suggestion = (issueNumber: number, repository = 'octo-org/octo-repo'): Omit<ReviewItem, 'id' | 'status' | 'createdAt'> => ({
+  repository,
+  issueNumber,
+  issueTitle: `Issue ${issueNumber}`,
+  issueUrl: `https://github.com/${repository}/issues/${issueNumber}`,
+  classification: { primaryLabel: 'bug', confidence: 0.4, reasoning: 'Mentions a crash', additionalLabels: ['ui'] },
+  threshold: 0.7
+});
+
+describe.each([
+  ['memory', () => new InMemoryTriageStore()],
+  ['sqlite', () => new SqliteTriageStore(path.join(tempDir, `triage-${++sqliteFiles}.db`))]
+] as Array<[string, () => TriageStore]>)('%s triage store', (_backend, createStore) => {
+  let store: TriageStore;
+
+  beforeEach(() => {
+    store = createStore();
+  });
+
+  describe('review items', () => {
+    it('stores and returns suggestions', async () => {
+      const item = await store.addReviewItem(suggestion(1));
+
+      expect(item).toMatchObject({ status: 'pending', issueNumber: 1 });
+      expect(await store.getReviewItem(item.id)).toEqual(item);
+      expect(await store.getReviewItem('missing')).toBeUndefined();
+    });
+
+    it('supersedes the pending suggestion for the same issue', async () => {
+      const first = await store.addReviewItem(suggestion(1));
+      const other = await store.addReviewItem(suggestion(2));
+      const second = await store.addReviewItem(suggestion(1, 'Octo-Org/Octo-Repo'));
+
+      expect(await store.getReviewItem(first.id)).toMatchObject({ status: 'superseded', resolvedAt: expect.any(String) });
+      expect((await store.listReviewItems({ status: 'pending' })).map(item => item.id)).toEqual([other.id, second.id]);
+    });
+
+    it('filters by repository regardless of case', async () => {
+      await store.addReviewItem(suggestion(1));
+      await store.addReviewItem(suggestion(1, 'octo-org/other'));
+
+      expect(await store.listReviewItems({ repository: 'OCTO-ORG/OCTO-REPO' })).toHaveLength(1);
+      expect(await store.listReviewItems()).toHaveLength(2);
+    });
+
+    it('resolves pending items only once', async () => {
+      const item = await store.addReviewItem(suggestion(1));
+
+      const resolved = await store.resolveReviewItem(item.id, {
+        status: 'approved',
+        resolvedBy: 'monalisa',
+        appliedLabels: ['bug']
+      });
+      expect(resolved).toMatchObject({ status: 'approved', resolvedBy: 'monalisa', appliedLabels: ['bug'] });
+      expect(await store.getReviewItem(item.id)).toEqual(resolved);
+
+      expect(await store.resolveReviewItem(item.id, { status: 'rejected' })).toBeUndefined();
+      expect(await store.resolveReviewItem('missing', { status: 'rejected' })).toBeUndefined();
+    });
+  });
+
+  describe('backfill checkpoints', () => {
+    it('saves, replaces and deletes the checkpoint of a filter', async () => {
+      const checkpoint = {
+        repository: 'octo-org/octo-repo',
+        filterKey: 'open|||unlabeled',
+        lastIssueNumber: 120,
+        page: 2,
+        triaged: 118,
+        updatedAt: '2026-01-01T00:00:00.000Z'
+      };
+
+      await store.saveBackfillCheckpoint(checkpoint);
+      await store.saveBackfillCheckpoint({ ...checkpoint, lastIssueNumber: 250, page: 3 });
+      expect(await store.getBackfillCheckpoint('Octo-Org/Octo-Repo', checkpoint.filterKey))
+        .toEqual({ ...checkpoint, lastIssueNumber: 250, page: 3 });
+      expect(await store.getBackfillCheckpoint(checkpoint.repository, 'all|||any')).toBeUndefined();
+
+      await store.deleteBackfillCheckpoint(checkpoint.repository, checkpoint.filterKey);
+      expect(await store.getBackfillCheckpoint(checkpoint.repository, checkpoint.filterKey)).toBeUndefined();
+    });
+  });
+});
@@ -12,6 +12,10 @@ export interface GitHubIssue {
     login: string;
     id: number;
   } | null;
+  assignees?: Array<{
+    login: string;
+    id: number;
+  }>;
   labels: Array<{
     id: number;
     name: string;
@@ -21,11 +25,36 @@ export interface GitHubIssue {
   updated_at: string;
   html_url: string;
   repository_url: string;
+  // Number of comments on the issue
+  comments?: number;
+  // Present when the issue is a pull request
+  pull_request?: {
+    url: string;
+  };
+}
+
+// Comment that an issue_comment delivery is about
+export interface GitHubIssueComment {
+  id: number;
+  body: string;
+  user: {
+    login: string;
+    id: number;
+    type?: string;
+  };
+  // Set when a GitHub App posted the comment
+  performed_via_github_app?: {
+    id: number;
+    slug?: string;
+  } | null;
+  created_at: string;
 }
 
 export interface GitHubWebhookPayload {
-  action: 'opened' | 'edited' | 'closed' | 'reopened' | 'assigned' | 'unassigned' | 'labeled' | 'unlabeled';
+  action: 'opened' | 'edited' | 'closed' | 'reopened' | 'assigned' | 'unassigned' | 'labeled' | 'unlabeled' | 'created' | 'deleted';
   issue: GitHubIssue;
+  // Set on issue_comment deliveries
+  comment?: GitHubIssueComment;
   repository: {
     id: number;
     name: string;
@@ -39,6 +68,15 @@ export interface GitHubWebhookPayload {
   sender: {
     login: string;
     id: number;
+    type?: string;
+  };
+  // Label added or removed, for labeled/unlabeled actions
+  label?: {
+    name: string;
+    color?: string;
+  };
+  installation?: {
+    id: number;
   };
 }
 
@@ -48,6 +86,21 @@ export interface ClassificationResult {
   reasoning: string;
   additionalLabels?: string[];
   severity?: 'critical' | 'high' | 'medium' | 'low';
+  // Required information for the primary label that the issue doesn't provide;
+  // undefined when completeness wasn't assessed
+  missingInfo?: string[];
+  // Component/area from the repository's area taxonomy, rated separately from the label
+  area?: {
+    name: string;
+    confidence: number;
+  };
+  source?: 'llm' | 'rules';
+  metadata?: {
+    provider?: string;
+    model?: string;
+    promptVersion?: string;
+    tokensUsed?: number;
+  };
 }
 
 export interface TriageContext {
@@ -57,38 +110,444 @@ export interface TriageContext {
   repository: string;
   existingLabels: string[];
   createdAt: string;
+  // Comments the author added after opening the issue, oldest first
+  followUps?: string[];
+  // Few-shot examples of correctly labeled issues from the same repository
+  examples?: ClassificationExample[];
+}
+
+export interface ClassificationExample {
+  issueNumber?: number;
+  title: string;
+  body: string;
+  label: string;
+  // Label that was applied to this issue before a maintainer corrected it
+  rejectedLabel?: string;
 }
 
 export interface TriageResult {
   success: boolean;
+  outcome?: 'labeled' | 'needs-review' | 'failed';
   classification?: ClassificationResult;
   labelsApplied?: string[];
   commentPosted?: boolean;
+  reviewId?: string;
+  error?: string;
+  retryable?: boolean;
+  // Set when an upstream circuit breaker was open; don't retry before this time
+  retryAfter?: string;
+  duplicates?: DuplicateCandidate[];
+  // Users assigned by routing rules or CODEOWNERS
+  assignees?: string[];
+}
+
+// Background triage job persisted by the job queue
+export type TriageJobStatus = 'pending' | 'running' | 'completed' | 'dead';
+
+export interface TriageJob {
+  id: number;
+  correlationId: string;
+  deliveryId?: string;
+  repository: string;
+  issueNumber: number;
+  payload: GitHubWebhookPayload;
+  status: TriageJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextRunAt: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Periodic sweeps run by the scheduler
+export type SchedulerTask = 'untriaged' | 'stale-needs-info';
+
+// One recorded scheduler run
+export interface SchedulerRun {
+  id: number;
+  task: SchedulerTask;
+  status: 'completed' | 'failed';
+  startedAt: string;
+  finishedAt: string;
+  // What the run did, e.g. { scanned: 40, enqueued: 2 }
+  summary: Record<string, number>;
+  error?: string;
+}
+
+// Which existing issues a backfill triages
+export interface BackfillFilter {
+  state: 'open' | 'closed' | 'all';
+  // Creation date range, as ISO dates
+  since?: string;
+  until?: string;
+  // Skip issues that already have any label
+  onlyUnlabeled: boolean;
+}
+
+// How far a backfill got: every matching issue numbered up to lastIssueNumber is done
+export interface BackfillCheckpoint {
+  repository: string;
+  // Identifies the filter the checkpoint belongs to
+  filterKey: string;
+  lastIssueNumber: number;
+  // Listing page the last issue was on, where a resumed run starts reading
+  page: number;
+  triaged: number;
+  updatedAt: string;
+}
+
+export interface BackfillReport {
+  repository: string;
+  dryRun: boolean;
+  // Checkpoint the run continued from
+  resumedFrom?: number;
+  scanned: number;
+  skipped: number;
+  triaged: number;
+  failed: number;
+  issues: Array<{
+    issueNumber: number;
+    title: string;
+    // "pending" in a dry run
+    outcome: TriageResult['outcome'] | 'pending';
+    error?: string;
+  }>;
+  // Every matching issue has been processed
+  completed: boolean;
+  stoppedReason?: 'limit' | 'rate-limit' | 'circuit-open';
+  // Earliest time to resume after stopping for a rate limit or open circuit
+  resumeAfter?: string;
+  checkpoint?: number;
+}
+
+// A maintainer replacing the label the agent applied
+export interface TriageFeedback {
+  id: number;
+  correlationId: string;
+  repository: string;
+  issueNumber: number;
+  issueTitle: string;
+  issueBody: string;
+  predictedLabel: string;
+  correctedLabel: string;
+  predictedConfidence?: number;
+  triageId?: number;
+  correctedBy: string;
+  createdAt: string;
+}
+
+// Already-labeled issue cached locally for few-shot example selection
+export interface CorpusIssue {
+  repository: string;
+  issueNumber: number;
+  title: string;
+  body: string;
+  labels: string[];
+  state: 'open' | 'closed';
+  url: string;
+  updatedAt: string;
+}
+
+// Existing open issue that closely matches a newly triaged one
+export interface DuplicateCandidate {
+  issueNumber: number;
+  title: string;
+  url: string;
+  similarity: number;
+}
+
+// One persisted triage attempt
+export interface TriageRecord {
+  id: number;
+  correlationId: string;
+  repository: string;
+  issueNumber: number;
+  issueTitle?: string;
+  action?: string;
+  outcome: 'labeled' | 'needs-review' | 'failed';
+  source?: 'llm' | 'rules';
+  provider?: string;
+  model?: string;
+  promptVersion?: string;
+  primaryLabel?: string;
+  confidence?: number;
+  labelsSuggested: string[];
+  labelsApplied: string[];
+  commentPosted: boolean;
+  reviewId?: string;
+  tokensUsed?: number;
+  durationMs: number;
   error?: string;
+  contentHash?: string;
+  createdAt: string;
+}
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected' | 'superseded';
+
+// A low-confidence suggestion waiting for a maintainer to approve or reject it
+export interface ReviewItem {
+  id: string;
+  repository: string;
+  issueNumber: number;
+  issueTitle: string;
+  issueUrl: string;
+  classification: ClassificationResult;
+  threshold: number;
+  status: ReviewStatus;
+  createdAt: string;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  appliedLabels?: string[];
+  note?: string;
+}
+
+// Sends issues with any of the labels, or mentioning any of the keywords, to the
+// listed GitHub users or "@org/team" teams
+export interface RoutingRule {
+  labels: string[];
+  keywords: string[];
+  assignees: string[];
+}
+
+// A classification label and the guidance the model is given for it
+export interface LabelDefinition {
+  name: string;
+  description?: string;
+  // Example issue titles that belong under this label
+  examples: string[];
+  // Hex color without "#", used when the label is created in a repository
+  color?: string;
+  // Conditions under which the label should be chosen
+  applyWhen: string[];
+  // Details an issue with this label must provide, or it is marked as needing information
+  requiredInfo: string[];
+}
+
+// Differences between the configured labels and a repository's labels
+export interface LabelChange {
+  name: string;
+  changes: Array<{
+    field: 'color' | 'description';
+    from?: string;
+    to: string;
+  }>;
+}
+
+export interface LabelSyncReport {
+  repository: string;
+  dryRun: boolean;
+  created: string[];
+  // Drifted labels that were (or in a dry run would be) updated
+  updated: LabelChange[];
+  // Drifted labels left alone because updating existing labels is disabled
+  drifted: LabelChange[];
+  unchanged: string[];
+  failed: Array<{
+    name: string;
+    error: string;
+  }>;
+}
+
+// One value of the area taxonomy, applied as a label (e.g. "area/api")
+export interface AreaDefinition {
+  name: string;
+  description?: string;
+}
+
+// How triage comments are written: always a new comment, edit the agent's previous
+// comment in place, or no comment at all
+export type CommentMode = 'create' | 'update' | 'none';
+
+export type CommentAction = 'created' | 'updated' | 'skipped';
+
+// Languages the built-in comment templates are available in
+export type CommentLocale = 'en' | 'es' | 'fr' | 'de' | 'pt-BR';
+
+// Mustache-style templates replacing the built-in triage comments
+export interface CommentTemplates {
+  triage?: string;
+  suggestion?: string;
+  // Extra section rendered into the comment when the issue is classified with the label
+  labels: Record<string, string>;
+}
+
+export type AssignmentStrategy = 'round-robin' | 'least-loaded';
+
+export interface RepositoryOverrides {
+  owner: string;
+  name: string;
+  labels?: LabelDefinition[];
+  confidenceThreshold?: number;
+  autoComment?: boolean;
+  guidelines?: string;
+  // Deprecated alias for guidelines
+  promptHints?: string;
+  installationId?: number;
+  areas?: AreaDefinition[];
+  routingRules?: RoutingRule[];
+  commentLocale?: CommentLocale;
+  commentTemplates?: Partial<CommentTemplates>;
+}
+
+// Fully resolved settings for a single triaged repository
+export interface RepositoryConfig {
+  owner: string;
+  name: string;
+  fullName: string;
+  // Label names, in the order given by labelDefinitions
+  labels: string[];
+  labelDefinitions: LabelDefinition[];
+  confidenceThreshold: number;
+  autoComment: boolean;
+  // Free-text triage guidelines included in the classification prompt
+  guidelines?: string;
+  installationId?: number;
+  areas: AreaDefinition[];
+  routingRules: RoutingRule[];
+  commentLocale: CommentLocale;
+  // Repository templates layered over comments.templates
+  commentTemplates: CommentTemplates;
 }
 
 export interface AppConfig {
   github: {
-    token: string;
+    token?: string;
+    app?: {
+      appId: string | number;
+      privateKey: string;
+      installationId?: number;
+    };
+    apiUrl: string;
     webhookSecret: string;
+    previousWebhookSecrets: string[];
+    allowSha1Signatures: boolean;
     repo: {
       owner: string;
       name: string;
     };
   };
   openai: {
-    apiKey: string;
+    provider: 'openai' | 'openai-compatible' | 'anthropic' | 'azure-openai';
+    apiKey?: string;
     model: string;
+    baseUrl?: string;
+    apiVersion?: string;
+    deployment?: string;
   };
   triage: {
-    labels: string[];
+    labels: LabelDefinition[];
+    guidelines?: string;
     confidenceThreshold: number;
     autoComment: boolean;
+    lowConfidence: {
+      label: string;
+      suggestComment: boolean;
+    };
+    rules: {
+      mode: 'off' | 'fallback' | 'prefilter' | 'only';
+      prefilterConfidence: number;
+      custom: Array<{
+        label: string;
+        pattern: string;
+        target: 'title' | 'body' | 'text';
+        weight: number;
+        description?: string;
+      }>;
+    };
+    areas: {
+      values: AreaDefinition[];
+      confidenceThreshold: number;
+    };
+  };
+  repositories: RepositoryOverrides[];
+  dedup: {
+    ttlSeconds: number;
+  };
+  retry: {
+    github: RetryOptions;
+    llm: RetryOptions;
+  };
+  feedback: {
+    enabled: boolean;
+    maxExamples: number;
+  };
+  duplicates: {
+    enabled: boolean;
+    threshold: number;
+    maxCandidates: number;
+    label: string;
+    maxOpenIssues: number;
+  };
+  comments: {
+    mode: CommentMode;
+    maxRevisions: number;
+    locale: CommentLocale;
+    templates: CommentTemplates;
+  };
+  labelSync: {
+    onStartup: boolean;
+    updateExisting: boolean;
+  };
+  needsInfo: {
+    enabled: boolean;
+    label: string;
+    retriageOnResponse: boolean;
+  };
+  backfill: {
+    concurrency: number;
+    minRateLimitRemaining: number;
+    maxRateLimitWaitSeconds: number;
+  };
+  scheduler: {
+    enabled: boolean;
+    timezone?: string;
+    untriaged: {
+      schedule: string;
+      lookbackDays: number;
+      maxIssues: number;
+    };
+    staleNeedsInfo: {
+      schedule: string;
+      remindAfterDays: number;
+      closeAfterDays: number;
+      reminder: string;
+      closeComment: string;
+    };
+  };
+  routing: {
+    enabled: boolean;
+    strategy: AssignmentStrategy;
+    maxAssignees: number;
+    codeowners: boolean;
+    rules: RoutingRule[];
+  };
+  fewShot: {
+    maxExamples: number;
+    tokenBudget: number;
+    refreshMinutes: number;
+    issuesPerLabel: number;
+  };
+  circuitBreaker: {
+    failureThreshold: number;
+    cooldownMs: number;
+  };
+  queue: {
+    concurrency: number;
+    maxAttempts: number;
+    backoffBaseMs: number;
+    backoffMaxMs: number;
+  };
+  storage: {
+    backend: 'sqlite' | 'memory';
+    dataDir: string;
+    sqlitePath?: string;
   };
   server: {
     port: number;
     environment: 'development' | 'production' | 'test';
     logLevel: 'error' | 'warn' | 'info' | 'debug';
+    shutdownTimeoutMs: number;
   };
 }
 
@@ -106,6 +565,8 @@ export interface RetryOptions {
   factor: number;
   minTimeout: number;
   maxTimeout: number;
+  // Longest server-requested delay to wait out before giving up
+  maxRetryAfterMs: number;
 }
 
 export interface MCPTool {
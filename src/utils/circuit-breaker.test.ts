@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CircuitBreaker, getCircuitBreaker, getOpenCircuitRetryAt } from './circuit-breaker.js';
+import { CircuitBreakerError, GitHubApiError } from './errors.js';
+
+const COOLDOWN_MS = 30000;
+const serverError = () => new GitHubApiError('Bad gateway', 502);
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.parse('2026-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createBreaker = () => new CircuitBreaker('test', { failureThreshold: 2, cooldownMs: COOLDOWN_MS });
+  const fail = (breaker: CircuitBreaker, error: Error = serverError()) =>
+    breaker.execute(async () => { throw error; }).catch(caught => caught);
+
+  it('opens after consecutive upstream failures and then fails fast', async () => {
+    const breaker = createBreaker();
+    await fail(breaker);
+    expect(breaker.isOpen()).toBe(false);
+    await fail(breaker);
+
+    const operation = jest.fn(async () => 'ok');
+    const error = await breaker.execute(operation).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CircuitBreakerError);
+    expect(error.retryAt).toBe(now + COOLDOWN_MS);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('ignores client errors', async () => {
+    const breaker = createBreaker();
+    await fail(breaker, new GitHubApiError('Not Found', 404));
+    await fail(breaker, new GitHubApiError('Not Found', 404));
+
+    expect(breaker.isOpen()).toBe(false);
+  });
+
+  it('closes when the trial request after the cooldown succeeds', async () => {
+    const breaker = createBreaker();
+    await fail(breaker);
+    await fail(breaker);
+
+    now += COOLDOWN_MS;
+    await expect(breaker.execute(async () => 'ok')).resolves.toBe('ok');
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reopens for another cooldown when the trial request fails', async () => {
+    const breaker = createBreaker();
+    await fail(breaker);
+    await fail(breaker);
+
+    now += COOLDOWN_MS;
+    await fail(breaker);
+
+    expect(breaker.isOpen()).toBe(true);
+    expect(breaker.retryAt()).toBe(now + COOLDOWN_MS);
+  });
+
+  it('reports a future retry time to requests arriving during the trial', async () => {
+    const breaker = createBreaker();
+    await fail(breaker);
+    await fail(breaker);
+    now += COOLDOWN_MS + 1000;
+
+    let finishTrial: (value: string) => void = () => undefined;
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    const error = await breaker.execute(async () => 'ok').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CircuitBreakerError);
+    expect(error.retryAt).toBeGreaterThan(now);
+
+    finishTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(breaker.getSnapshot().state).toBe('closed');
+  });
+});
+
+describe('getOpenCircuitRetryAt', () => {
+  it('only considers the breakers it is given', async () => {
+    const llm = getCircuitBreaker('test-llm', { failureThreshold: 1, cooldownMs: COOLDOWN_MS });
+    const github = getCircuitBreaker('test-github', { failureThreshold: 1, cooldownMs: COOLDOWN_MS });
+    await llm.execute(async () => { throw serverError(); }).catch(() => undefined);
+
+    expect(getOpenCircuitRetryAt([github])).toBeUndefined();
+    expect(getOpenCircuitRetryAt([github, llm])).toBe(llm.retryAt());
+    expect(getOpenCircuitRetryAt()).toBe(llm.retryAt());
+  });
+});
@@ -0,0 +1,158 @@
+import { log } from './logger.js';
+import { CircuitBreakerError } from './errors.js';
+import { shouldRetry } from './retry.js';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive upstream failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial request is let through
+  cooldownMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+  retryAt?: string;
+}
+
+// Fails fast while an upstream is known to be down. Only failures that say
+// something about the upstream's health (5xx, timeouts, rate limits) count;
+// client errors such as 404 or bad credentials pass straight through.
+export class CircuitBreaker {
+  public readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  public async execute<T>(operation: () => Promise<T>, correlationId?: string): Promise<T> {
+    this.refreshState();
+
+    if (this.state === 'open' || (this.state === 'half-open' && this.trialInFlight)) {
+      throw new CircuitBreakerError(this.name, { correlationId }, this.retryAt());
+    }
+
+    const isTrial = this.state === 'half-open';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.onSuccess(correlationId);
+      return result;
+    } catch (error) {
+      if (error instanceof Error && shouldRetry(error)) {
+        this.onFailure(error, correlationId);
+      } else if (isTrial) {
+        // The upstream answered, so it's reachable again
+        this.onSuccess(correlationId);
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  public isOpen(): boolean {
+    this.refreshState();
+    return this.state === 'open';
+  }
+
+  // Epoch milliseconds at which the circuit lets a request through. While a trial
+  // request is in flight its outcome is unknown, so callers wait another cooldown.
+  public retryAt(): number {
+    if (this.state === 'half-open' && this.trialInFlight) {
+      return Date.now() + this.options.cooldownMs;
+    }
+    return this.openedAt + this.options.cooldownMs;
+  }
+
+  public getSnapshot(): CircuitBreakerSnapshot {
+    this.refreshState();
+
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === 'closed' ? undefined : new Date(this.openedAt).toISOString(),
+      retryAt: this.state === 'closed' ? undefined : new Date(this.retryAt()).toISOString()
+    };
+  }
+
+  private refreshState(): void {
+    if (this.state === 'open' && Date.now() >= this.retryAt()) {
+      this.state = 'half-open';
+      log.info('Circuit breaker half-open, allowing a trial request', {
+        breaker: this.name,
+        component: 'circuit-breaker'
+      });
+    }
+  }
+
+  private onSuccess(correlationId?: string): void {
+    if (this.state !== 'closed') {
+      log.info('Circuit breaker closed', {
+        correlationId,
+        breaker: this.name,
+        component: 'circuit-breaker'
+      });
+    }
+
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+  }
+
+  private onFailure(error: Error, correlationId?: string): void {
+    this.consecutiveFailures++;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+
+      log.warn('Circuit breaker opened', {
+        correlationId,
+        breaker: this.name,
+        consecutiveFailures: this.consecutiveFailures,
+        cooldownMs: this.options.cooldownMs,
+        error: error.message,
+        component: 'circuit-breaker'
+      });
+    }
+  }
+}
+
+// One breaker per upstream, shared by every client in the process
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let breaker = breakers.get(name);
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, options);
+    breakers.set(name, breaker);
+  }
+  return breaker;
+}
+
+export function getCircuitBreakerSnapshots(): CircuitBreakerSnapshot[] {
+  return Array.from(breakers.values()).map(breaker => breaker.getSnapshot());
+}
+
+// Latest time any of the given breakers (by default all of them) lets a trial request
+// through, or undefined if none is open
+export function getOpenCircuitRetryAt(scope: CircuitBreaker[] = Array.from(breakers.values())): number | undefined {
+  const open = scope.filter(breaker => breaker.isOpen());
+  return open.length > 0 ? Math.max(...open.map(breaker => breaker.retryAt())) : undefined;
+}
@@ -1,4 +1,4 @@
-import type { LogContext } from '../types/index.js';
+import type { ClassificationResult, LogContext } from '../types/index.js';
 
 // Base error class for all application errors
 export abstract class AppError extends Error {
@@ -125,7 +125,8 @@ export class LowConfidenceError extends AppError {
   constructor(
     public readonly confidence: number,
     public readonly threshold: number,
-    context?: LogContext
+    context?: LogContext,
+    public readonly classification?: ClassificationResult
   ) {
     super(`Classification confidence ${confidence} below threshold ${threshold}`, context);
   }
@@ -205,7 +206,12 @@ export class CircuitBreakerError extends AppError {
   readonly code = 'CIRCUIT_BREAKER_OPEN';
   readonly retryable = true;
 
-  constructor(service: string, context?: LogContext) {
+  constructor(
+    service: string,
+    context?: LogContext,
+    // Epoch milliseconds after which a trial request is allowed
+    public readonly retryAt?: number
+  ) {
     super(`Circuit breaker is open for service: ${service}`, context);
   }
 }
@@ -263,8 +269,8 @@ export const ErrorFactory = {
   classificationFailed: (message: string, context?: LogContext) =>
     new ClassificationError(message, context),
     
-  lowConfidence: (confidence: number, threshold: number, context?: LogContext) =>
-    new LowConfidenceError(confidence, threshold, context),
+  lowConfidence: (confidence: number, threshold: number, context?: LogContext, classification?: ClassificationResult) =>
+    new LowConfidenceError(confidence, threshold, context, classification),
     
   timeout: (operation: string, timeoutMs: number, context?: LogContext) =>
     new TimeoutError(operation, timeoutMs, context),
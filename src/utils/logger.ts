@@ -1,6 +1,5 @@
 import winston from 'winston';
-import { config } from '../config/index.js';
-import type { LogContext } from '../types/index.js';
+import type { AppConfig, LogContext } from '../types/index.js';
 
 // Custom log levels
 const levels = {
@@ -10,10 +9,14 @@ const levels = {
   debug: 3
 };
 
+// Read from the environment directly so importing the logger never requires a full config
+const initialLevel = process.env.LOG_LEVEL && process.env.LOG_LEVEL in levels ? process.env.LOG_LEVEL : 'info';
+const initialEnvironment = process.env.NODE_ENV || 'development';
+
 // Create winston logger instance
 const logger = winston.createLogger({
   levels,
-  level: config.server.logLevel,
+  level: initialLevel,
   format: winston.format.combine(
     winston.format.timestamp({
       format: 'YYYY-MM-DD HH:mm:ss'
@@ -23,7 +26,7 @@ const logger = winston.createLogger({
   ),
   defaultMeta: {
     service: 'github-triage-agent',
-    environment: config.server.environment
+    environment: initialEnvironment
   },
   transports: [
     // Console transport with colorized output for development
@@ -44,18 +47,28 @@ const logger = winston.createLogger({
   ]
 });
 
-// Add file transport for production
-if (config.server.environment === 'production') {
-  logger.add(new winston.transports.File({
-    filename: 'logs/error.log',
-    level: 'error',
-    format: winston.format.json()
-  }));
-  
-  logger.add(new winston.transports.File({
-    filename: 'logs/combined.log',
-    format: winston.format.json()
-  }));
+let fileTransportsAdded = false;
+
+// Apply server settings from a loaded configuration
+function configureLogger(serverConfig: AppConfig['server']): void {
+  logger.level = serverConfig.logLevel;
+  logger.defaultMeta = { ...logger.defaultMeta, environment: serverConfig.environment };
+
+  // Add file transport for production
+  if (serverConfig.environment === 'production' && !fileTransportsAdded) {
+    logger.add(new winston.transports.File({
+      filename: 'logs/error.log',
+      level: 'error',
+      format: winston.format.json()
+    }));
+    
+    logger.add(new winston.transports.File({
+      filename: 'logs/combined.log',
+      format: winston.format.json()
+    }));
+
+    fileTransportsAdded = true;
+  }
 }
 
 // Helper function to generate correlation IDs
@@ -219,5 +232,5 @@ export const performanceLog = {
   }
 };
 
-export { generateCorrelationId };
+export { generateCorrelationId, configureLogger };
 export default logger;
\ No newline at end of file
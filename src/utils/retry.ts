@@ -0,0 +1,116 @@
+import pRetry, { AbortError, type FailedAttemptError } from 'p-retry';
+import { log } from './logger.js';
+import {
+  GitHubApiError,
+  GitHubRateLimitError,
+  OpenAIApiError,
+  OpenAIRateLimitError,
+  TimeoutError,
+  isRetryableError
+} from './errors.js';
+import type { RetryOptions } from '../types/index.js';
+
+export interface RetryContext {
+  operation: string;
+  correlationId: string;
+  component: string;
+  // Retrying a timed-out request may repeat a side effect the server already applied
+  retryTimeouts?: boolean;
+}
+
+// HTTP statuses that can succeed on a second attempt
+const TRANSIENT_STATUS_CODES = new Set([408, 409, 425, 429]);
+
+// Decide whether an error is worth another attempt. Upstream 4xx responses are
+// flagged retryable by their error class but only a few of them are transient.
+export function shouldRetry(error: Error, context: Pick<RetryContext, 'retryTimeouts'> = {}): boolean {
+  if (!isRetryableError(error)) {
+    return false;
+  }
+
+  if (error instanceof TimeoutError) {
+    return context.retryTimeouts ?? true;
+  }
+
+  if (error instanceof GitHubApiError || error instanceof OpenAIApiError) {
+    const status = error.apiStatusCode;
+    return status === undefined || status >= 500 || TRANSIENT_STATUS_CODES.has(status);
+  }
+
+  return true;
+}
+
+// How long the upstream asked us to wait before retrying, if it said
+export function getRequestedDelay(error: Error, now: number = Date.now()): number | undefined {
+  if (error instanceof OpenAIRateLimitError && error.retryAfter !== undefined) {
+    return error.retryAfter * 1000;
+  }
+
+  if (error instanceof GitHubRateLimitError && error.resetTime !== undefined) {
+    return Math.max(0, error.resetTime - now);
+  }
+
+  return undefined;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Run an operation with exponential backoff. A server-requested delay (Retry-After,
+// rate limit reset) is waited out on top of the backoff; if it is longer than
+// maxRetryAfterMs the error is surfaced instead so the caller can reschedule.
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions,
+  context: RetryContext
+): Promise<T> {
+  return pRetry(async (attempt) => {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!(error instanceof Error) || !shouldRetry(error, context)) {
+        throw new AbortError(error as Error);
+      }
+
+      const requestedDelay = getRequestedDelay(error);
+      if (requestedDelay !== undefined && requestedDelay > options.maxRetryAfterMs) {
+        log.warn('Upstream requested a longer wait than allowed, not retrying', {
+          correlationId: context.correlationId,
+          operation: context.operation,
+          requestedDelayMs: requestedDelay,
+          maxRetryAfterMs: options.maxRetryAfterMs,
+          component: context.component
+        });
+        throw new AbortError(error);
+      }
+
+      throw error;
+    }
+  }, {
+    retries: options.retries,
+    factor: options.factor,
+    minTimeout: options.minTimeout,
+    maxTimeout: options.maxTimeout,
+    randomize: true,
+    onFailedAttempt: async (error: FailedAttemptError) => {
+      if (error.retriesLeft <= 0) {
+        return;
+      }
+
+      const requestedDelay = getRequestedDelay(error);
+
+      log.warn('Request failed, retrying', {
+        correlationId: context.correlationId,
+        operation: context.operation,
+        attempt: error.attemptNumber,
+        retriesLeft: error.retriesLeft,
+        requestedDelayMs: requestedDelay,
+        error: error.message,
+        component: context.component
+      });
+
+      if (requestedDelay) {
+        await sleep(requestedDelay);
+      }
+    }
+  });
+}
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { describe, expect, it } from '@jest/globals';
+import request from 'supertest';
+import { computeSignature, safeCompare, verifyWebhookSignature } from './signature.js';
+import { createWebhookApp } from '../server.js';
+import WebhookHandler from '../handlers/webhook.js';
+import { createTestConfig } from '../__fixtures__/config.js';
+
+const fixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), '../__fixtures__');
+// The exact bytes of a delivery, including GitHub's formatting and non-ASCII text
+const issuesOpened = fs.readFileSync(path.join(fixtures, 'issues-opened.json'));
+
+const SECRET = 'test-webhook-secret';
+
+describe('verifyWebhookSignature', () => {
+  it("matches GitHub's documented example delivery", () => {
+    // https://docs.github.com/en/webhooks/using-webhooks/validating-webhook-deliveries#testing-the-webhook-payload-validation
+    const result = verifyWebhookSignature(
+      Buffer.from('Hello, World!'),
+      { sha256: 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17' },
+      ["It's a Secret to Everybody"]
+    );
+
+    expect(result).toEqual({ valid: true, algorithm: 'sha256', secretIndex: 0 });
+  });
+
+  it('verifies the raw body but not the same payload re-serialized', () => {
+    const signature = computeSignature(issuesOpened, SECRET);
+    const reserialized = Buffer.from(JSON.stringify(JSON.parse(issuesOpened.toString('utf8'))));
+
+    expect(verifyWebhookSignature(issuesOpened, { sha256: signature }, [SECRET]).valid).toBe(true);
+    expect(verifyWebhookSignature(reserialized, { sha256: signature }, [SECRET]).valid).toBe(false);
+  });
+
+  it('rejects a payload signed with another secret', () => {
+    const signature = computeSignature(issuesOpened, 'some-other-secret');
+
+    expect(verifyWebhookSignature(issuesOpened, { sha256: signature }, [SECRET])).toEqual({
+      valid: false,
+      algorithm: 'sha256',
+      secretIndex: undefined
+    });
+  });
+
+  it('only accepts sha1 signatures when allowed', () => {
+    const sha1 = computeSignature(issuesOpened, SECRET, 'sha1');
+
+    expect(verifyWebhookSignature(issuesOpened, { sha1 }, [SECRET]).valid).toBe(false);
+    expect(verifyWebhookSignature(issuesOpened, { sha1 }, [SECRET], { allowSha1: true })).toEqual({
+      valid: true,
+      algorithm: 'sha1',
+      secretIndex: 0
+    });
+  });
+
+  it('checks the sha256 header when both are present', () => {
+    const sha1 = computeSignature(issuesOpened, SECRET, 'sha1');
+    const sha256 = computeSignature(issuesOpened, 'some-other-secret');
+
+    const result = verifyWebhookSignature(issuesOpened, { sha256, sha1 }, [SECRET], { allowSha1: true });
+    expect(result).toMatchObject({ valid: false, algorithm: 'sha256' });
+  });
+
+  it('accepts previous secrets during a rotation and reports which one matched', () => {
+    const secrets = ['new-secret', SECRET, 'oldest-secret'];
+
+    expect(verifyWebhookSignature(issuesOpened, { sha256: computeSignature(issuesOpened, SECRET) }, secrets))
+      .toMatchObject({ valid: true, secretIndex: 1 });
+    expect(verifyWebhookSignature(issuesOpened, { sha256: computeSignature(issuesOpened, 'new-secret') }, secrets))
+      .toMatchObject({ valid: true, secretIndex: 0 });
+    expect(verifyWebhookSignature(issuesOpened, { sha256: computeSignature(issuesOpened, 'retired') }, secrets).valid)
+      .toBe(false);
+  });
+
+  it('rejects digests of the wrong length without throwing', () => {
+    const signature = computeSignature(issuesOpened, SECRET);
+
+    for (const sha256 of [signature.slice(0, -2), `${signature}00`, 'sha256=', signature.replace('sha256=', 'sha1=')]) {
+      expect(verifyWebhookSignature(issuesOpened, { sha256 }, [SECRET]).valid).toBe(false);
+    }
+    // A sha1-length digest in the sha256 header
+    const sha1Digest = computeSignature(issuesOpened, SECRET, 'sha1').replace('sha1=', 'sha256=');
+    expect(verifyWebhookSignature(issuesOpened, { sha256: sha1Digest }, [SECRET]).valid).toBe(false);
+  });
+
+  it('rejects non-hex digests', () => {
+    expect(verifyWebhookSignature(issuesOpened, { sha256: `sha256=${'z'.repeat(64)}` }, [SECRET]).valid).toBe(false);
+  });
+});
+
+describe('safeCompare', () => {
+  it('returns false for buffers of different lengths', () => {
+    expect(safeCompare(Buffer.from('abc'), Buffer.from('abcd'))).toBe(false);
+    expect(safeCompare(Buffer.from('abcd'), Buffer.from('abcd'))).toBe(true);
+  });
+});
+
+describe('webhook signature middleware', () => {
+  const createApp = (github: Record<string, unknown> = {}) => {
+    const config = createTestConfig({
+      github: {
+        token: `ghp_${'a'.repeat(36)}`,
+        webhookSecret: SECRET,
+        repo: { owner: 'someone-else', name: 'unrelated' },
+        ...github
+      }
+    });
+    return createWebhookApp(new WebhookHandler(config));
+  };
+
+  const deliver = (app: ReturnType<typeof createApp>, headers: Record<string, string>) =>
+    request(app)
+      .post('/webhooks/github')
+      .set('Content-Type', 'application/json')
+      .set('X-GitHub-Event', 'issues')
+      .set(headers)
+      .send(issuesOpened.toString('utf8'));
+
+  it('accepts a delivery signed over its raw bytes', async () => {
+    const response = await deliver(createApp(), { 'X-Hub-Signature-256': computeSignature(issuesOpened, SECRET) });
+
+    // Past verification; the repository isn't registered so nothing is triaged
+    expect(response.status).toBe(200);
+    expect(response.body.processed).toBe(false);
+  });
+
+  it('rejects a delivery without a signature', async () => {
+    const response = await deliver(createApp(), {});
+
+    expect(response.status).toBe(401);
+    expect(response.body.message).toBe('Missing signature header');
+  });
+
+  it('rejects a signature computed over the re-serialized payload', async () => {
+    const reserialized = JSON.stringify(JSON.parse(issuesOpened.toString('utf8')));
+    const response = await deliver(createApp(), { 'X-Hub-Signature-256': computeSignature(reserialized, SECRET) });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('accepts the legacy sha1 header only when enabled', async () => {
+    const headers = { 'X-Hub-Signature': computeSignature(issuesOpened, SECRET, 'sha1') };
+
+    expect((await deliver(createApp(), headers)).status).toBe(401);
+    expect((await deliver(createApp({ allowSha1Signatures: true }), headers)).status).toBe(200);
+  });
+
+  it('accepts deliveries signed with a previous secret', async () => {
+    const app = createApp({ webhookSecret: 'rotated-secret', previousWebhookSecrets: [SECRET] });
+    const response = await deliver(app, { 'X-Hub-Signature-256': computeSignature(issuesOpened, SECRET) });
+
+    expect(response.status).toBe(200);
+  });
+});
@@ -0,0 +1,96 @@
+import crypto from 'crypto';
+
+export type SignatureAlgorithm = 'sha256' | 'sha1';
+
+export interface SignatureHeaders {
+  sha256?: string;
+  sha1?: string;
+}
+
+export interface SignatureVerificationOptions {
+  // Accept the legacy X-Hub-Signature (HMAC-SHA1) header when no sha256 header is present
+  allowSha1?: boolean;
+}
+
+export interface SignatureVerificationResult {
+  valid: boolean;
+  algorithm?: SignatureAlgorithm;
+  // Index into the secrets list that produced a match (0 = current secret)
+  secretIndex?: number;
+}
+
+// Parse a "<algorithm>=<hex digest>" header into its digest bytes
+function parseSignatureHeader(header: string, algorithm: SignatureAlgorithm): Buffer | null {
+  const prefix = `${algorithm}=`;
+  if (!header.startsWith(prefix)) {
+    return null;
+  }
+
+  const digest = header.slice(prefix.length);
+  const expectedLength = algorithm === 'sha256' ? 64 : 40;
+  if (digest.length !== expectedLength || !/^[0-9a-f]+$/i.test(digest)) {
+    return null;
+  }
+
+  return Buffer.from(digest, 'hex');
+}
+
+// Constant-time comparison that returns false instead of throwing on length mismatch
+export function safeCompare(a: Buffer, b: Buffer): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Compute the HMAC GitHub would send for a payload
+export function computeSignature(
+  payload: Buffer | string,
+  secret: string,
+  algorithm: SignatureAlgorithm = 'sha256'
+): string {
+  const digest = crypto.createHmac(algorithm, secret).update(payload).digest('hex');
+  return `${algorithm}=${digest}`;
+}
+
+// Verify a webhook payload against any of the configured secrets.
+// The payload must be the exact bytes received; re-serialized JSON will not match.
+export function verifyWebhookSignature(
+  payload: Buffer,
+  headers: SignatureHeaders,
+  secrets: string[],
+  options: SignatureVerificationOptions = {}
+): SignatureVerificationResult {
+  let algorithm: SignatureAlgorithm;
+  let header: string;
+
+  if (headers.sha256) {
+    algorithm = 'sha256';
+    header = headers.sha256;
+  } else if (headers.sha1 && options.allowSha1) {
+    algorithm = 'sha1';
+    header = headers.sha1;
+  } else {
+    return { valid: false };
+  }
+
+  const received = parseSignatureHeader(header, algorithm);
+  if (!received) {
+    return { valid: false, algorithm };
+  }
+
+  // Check every secret so the time taken doesn't reveal which one matched
+  let secretIndex: number | undefined;
+  secrets.forEach((secret, index) => {
+    const expected = crypto.createHmac(algorithm, secret).update(payload).digest();
+    if (safeCompare(received, expected) && secretIndex === undefined) {
+      secretIndex = index;
+    }
+  });
+
+  return {
+    valid: secretIndex !== undefined,
+    algorithm,
+    secretIndex
+  };
+}
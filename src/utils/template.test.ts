@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import { compileTemplate, renderTemplate } from './template.js';
+
+describe('renderTemplate', () => {
+  it('inserts variables and dotted lookups as-is', () => {
+    const view = { name: '<b>bug</b>', severity: { level: 'high', emoji: '⚠️' } };
+
+    expect(renderTemplate('Label {{ name }}: {{severity.emoji}} {{severity.level}}', view))
+      .toBe('Label <b>bug</b>: ⚠️ high');
+  });
+
+  it('renders missing and null values as empty strings', () => {
+    expect(renderTemplate('[{{missing}}][{{nothing}}][{{deep.missing.value}}]', { nothing: null })).toBe('[][][]');
+  });
+
+  it('renders a section once for a truthy value and not at all for a falsy one', () => {
+    const template = '{{#area}}Area: {{name}}{{/area}}{{#score}} ({{score}}){{/score}}';
+
+    expect(renderTemplate(template, { area: { name: 'api' }, score: 0 })).toBe('Area: api');
+    expect(renderTemplate(template, { area: null, score: 3 })).toBe(' (3)');
+  });
+
+  it('repeats a section for every item of a list, with {{.}} as the item', () => {
+    expect(renderTemplate('{{#items}}- {{.}}\n{{/items}}', { items: ['a', 'b'] })).toBe('- a\n- b\n');
+  });
+
+  it('looks names up in the enclosing contexts', () => {
+    const view = { label: 'bug', duplicates: [{ number: 1 }, { number: 2, label: 'question' }] };
+
+    expect(renderTemplate('{{#duplicates}}#{{number}} {{label}};{{/duplicates}}', view)).toBe('#1 bug;#2 question;');
+  });
+
+  it('renders inverted sections for falsy values and empty lists', () => {
+    const template = '{{^items}}none{{/items}}{{^flag}}, off{{/flag}}';
+
+    expect(renderTemplate(template, { items: [], flag: false })).toBe('none, off');
+    expect(renderTemplate(template, { items: ['a'], flag: true })).toBe('');
+  });
+
+  it('drops comments and the lines of standalone section tags', () => {
+    const template = 'Intro {{! not shown }}\n{{#items}}\n- {{.}}\n{{/items}}\nEnd';
+
+    expect(renderTemplate(template, { items: ['a'] })).toBe('Intro \n- a\nEnd');
+  });
+});
+
+describe('compileTemplate', () => {
+  it.each([
+    ['{{#open}}never closed', 'Unclosed section {{#open}}'],
+    ['{{/stray}}', 'Unexpected closing tag {{/stray}}'],
+    ['{{#a}}{{#b}}{{/a}}{{/b}}', 'Unexpected closing tag {{/a}}'],
+    ['{{ }}', 'Empty tag {{ }}']
+  ])('rejects %s', (template, message) => {
+    expect(() => compileTemplate(template)).toThrow(message);
+  });
+
+  it('compiles once for repeated rendering', () => {
+    const nodes = compileTemplate('Hi {{name}}');
+
+    expect(renderTemplate(nodes, { name: 'a' })).toBe('Hi a');
+    expect(renderTemplate(nodes, { name: 'b' })).toBe('Hi b');
+  });
+});
@@ -0,0 +1,122 @@
+// A small Mustache-style template renderer for comment text. Supports
+// {{name}} and dotted {{a.b}} lookups, {{.}} for the current item,
+// {{#section}}...{{/section}} (rendered once for a truthy value, once per item
+// for a list), {{^section}}...{{/section}} (rendered for a falsy value or empty
+// list) and {{! comments}}. Values are inserted as-is, since the output is markdown.
+
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'section'; name: string; inverted: boolean; children: TemplateNode[] };
+
+export type TemplateView = Record<string, unknown>;
+
+const TAG_PATTERN = /\{\{\s*([#^/!]?)\s*([^}]*?)\s*\}\}/g;
+
+// A section or comment tag alone on its line doesn't leave a blank line behind
+const STANDALONE_PATTERN = /^[ \t]*(\{\{\s*[#^/!][^}]*\}\})[ \t]*\r?\n/gm;
+
+// Parse a template, throwing an Error that names the problem if it is malformed
+export function compileTemplate(template: string): TemplateNode[] {
+  const source = template.replace(STANDALONE_PATTERN, '$1');
+  const root: TemplateNode[] = [];
+  const stack: Array<{ name: string; children: TemplateNode[] }> = [{ name: '', children: root }];
+  let position = 0;
+
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, kind, name] = match;
+    const current = stack[stack.length - 1];
+
+    if (match.index > position) {
+      current.children.push({ type: 'text', text: source.slice(position, match.index) });
+    }
+    position = match.index + tag.length;
+
+    if (kind === '!') {
+      continue;
+    }
+    if (!name) {
+      throw new Error(`Empty tag ${tag}`);
+    }
+
+    if (kind === '#' || kind === '^') {
+      const section: TemplateNode = { type: 'section', name, inverted: kind === '^', children: [] };
+      current.children.push(section);
+      stack.push({ name, children: section.children });
+    } else if (kind === '/') {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Unexpected closing tag {{/${name}}}`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: 'variable', name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed section {{#${stack[stack.length - 1].name}}}`);
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', text: source.slice(position) });
+  }
+
+  return root;
+}
+
+export function renderTemplate(template: string | TemplateNode[], view: TemplateView): string {
+  const nodes = typeof template === 'string' ? compileTemplate(template) : template;
+  return renderNodes(nodes, [view]);
+}
+
+function renderNodes(nodes: TemplateNode[], contexts: unknown[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.text;
+      continue;
+    }
+
+    const value = lookup(node.name, contexts);
+
+    if (node.type === 'variable') {
+      output += value === undefined || value === null ? '' : String(value);
+      continue;
+    }
+
+    const items = Array.isArray(value) ? value : isTruthy(value) ? [value] : [];
+    if (node.inverted) {
+      output += items.length === 0 ? renderNodes(node.children, contexts) : '';
+    } else {
+      for (const item of items) {
+        output += renderNodes(node.children, [...contexts, item]);
+      }
+    }
+  }
+
+  return output;
+}
+
+// Resolve a name against the innermost context that defines its first segment
+function lookup(name: string, contexts: unknown[]): unknown {
+  if (name === '.') {
+    return contexts[contexts.length - 1];
+  }
+
+  const [head, ...rest] = name.split('.');
+  for (let i = contexts.length - 1; i >= 0; i--) {
+    const context = contexts[i];
+    if (context !== null && typeof context === 'object' && head in context) {
+      return rest.reduce<unknown>(
+        (value, key) => value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined,
+        (context as Record<string, unknown>)[head]
+      );
+    }
+  }
+
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  return value !== undefined && value !== null && value !== false && value !== '' && value !== 0;
+}